@@ -0,0 +1,338 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { AssetManager } from '../asset/index.js';
+import { Entity, createSystem } from '../ecs/index.js';
+import {
+  AnimationAction,
+  AnimationActionLoopStyles,
+  AnimationClip,
+  AnimationMixer,
+  LoopOnce,
+  LoopPingPong,
+  LoopRepeat,
+} from '../runtime/index.js';
+import {
+  AnimationFinished,
+  AnimationLoop,
+  AnimationLooped,
+  AnimationMarker,
+  AnimationPlayer,
+  getAnimationMarkers,
+} from './animation.js';
+
+const LOOP_STYLES: Record<string, AnimationActionLoopStyles> = {
+  [AnimationLoop.Repeat]: LoopRepeat,
+  [AnimationLoop.Once]: LoopOnce,
+  [AnimationLoop.PingPong]: LoopPingPong,
+};
+
+interface MixerState {
+  mixer: AnimationMixer;
+  src: string;
+  clips?: AnimationClip[];
+  loading: boolean;
+  /** `src` failed to load; not retried until `src` changes. */
+  failed: boolean;
+  clip: string;
+  base?: AnimationAction;
+  layersText: string;
+  layers: Map<string, { action: AnimationAction; weight: number }>;
+  /** Action time before the last mixer update, for marker detection. */
+  lastTimes: Map<AnimationAction, number>;
+}
+
+/** Parse `"Wave:0.5,Blink"` into clip names with weights. */
+function parseLayers(text: string): Map<string, number> {
+  const layers = new Map<string, number>();
+  for (const part of text.split(',')) {
+    const [name, weight] = part.split(':').map((s) => s.trim());
+    if (name) {
+      const value = weight === undefined ? 1 : Number(weight);
+      layers.set(name, Number.isNaN(value) ? 1 : value);
+    }
+  }
+  return layers;
+}
+
+/**
+ * Drives {@link AnimationPlayer} components with one `AnimationMixer` per entity.
+ *
+ * @remarks
+ * - Loads the `src` GLTF through {@link AssetManager} when it is not cached yet. A
+ *   `src` that fails to load is not retried until `src` changes.
+ * - Applies `speed`, `weight` and `loop` every frame, so they can be changed live.
+ * - Changing `src` stops the current actions and resolves `clip` and `layers` again
+ *   against the new clips, without crossfading.
+ * - Mixers are stopped and uncached when the component is removed.
+ *
+ * @category Animation
+ */
+export class AnimationSystem extends createSystem({
+  players: { required: [AnimationPlayer] },
+}) {
+  private states = new Map<Entity, MixerState>();
+  private missingClips = new Set<string>();
+
+  init(): void {
+    this.queries.players.subscribe('disqualify', (entity) => {
+      const state = this.states.get(entity);
+      if (state) {
+        this.clearActions(state);
+        this.states.delete(entity);
+      }
+    });
+  }
+
+  update(delta: number): void {
+    for (const entity of this.queries.players.entities) {
+      if (!entity.object3D) {
+        continue;
+      }
+      const state = this.getState(entity);
+      const clips = this.resolveClips(entity, state);
+      if (!clips) {
+        continue;
+      }
+
+      const crossfade = entity.getValue(AnimationPlayer, 'crossfade')!;
+      const speed = entity.getValue(AnimationPlayer, 'speed')!;
+      this.updateBase(entity, state, clips, crossfade);
+      this.updateLayers(entity, state, clips, crossfade);
+
+      if (state.base) {
+        const loop = entity.getValue(AnimationPlayer, 'loop') as string;
+        state.base.setLoop(LOOP_STYLES[loop] ?? LoopRepeat, Infinity);
+        state.base.clampWhenFinished = loop === AnimationLoop.Once;
+        state.base.timeScale = speed;
+        state.base.weight = entity.getValue(AnimationPlayer, 'weight')!;
+      }
+      state.layers.forEach(({ action, weight }) => {
+        action.timeScale = speed;
+        action.weight = weight;
+      });
+
+      state.lastTimes.clear();
+      for (const action of this.activeActions(state)) {
+        state.lastTimes.set(action, action.time);
+      }
+      state.mixer.update(delta);
+      this.emitMarkers(entity, state);
+    }
+  }
+
+  private getState(entity: Entity): MixerState {
+    let state = this.states.get(entity);
+    if (!state) {
+      const mixer = new AnimationMixer(entity.object3D!);
+      mixer.addEventListener('finished', (event) =>
+        this.world.events.emit(AnimationFinished, {
+          entity,
+          clip: event.action.getClip().name,
+        }),
+      );
+      mixer.addEventListener('loop', (event) =>
+        this.world.events.emit(AnimationLooped, {
+          entity,
+          clip: event.action.getClip().name,
+        }),
+      );
+      state = {
+        mixer,
+        src: '',
+        loading: false,
+        failed: false,
+        clip: '',
+        layersText: '',
+        layers: new Map(),
+        lastTimes: new Map(),
+      };
+      this.states.set(entity, state);
+    }
+    return state;
+  }
+
+  /** Clips from the `src` GLTF, or the Object3D's own animations. */
+  private resolveClips(
+    entity: Entity,
+    state: MixerState,
+  ): AnimationClip[] | undefined {
+    const src = entity.getValue(AnimationPlayer, 'src')!;
+    if (src !== state.src) {
+      state.src = src;
+      state.clips = undefined;
+      state.failed = false;
+      // Clip and layer names are resolved again against the new asset
+      this.clearActions(state);
+    }
+    if (state.clips) {
+      return state.clips;
+    }
+    if (!src) {
+      state.clips = entity.object3D!.animations;
+      return state.clips;
+    }
+    const gltf = AssetManager.getGLTF(src);
+    if (gltf) {
+      state.clips = gltf.animations;
+    } else if (!state.loading && !state.failed) {
+      state.loading = true;
+      AssetManager.loadGLTF(src)
+        .catch((error) => {
+          console.error(`[AnimationSystem] Failed to load ${src}:`, error);
+          if (state.src === src) {
+            state.failed = true;
+          }
+        })
+        .finally(() => {
+          state.loading = false;
+        });
+    }
+    return state.clips;
+  }
+
+  /** Stop and uncache every action, forgetting the playing clip and layers. */
+  private clearActions(state: MixerState): void {
+    state.mixer.stopAllAction();
+    state.mixer.uncacheRoot(state.mixer.getRoot());
+    state.clip = '';
+    state.base = undefined;
+    state.layersText = '';
+    state.layers.clear();
+    state.lastTimes.clear();
+  }
+
+  private findClip(
+    clips: AnimationClip[],
+    name: string,
+  ): AnimationClip | undefined {
+    const clip = AnimationClip.findByName(clips, name) ?? undefined;
+    if (!clip && !this.missingClips.has(name)) {
+      this.missingClips.add(name);
+      console.warn(
+        `[AnimationSystem] Clip "${name}" not found. Available clips:`,
+        clips.map((c) => c.name),
+      );
+    }
+    return clip;
+  }
+
+  private updateBase(
+    entity: Entity,
+    state: MixerState,
+    clips: AnimationClip[],
+    crossfade: number,
+  ): void {
+    const name = entity.getValue(AnimationPlayer, 'clip')!;
+    if (name === state.clip) {
+      return;
+    }
+    state.clip = name;
+    const previous = state.base;
+    const clip = name ? this.findClip(clips, name) : undefined;
+    state.base = clip ? state.mixer.clipAction(clip) : undefined;
+    if (state.base === previous) {
+      return;
+    }
+
+    if (state.base) {
+      state.base.reset().play();
+      if (previous && crossfade > 0) {
+        state.base.crossFadeFrom(previous, crossfade, false);
+      } else {
+        previous?.stop();
+      }
+    } else if (previous) {
+      if (crossfade > 0) {
+        previous.fadeOut(crossfade);
+      } else {
+        previous.stop();
+      }
+    }
+  }
+
+  private updateLayers(
+    entity: Entity,
+    state: MixerState,
+    clips: AnimationClip[],
+    crossfade: number,
+  ): void {
+    const text = entity.getValue(AnimationPlayer, 'layers')!;
+    if (text === state.layersText) {
+      return;
+    }
+    state.layersText = text;
+    const wanted = parseLayers(text);
+
+    state.layers.forEach(({ action }, name) => {
+      if (!wanted.has(name)) {
+        if (crossfade > 0) {
+          action.fadeOut(crossfade);
+        } else {
+          action.stop();
+        }
+        state.layers.delete(name);
+      }
+    });
+
+    wanted.forEach((weight, name) => {
+      const layer = state.layers.get(name);
+      if (layer) {
+        layer.weight = weight;
+        return;
+      }
+      const clip = this.findClip(clips, name);
+      if (!clip) {
+        return;
+      }
+      const action = state.mixer.clipAction(clip);
+      action.setLoop(LoopRepeat, Infinity).reset().play();
+      if (crossfade > 0) {
+        action.fadeIn(crossfade);
+      }
+      state.layers.set(name, { action, weight });
+    });
+  }
+
+  private activeActions(state: MixerState): AnimationAction[] {
+    const actions = [...state.layers.values()].map(({ action }) => action);
+    if (state.base) {
+      actions.push(state.base);
+    }
+    return actions.filter((action) => action.isRunning());
+  }
+
+  private emitMarkers(entity: Entity, state: MixerState): void {
+    state.lastTimes.forEach((before, action) => {
+      const clip = action.getClip();
+      const markers = getAnimationMarkers(clip);
+      if (!markers) {
+        return;
+      }
+      const after = action.time;
+      const lo = Math.min(before, after);
+      const hi = Math.max(before, after);
+      // Forward playback wrapping around covers the clip end and the new start;
+      // a ping-pong turn reflects, so the covered range stays [lo, hi]
+      const wrapped =
+        action.loop !== LoopPingPong &&
+        action.timeScale >= 0 !== after >= before;
+      for (const marker of markers) {
+        const crossed = wrapped
+          ? marker.time > hi || marker.time <= lo
+          : marker.time !== before && marker.time >= lo && marker.time <= hi;
+        if (crossed) {
+          this.world.events.emit(AnimationMarker, {
+            entity,
+            clip: clip.name,
+            name: marker.name,
+          });
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { Types, createComponent, createEvent } from '../ecs/index.js';
+import type { Entity } from '../ecs/index.js';
+import type { AnimationClip } from '../runtime/index.js';
+
+/**
+ * Loop behavior of the clip played by {@link AnimationPlayer}.
+ *
+ * @category Animation
+ */
+export const AnimationLoop = {
+  Repeat: 'repeat',
+  Once: 'once',
+  PingPong: 'pingpong',
+} as const;
+
+/**
+ * Plays GLTF skeletal and morph target animations on an entity's Object3D.
+ *
+ * @remarks
+ * - Clips come from the GLTF asset `src` (an {@link AssetManager} key or URL), or from
+ *   `object3D.animations` when `src` is empty (set for GLXF nodes).
+ * - Changing `clip` crossfades from the previous clip over `crossfade` seconds; an
+ *   empty `clip` fades out.
+ * - `layers` plays further clips on top of the base clip, e.g. `"Wave:0.5,Blink"`
+ *   (optional `:weight`, default 1). Layers always repeat and fade in/out on change.
+ * - All fields are plain values, so the component can be authored in GLXF.
+ * - The {@link AnimationSystem} emits {@link AnimationFinished}, {@link AnimationLooped}
+ *   and {@link AnimationMarker} on `world.events`.
+ *
+ * @category Animation
+ */
+export const AnimationPlayer = createComponent(
+  'AnimationPlayer',
+  {
+    src: { type: Types.String, default: '' }, // GLTF asset key or URL providing clips
+    clip: { type: Types.String, default: '' }, // Base clip name; empty stops
+    loop: {
+      type: Types.Enum,
+      enum: AnimationLoop,
+      default: AnimationLoop.Repeat,
+    },
+    speed: { type: Types.Float32, default: 1 }, // Playback rate multiplier
+    weight: { type: Types.Float32, default: 1 }, // Base clip blend weight [0..1]
+    crossfade: { type: Types.Float32, default: 0.25 }, // Seconds used for clip and layer transitions
+    layers: { type: Types.String, default: '' }, // Additional clips "Name[:weight],..."
+  },
+  'Plays GLTF skeletal and morph animations with crossfades and layers',
+);
+
+/**
+ * Emitted when a non-repeating clip reaches its end.
+ * @category Animation
+ */
+export const AnimationFinished = createEvent<{ entity: Entity; clip: string }>(
+  'AnimationFinished',
+);
+
+/**
+ * Emitted each time a repeating clip wraps around.
+ * @category Animation
+ */
+export const AnimationLooped = createEvent<{ entity: Entity; clip: string }>(
+  'AnimationLooped',
+);
+
+/**
+ * Emitted when playback crosses a marker added with {@link addAnimationMarker}.
+ * @category Animation
+ */
+export const AnimationMarker = createEvent<{
+  entity: Entity;
+  clip: string;
+  name: string;
+}>('AnimationMarker');
+
+const clipMarkers = new WeakMap<
+  AnimationClip,
+  Array<{ time: number; name: string }>
+>();
+
+/**
+ * Mark a point in time on a clip, e.g. a footstep, reported as {@link AnimationMarker}
+ * whenever an {@link AnimationPlayer} plays past it.
+ *
+ * @category Animation
+ */
+export function addAnimationMarker(
+  clip: AnimationClip,
+  time: number,
+  name: string,
+): void {
+  let markers = clipMarkers.get(clip);
+  if (!markers) {
+    markers = [];
+    clipMarkers.set(clip, markers);
+  }
+  markers.push({ time, name });
+}
+
+/** Markers of `clip`, if any. */
+export function getAnimationMarkers(
+  clip: AnimationClip,
+): ReadonlyArray<{ time: number; name: string }> | undefined {
+  return clipMarkers.get(clip);
+}
@@ -0,0 +1,17 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+export {
+  AnimationPlayer,
+  AnimationLoop,
+  AnimationFinished,
+  AnimationLooped,
+  AnimationMarker,
+  addAnimationMarker,
+  getAnimationMarkers,
+} from './animation.js';
+export { AnimationSystem } from './animation-system.js';
@@ -5,14 +5,24 @@
  * LICENSE file in the root directory of this source tree.
  */
 
+import type { Signal } from '@preact/signals-core';
 import { GLTF } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import type { World } from '../ecs/index.js';
 import { LoadingManager, Texture, WebGLRenderer } from '../runtime/index.js';
+import {
+  AssetLoadingProgress,
+  AssetProgressTracker,
+} from './asset-progress.js';
 import { CacheManager } from './cache-manager.js';
 import { AudioAssetLoader } from './loaders/audio-loader.js';
+import { FileAssetLoader } from './loaders/file-loader.js';
+import { FontAssetLoader, FontInfo } from './loaders/font-loader.js';
 import { GLTFAssetLoader } from './loaders/gltf-loader.js';
 import { HDRTextureAssetLoader } from './loaders/hdr-texture-loader.js';
+import { KTX2TextureAssetLoader } from './loaders/ktx2-texture-loader.js';
 import { TextureAssetLoader } from './loaders/texture-loader.js';
+import { VideoAsset, VideoAssetLoader } from './loaders/video-loader.js';
+import { PersistentCache } from './persistent-cache.js';
 
 /**
  * Asset types supported by the {@link AssetManager}.
@@ -23,6 +33,11 @@ export enum AssetType {
   Audio = 'audio', // Audio buffers (cached)
   Texture = 'texture', // 3D textures (cached)
   HDRTexture = 'hdr-texture', // HDR/EXR equirect textures (cached)
+  KTX2Texture = 'ktx2-texture', // Basis Universal compressed textures (cached)
+  Video = 'video', // Video element + VideoTexture (cached)
+  Font = 'font', // MSDF font JSON for UIKit (cached)
+  JSON = 'json', // Parsed JSON data (cached)
+  Binary = 'binary', // Raw ArrayBuffer (cached)
 }
 
 /**
@@ -34,28 +49,100 @@ export interface AssetManifest {
     url: string;
     type: AssetType;
     priority?: 'critical' | 'background'; // Default: 'critical'
+    hash?: string; // Content hash validating the PersistentCache entry
   };
 }
 
 /** Loader-level options for GLTF/HDR loaders. @category Assets */
 export interface AssetManagerOptions {
+  /** Directory serving `draco_decoder.{js,wasm}` and `draco_wasm_wrapper.js`. */
   dracoDecoderPath: string;
+  /** Directory serving `basis_transcoder.{js,wasm}`. */
   ktx2TranscoderPath: string;
 }
 
+/**
+ * Asset manifest plus decoder locations, accepted by {@link WorldOptions.assets}.
+ *
+ * @remarks
+ * Without decoder paths, loaders use the paths wired up by the `copyDecoders`
+ * Vite plugin when present, and otherwise fall back to the unpkg CDN.
+ *
+ * @category Assets
+ */
+export interface AssetOptions extends Partial<AssetManagerOptions> {
+  /** Assets to preload before the first frame. */
+  manifest?: AssetManifest;
+}
+
+const ASSET_OPTION_KEYS = [
+  'manifest',
+  'dracoDecoderPath',
+  'ktx2TranscoderPath',
+];
+
+/**
+ * Split {@link WorldOptions.assets} into the manifest and loader options. A bare
+ * manifest is told apart by its entries, which all carry a `url` and `type`.
+ * @category Assets
+ */
+export function resolveAssetOptions(assets?: AssetManifest | AssetOptions): {
+  manifest?: AssetManifest;
+  loaderOptions: Partial<AssetManagerOptions>;
+} {
+  if (!assets) {
+    return { loaderOptions: {} };
+  }
+  const isOptions = Object.entries(assets).some(
+    ([key, value]) =>
+      ASSET_OPTION_KEYS.includes(key) &&
+      !(
+        value &&
+        typeof value === 'object' &&
+        'url' in value &&
+        'type' in value
+      ),
+  );
+  if (!isOptions) {
+    return { manifest: assets as AssetManifest, loaderOptions: {} };
+  }
+  const { manifest, ...loaderOptions } = assets as AssetOptions;
+  return { manifest, loaderOptions };
+}
+
 /**
  * Centralized asset loader with caching and priority‑based preloading.
  *
  * @remarks
  * - Initializes loader instances against a shared `LoadingManager`.
  * - `preloadAssets` loads critical assets first (blocking), then starts background ones.
- * - Use `getGLTF`/`getTexture`/`getAudio` to retrieve cached results by key.
+ * - `progress` reports per‑asset and aggregate loading progress as a signal.
+ * - With {@link PersistentCache} enabled, manifest assets are read from and stored in
+ *   Cache Storage, skipping the network on repeat visits.
+ * - Use `getGLTF`/`getTexture`/`getAudio` (and `getVideo`, `getFont`, `getJSON`,
+ *   `getBinary`) to retrieve cached results by key; KTX2 textures use `getTexture`.
+ * - `retain`/`release` reference count cached assets (see {@link AssetReference});
+ *   released assets are disposed least recently used first once the cache exceeds
+ *   its memory budget, and `unload` disposes one right away.
  * @category Assets
  */
 export class AssetManager {
   static loadingManager: LoadingManager;
   static world: World;
 
+  /**
+   * Byte and item progress of network loads, per asset and per phase.
+   *
+   * @example
+   * ```ts
+   * AssetManager.progress.subscribe(({ critical }) => {
+   *   bar.style.width = `${critical.progress * 100}%`;
+   * });
+   * ```
+   */
+  static readonly progress: Signal<AssetLoadingProgress> =
+    AssetProgressTracker.progress;
+
   /**
    * Initialize loaders and bind to the current world/renderer.
    */
@@ -66,12 +153,20 @@ export class AssetManager {
   ) {
     this.world = world;
     this.loadingManager = new LoadingManager();
+    // Serve assets prepared by the persistent cache from their local copies
+    this.loadingManager.setURLModifier((url) =>
+      PersistentCache.resolveURL(url),
+    );
 
     // Initialize all specialized loaders
     AudioAssetLoader.init(this.loadingManager);
     GLTFAssetLoader.init(this.loadingManager, renderer, options);
     TextureAssetLoader.init(this.loadingManager);
     HDRTextureAssetLoader.init(this.loadingManager);
+    KTX2TextureAssetLoader.init(GLTFAssetLoader.getKTX2Loader());
+    VideoAssetLoader.init(this.loadingManager);
+    FontAssetLoader.init(this.loadingManager);
+    FileAssetLoader.init(this.loadingManager);
   }
 
   /** Preload assets with critical/background prioritization. */
@@ -88,19 +183,42 @@ export class AssetManager {
     // Phase 1: Load critical assets (blocking)
     const criticalPromises = criticalAssets.map(([key, config]) => {
       CacheManager.setKeyToUrl(key, config.url);
-      return this.loadAssetByType(config.url, config.type, key);
+      AssetProgressTracker.setPhase(config.url, 'critical');
+      return this.loadManifestAsset(config, key);
     });
     await Promise.all(criticalPromises);
 
     // Phase 2: Start background loading (non-blocking)
     backgroundAssets.forEach(([key, config]) => {
       CacheManager.setKeyToUrl(key, config.url);
-      this.loadAssetByType(config.url, config.type, key).catch((err) =>
+      AssetProgressTracker.setPhase(config.url, 'background');
+      this.loadManifestAsset(config, key).catch((err) =>
         console.warn(`Background asset failed: ${key}`, err),
       );
     });
   }
 
+  /** Load a manifest entry, going through the persistent cache when enabled. */
+  private static async loadManifestAsset(
+    config: AssetManifest[string],
+    key: string,
+  ): Promise<any> {
+    // Videos stream from their URL rather than a stored copy
+    if (
+      !PersistentCache.isEnabled() ||
+      config.type === AssetType.Video ||
+      CacheManager.hasAsset(config.url)
+    ) {
+      return this.loadAssetByType(config.url, config.type, key);
+    }
+    await PersistentCache.prepare(config.url, config.hash);
+    try {
+      return await this.loadAssetByType(config.url, config.type, key);
+    } finally {
+      PersistentCache.release(config.url);
+    }
+  }
+
   private static async loadAssetByType(
     url: string,
     type: AssetType,
@@ -115,6 +233,16 @@ export class AssetManager {
         return TextureAssetLoader.loadTexture(url);
       case AssetType.HDRTexture:
         return HDRTextureAssetLoader.loadHDRTexture(url);
+      case AssetType.KTX2Texture:
+        return KTX2TextureAssetLoader.loadKTX2Texture(url);
+      case AssetType.Video:
+        return VideoAssetLoader.loadVideo(url);
+      case AssetType.Font:
+        return FontAssetLoader.loadFont(url);
+      case AssetType.JSON:
+        return FileAssetLoader.loadJSON(url);
+      case AssetType.Binary:
+        return FileAssetLoader.loadBinary(url);
       default:
         throw new Error(`Unsupported asset type: ${type}`);
     }
@@ -177,4 +305,94 @@ export class AssetManager {
   static getGLTF(key: string): GLTF | null {
     return GLTFAssetLoader.getGLTF(key);
   }
+
+  /** Load a KTX2 compressed texture; optionally register a logical key. */
+  static async loadKTX2Texture(url: string, key?: string): Promise<Texture> {
+    CacheManager.setKeyToUrl(key ?? url, url);
+    return KTX2TextureAssetLoader.loadKTX2Texture(url);
+  }
+
+  /** Load a video as a `<video>` element and `VideoTexture`; optionally register a logical key. */
+  static async loadVideo(url: string, key?: string): Promise<VideoAsset> {
+    CacheManager.setKeyToUrl(key ?? url, url);
+    return VideoAssetLoader.loadVideo(url);
+  }
+
+  /** Get a cached video by logical key. */
+  static getVideo(key: string): VideoAsset | null {
+    return VideoAssetLoader.getVideo(key);
+  }
+
+  /**
+   * Load an MSDF font JSON; optionally register a logical key.
+   *
+   * @example
+   * ```ts
+   * const inter = await AssetManager.loadFont('/fonts/inter.json', 'inter');
+   * container.setProperties({ fontFamilies: { inter: { normal: inter } } });
+   * ```
+   */
+  static async loadFont(url: string, key?: string): Promise<FontInfo> {
+    CacheManager.setKeyToUrl(key ?? url, url);
+    return FontAssetLoader.loadFont(url);
+  }
+
+  /** Get a cached font by logical key, ready for UIKit `fontFamilies`. */
+  static getFont(key: string): FontInfo | null {
+    return FontAssetLoader.getFont(key);
+  }
+
+  /** Load and parse a JSON file; optionally register a logical key. */
+  static async loadJSON<T = unknown>(url: string, key?: string): Promise<T> {
+    CacheManager.setKeyToUrl(key ?? url, url);
+    return FileAssetLoader.loadJSON<T>(url);
+  }
+
+  /** Get cached JSON data by logical key. */
+  static getJSON<T = unknown>(key: string): T | null {
+    return FileAssetLoader.getJSON<T>(key);
+  }
+
+  /** Load a file as an `ArrayBuffer`; optionally register a logical key. */
+  static async loadBinary(url: string, key?: string): Promise<ArrayBuffer> {
+    CacheManager.setKeyToUrl(key ?? url, url);
+    return FileAssetLoader.loadBinary(url);
+  }
+
+  /** Get a cached `ArrayBuffer` by logical key. */
+  static getBinary(key: string): ArrayBuffer | null {
+    return FileAssetLoader.getBinary(key);
+  }
+
+  /** Keep an asset (key or URL) cached while something uses it. */
+  static retain(key: string): void {
+    CacheManager.retain(key);
+  }
+
+  /**
+   * Drop a reference taken with {@link AssetManager.retain}. Unreferenced assets stay
+   * cached for reuse until the memory budget forces them out.
+   */
+  static release(key: string): void {
+    CacheManager.release(key);
+  }
+
+  /**
+   * Dispose an unreferenced asset's geometries, materials and textures and remove it
+   * from the cache; later loads fetch it again.
+   * @returns `false` if the asset is not cached or still retained.
+   */
+  static unload(key: string): boolean {
+    return CacheManager.unload(key);
+  }
+
+  /** Approximate bytes of cached assets before released ones are evicted. @defaultValue 256 MiB */
+  static setMemoryBudget(bytes: number): void {
+    CacheManager.setMemoryBudget(bytes);
+  }
+
+  /** Approximate bytes held by cached assets. */
+  static getMemoryUsage(): number {
+    return CacheManager.getMemoryUsage();
+  }
 }
@@ -0,0 +1,182 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type {
+  BufferGeometry,
+  CompressedTexture,
+  Material,
+  Mesh,
+  Object3D,
+  SkinnedMesh,
+  Texture,
+} from '../runtime/index.js';
+
+interface TextureImage {
+  width?: number;
+  height?: number;
+  depth?: number;
+  data?: ArrayBufferView;
+}
+
+function textureBytes(texture: Texture): number {
+  const compressed = texture as CompressedTexture;
+  if (compressed.isCompressedTexture) {
+    return (compressed.mipmaps ?? []).reduce(
+      (sum, mip) => sum + ((mip as TextureImage).data?.byteLength ?? 0),
+      0,
+    );
+  }
+  const image = texture.image as TextureImage | undefined;
+  if (!image) {
+    return 0;
+  }
+  const base =
+    image.data?.byteLength ??
+    (image.width ?? 0) * (image.height ?? 0) * (image.depth ?? 1) * 4;
+  // A full mip chain adds a third on top of the base level
+  return texture.generateMipmaps ? Math.round((base * 4) / 3) : base;
+}
+
+function geometryBytes(geometry: BufferGeometry): number {
+  let bytes = geometry.index?.array.byteLength ?? 0;
+  for (const attribute of Object.values(geometry.attributes)) {
+    bytes += attribute.array.byteLength;
+  }
+  return bytes;
+}
+
+function materialTextures(material: Material): Texture[] {
+  return Object.values(material).filter(
+    (value): value is Texture => !!(value as Texture | null)?.isTexture,
+  );
+}
+
+/** Geometries, materials and textures used by the meshes under `root`. */
+function collectResources(root: Object3D) {
+  const geometries = new Set<BufferGeometry>();
+  const materials = new Set<Material>();
+  const textures = new Set<Texture>();
+  root.traverse((object) => {
+    const mesh = object as Mesh;
+    if (!mesh.isMesh && !(object as { isPoints?: boolean }).isPoints) {
+      return;
+    }
+    geometries.add(mesh.geometry);
+    const list = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    for (const material of list) {
+      materials.add(material);
+      materialTextures(material).forEach((texture) => textures.add(texture));
+    }
+  });
+  return { geometries, materials, textures };
+}
+
+function isAudioBuffer(asset: object): asset is AudioBuffer {
+  return (
+    typeof (asset as AudioBuffer).numberOfChannels === 'number' &&
+    typeof (asset as AudioBuffer).getChannelData === 'function'
+  );
+}
+
+/** A `{ video, texture }` asset from the video loader. */
+function videoOf(
+  asset: object,
+): { video: HTMLVideoElement; texture: Texture } | undefined {
+  const candidate = asset as { video?: HTMLVideoElement; texture?: Texture };
+  return candidate.video && candidate.texture?.isTexture
+    ? (candidate as { video: HTMLVideoElement; texture: Texture })
+    : undefined;
+}
+
+/** The scene graph of a GLTF result or an Object3D asset. */
+function sceneOf(asset: object): Object3D | undefined {
+  const root = (asset as { scene?: Object3D }).scene ?? (asset as Object3D);
+  return root.isObject3D ? root : undefined;
+}
+
+/**
+ * Approximate memory held by a cached asset, in bytes.
+ *
+ * @remarks
+ * - Textures count their decoded size (4 bytes per texel for images, the data size
+ *   for data and compressed textures, plus mipmaps).
+ * - GLTFs count the vertex/index buffers and textures of their meshes once each.
+ * - Audio buffers count their decoded 32‑bit float samples, binary files their
+ *   length and videos one RGBA frame. Parsed JSON and fonts count as 0.
+ *
+ * @category Assets
+ */
+export function estimateAssetBytes(asset: unknown): number {
+  if (!asset || typeof asset !== 'object') {
+    return 0;
+  }
+  if ((asset as Texture).isTexture) {
+    return textureBytes(asset as Texture);
+  }
+  if (isAudioBuffer(asset)) {
+    return asset.length * asset.numberOfChannels * 4;
+  }
+  if (asset instanceof ArrayBuffer) {
+    return asset.byteLength;
+  }
+  const video = videoOf(asset)?.video;
+  if (video) {
+    return video.videoWidth * video.videoHeight * 4;
+  }
+  const root = sceneOf(asset);
+  if (!root) {
+    return 0;
+  }
+  const { geometries, textures } = collectResources(root);
+  let bytes = 0;
+  geometries.forEach((geometry) => (bytes += geometryBytes(geometry)));
+  textures.forEach((texture) => (bytes += textureBytes(texture)));
+  return bytes;
+}
+
+/**
+ * Release the GPU resources of a cached asset.
+ *
+ * @remarks
+ * Disposes textures, and for GLTFs every geometry, material, material texture and
+ * skeleton under the scene; videos are also paused and their media released.
+ * Objects cloned from the asset share these resources, so only dispose assets no
+ * entity still uses.
+ *
+ * @category Assets
+ */
+export function disposeAsset(asset: unknown): void {
+  if (!asset || typeof asset !== 'object') {
+    return;
+  }
+  if ((asset as Texture).isTexture) {
+    (asset as Texture).dispose();
+    return;
+  }
+  const video = videoOf(asset);
+  if (video) {
+    video.video.pause();
+    video.video.removeAttribute('src');
+    video.video.load();
+    video.texture.dispose();
+    return;
+  }
+  const root = sceneOf(asset);
+  if (!root) {
+    return;
+  }
+  const { geometries, materials, textures } = collectResources(root);
+  geometries.forEach((geometry) => geometry.dispose());
+  materials.forEach((material) => material.dispose());
+  textures.forEach((texture) => texture.dispose());
+  root.traverse((object) => {
+    const skinned = object as SkinnedMesh;
+    if (skinned.isSkinnedMesh) {
+      skinned.skeleton.dispose();
+    }
+  });
+}
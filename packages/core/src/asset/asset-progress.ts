@@ -0,0 +1,163 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { Signal, signal } from '@preact/signals-core';
+
+/**
+ * Loading phase of an asset: `critical` assets block {@link AssetManager.preloadAssets}
+ * (and direct loads count as critical), `background` ones load afterwards.
+ * @category Assets
+ */
+export type AssetPhase = 'critical' | 'background';
+
+/** Loading state of one asset. @category Assets */
+export interface AssetLoadState {
+  url: string;
+  phase: AssetPhase;
+  status: 'loading' | 'loaded' | 'failed';
+  /** Bytes received; stays 0 for loaders without progress events (images). */
+  bytesLoaded: number;
+  /** Expected size in bytes, 0 while unknown. */
+  bytesTotal: number;
+}
+
+/** Counts for a set of assets. @category Assets */
+export interface AssetPhaseProgress {
+  itemsTotal: number;
+  itemsLoaded: number;
+  itemsFailed: number;
+  bytesLoaded: number;
+  /** Sum of known sizes; assets without a size yet do not contribute. */
+  bytesTotal: number;
+  /** Completion [0..1], averaging per‑asset byte progress (failed assets count as done). */
+  progress: number;
+}
+
+/**
+ * Aggregate loading progress, available as {@link AssetManager.progress}.
+ *
+ * @remarks
+ * Counters cover the current batch: once every asset has settled, the next load starts
+ * a new batch from zero.
+ *
+ * @category Assets
+ */
+export interface AssetLoadingProgress extends AssetPhaseProgress {
+  /** Whether any asset is still loading. */
+  loading: boolean;
+  critical: AssetPhaseProgress;
+  background: AssetPhaseProgress;
+  assets: readonly AssetLoadState[];
+}
+
+function summarize(states: AssetLoadState[]): AssetPhaseProgress {
+  const summary: AssetPhaseProgress = {
+    itemsTotal: states.length,
+    itemsLoaded: 0,
+    itemsFailed: 0,
+    bytesLoaded: 0,
+    bytesTotal: 0,
+    progress: 1,
+  };
+  let completion = 0;
+  for (const state of states) {
+    summary.bytesLoaded += state.bytesLoaded;
+    summary.bytesTotal += state.bytesTotal;
+    if (state.status === 'loaded') {
+      summary.itemsLoaded++;
+      completion += 1;
+    } else if (state.status === 'failed') {
+      summary.itemsFailed++;
+      completion += 1;
+    } else if (state.bytesTotal > 0) {
+      completion += Math.min(state.bytesLoaded / state.bytesTotal, 1);
+    }
+  }
+  if (states.length > 0) {
+    summary.progress = completion / states.length;
+  }
+  return summary;
+}
+
+function summarizeAll(states: AssetLoadState[]): AssetLoadingProgress {
+  return {
+    ...summarize(states),
+    loading: states.some((state) => state.status === 'loading'),
+    critical: summarize(states.filter((state) => state.phase === 'critical')),
+    background: summarize(
+      states.filter((state) => state.phase === 'background'),
+    ),
+    assets: states,
+  };
+}
+
+/**
+ * Collects per‑asset progress reported by the asset loaders.
+ * @category Assets
+ */
+export class AssetProgressTracker {
+  static readonly progress: Signal<AssetLoadingProgress> = signal(
+    summarizeAll([]),
+  );
+  private static states = new Map<string, AssetLoadState>();
+  private static phases = new Map<string, AssetPhase>();
+
+  /** Phase to record when `url` starts loading. */
+  static setPhase(url: string, phase: AssetPhase): void {
+    this.phases.set(url, phase);
+  }
+
+  /** Record that `url` started loading over the network; repeated starts are ignored. */
+  static start(url: string): void {
+    if (!this.progress.value.loading) {
+      this.states.clear();
+    } else if (this.states.get(url)?.status === 'loading') {
+      return;
+    }
+    this.states.set(url, {
+      url,
+      phase: this.phases.get(url) ?? 'critical',
+      status: 'loading',
+      bytesLoaded: 0,
+      bytesTotal: 0,
+    });
+    this.phases.delete(url);
+    this.publish();
+  }
+
+  /** Forward a loader progress event for `url`. */
+  static update(url: string, event: Pick<ProgressEvent, 'loaded' | 'total'>) {
+    const state = this.states.get(url);
+    if (!state || state.status !== 'loading') {
+      return;
+    }
+    // A download may be followed by a local read of the same file
+    state.bytesLoaded = Math.max(state.bytesLoaded, event.loaded);
+    state.bytesTotal = Math.max(state.bytesTotal, event.total, 0);
+    this.publish();
+  }
+
+  /** Record that `url` settled. */
+  static finish(url: string, failed = false): void {
+    const state = this.states.get(url);
+    if (!state) {
+      return;
+    }
+    state.status = failed ? 'failed' : 'loaded';
+    if (!failed) {
+      state.bytesTotal ||= state.bytesLoaded;
+      state.bytesLoaded = state.bytesTotal;
+    }
+    this.publish();
+  }
+
+  private static publish(): void {
+    this.progress.value = summarizeAll(
+      [...this.states.values()].map((state) => ({ ...state })),
+    );
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { Entity } from '../ecs/entity.js';
+import { createSystem } from '../ecs/system.js';
+import { AssetManager } from './asset-manager.js';
+import { AssetReference } from './asset-reference.js';
+
+/**
+ * Retains and releases cached assets following {@link AssetReference} components.
+ *
+ * @category Assets
+ */
+export class AssetReferenceSystem extends createSystem({
+  references: { required: [AssetReference] },
+}) {
+  private retained = new Map<Entity, string>();
+
+  init(): void {
+    this.cleanupFuncs.push(
+      this.queries.references.subscribe(
+        'qualify',
+        (entity) => this.track(entity),
+        true,
+      ),
+      this.queries.references.subscribe('disqualify', (entity) => {
+        const key = this.retained.get(entity);
+        this.retained.delete(entity);
+        if (key) {
+          AssetManager.release(key);
+        }
+      }),
+    );
+  }
+
+  update(): void {
+    for (const entity of this.queries.references.entities) {
+      this.track(entity);
+    }
+  }
+
+  destroy(): void {
+    super.destroy();
+    this.retained.forEach((key) => AssetManager.release(key));
+    this.retained.clear();
+  }
+
+  /** Move the entity's reference to its current `key`. */
+  private track(entity: Entity): void {
+    const key = entity.getValue(AssetReference, 'key') ?? '';
+    const previous = this.retained.get(entity) ?? '';
+    if (key === previous) {
+      return;
+    }
+    if (key) {
+      AssetManager.retain(key);
+      this.retained.set(entity, key);
+    } else {
+      this.retained.delete(entity);
+    }
+    if (previous) {
+      AssetManager.release(previous);
+    }
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { Types, createComponent } from '../ecs/component.js';
+
+/**
+ * Keeps a cached asset alive for as long as the entity holds this component.
+ *
+ * @remarks
+ * - The {@link AssetReferenceSystem} calls {@link AssetManager.retain} when the
+ *   component is added and {@link AssetManager.release} when it is removed or the
+ *   entity is destroyed; changing `key` moves the reference.
+ * - Released assets are only disposed once the cache exceeds its memory budget, so
+ *   switching back and forth between levels reuses them while memory allows.
+ *
+ * @example
+ * ```ts
+ * const { scene } = AssetManager.getGLTF('robot')!;
+ * world
+ *   .createTransformEntity(scene.clone())
+ *   .addComponent(AssetReference, { key: 'robot' });
+ * ```
+ *
+ * @category Assets
+ */
+export const AssetReference = createComponent(
+  'AssetReference',
+  {
+    key: { type: Types.String, default: '' }, // Asset key or URL
+  },
+  'Reference to a cached asset used by this entity',
+);
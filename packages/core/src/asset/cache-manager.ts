@@ -5,20 +5,33 @@
  * LICENSE file in the root directory of this source tree.
  */
 
+import { disposeAsset, estimateAssetBytes } from './asset-memory.js';
+
 /**
  * Central cache for assets and in-flight loads used by {@link AssetManager}.
  *
  * @remarks
  * - Tracks a key→URL registry so callers may refer to assets by logical keys.
  * - De-duplicates concurrent requests via a promise cache.
- * - Stores resolved assets for fast reuse.
+ * - Stores resolved assets for fast reuse, in least‑recently‑used order.
+ * - Reference counts assets. Assets that were released back to zero references are
+ *   disposed and evicted, oldest first, while the cache exceeds `memoryBudget`.
+ *   Assets never retained stay cached until released or unloaded.
+ * - Lives in memory only; {@link PersistentCache} optionally keeps downloaded files
+ *   across visits.
  *
  * @category Assets
  */
 export class CacheManager {
+  /** Map iteration order doubles as LRU order: oldest first. */
   private static cache = new Map<string, any>();
   private static promiseCache = new Map<string, Promise<any>>();
   private static keyToUrl = new Map<string, string>();
+  private static sizes = new Map<string, number>();
+  private static refCounts = new Map<string, number>();
+  private static released = new Set<string>();
+  private static bytes = 0;
+  private static memoryBudget = 256 * 1024 * 1024;
 
   /** Record a logical key → URL mapping. */
   static setKeyToUrl(key: string, url: string): void {
@@ -57,34 +70,135 @@ export class CacheManager {
 
   /** Retrieve a cached asset by URL. */
   static getAsset<T>(url: string): T | undefined {
-    return this.cache.get(url) as T;
+    return this.touch(url) as T;
   }
 
-  /** Store an asset by URL. */
+  /** Store an asset by URL, evicting released assets if over budget. */
   static setAsset<T>(url: string, asset: T): void {
+    const size = estimateAssetBytes(asset);
+    this.bytes += size - (this.sizes.get(url) ?? 0);
+    this.cache.delete(url);
     this.cache.set(url, asset);
+    this.sizes.set(url, size);
+    this.evict();
   }
 
   /** Lookup asset by logical key or direct URL. */
   static getAssetByKey(key: string): any {
     // First check if this is a URL (direct cache access)
     if (this.cache.has(key)) {
-      return this.cache.get(key);
+      return this.touch(key);
     }
 
     // Otherwise, look up the URL from the key registry
     const url = this.keyToUrl.get(key);
     if (url) {
-      return this.cache.get(url);
+      return this.touch(url);
     }
 
     return undefined;
   }
 
+  /** Add a reference to an asset (key or URL), loaded or not; it will not be evicted. */
+  static retain(urlOrKey: string): void {
+    const url = this.resolveUrl(urlOrKey);
+    this.refCounts.set(url, (this.refCounts.get(url) ?? 0) + 1);
+    this.released.delete(url);
+    this.touch(url);
+  }
+
+  /** Drop a reference; at zero the asset may be evicted under memory pressure. */
+  static release(urlOrKey: string): void {
+    const url = this.resolveUrl(urlOrKey);
+    const count = (this.refCounts.get(url) ?? 0) - 1;
+    if (count > 0) {
+      this.refCounts.set(url, count);
+      return;
+    }
+    this.refCounts.delete(url);
+    this.released.add(url);
+    this.evict();
+  }
+
+  /** Current reference count of an asset (key or URL). */
+  static getRefCount(urlOrKey: string): number {
+    return this.refCounts.get(this.resolveUrl(urlOrKey)) ?? 0;
+  }
+
+  /**
+   * Dispose and evict an unreferenced asset now.
+   * @returns Whether the asset was cached and unreferenced.
+   */
+  static unload(urlOrKey: string): boolean {
+    const url = this.resolveUrl(urlOrKey);
+    if (!this.cache.has(url) || this.refCounts.has(url)) {
+      return false;
+    }
+    disposeAsset(this.remove(url));
+    return true;
+  }
+
+  /**
+   * Approximate bytes of cached assets above which released assets are evicted.
+   * @defaultValue 256 MiB
+   */
+  static setMemoryBudget(bytes: number): void {
+    this.memoryBudget = bytes;
+    this.evict();
+  }
+
+  static getMemoryBudget(): number {
+    return this.memoryBudget;
+  }
+
+  /** Approximate bytes held by cached assets. */
+  static getMemoryUsage(): number {
+    return this.bytes;
+  }
+
   /** Clear caches (useful during tests). */
   static clear(): void {
     this.cache.clear();
     this.promiseCache.clear();
     this.keyToUrl.clear();
+    this.sizes.clear();
+    this.refCounts.clear();
+    this.released.clear();
+    this.bytes = 0;
+  }
+
+  /** Move a cached asset to the most recently used end. */
+  private static touch(url: string): any {
+    if (!this.cache.has(url)) {
+      return undefined;
+    }
+    const asset = this.cache.get(url);
+    this.cache.delete(url);
+    this.cache.set(url, asset);
+    return asset;
+  }
+
+  private static remove(url: string): any {
+    const asset = this.cache.get(url);
+    this.cache.delete(url);
+    this.bytes -= this.sizes.get(url) ?? 0;
+    this.sizes.delete(url);
+    this.released.delete(url);
+    return asset;
+  }
+
+  /** Dispose least recently used released assets until within budget. */
+  private static evict(): void {
+    if (this.bytes <= this.memoryBudget) {
+      return;
+    }
+    for (const url of [...this.cache.keys()]) {
+      if (this.bytes <= this.memoryBudget) {
+        break;
+      }
+      if (this.released.has(url)) {
+        disposeAsset(this.remove(url));
+      }
+    }
   }
 }
@@ -6,4 +6,12 @@
  */
 
 export * from './asset-manager.js';
+export type { FontInfo } from './loaders/font-loader.js';
+export type { VideoAsset } from './loaders/video-loader.js';
 export * from './cache-manager.js';
+export * from './persistent-cache.js';
+export * from './asset-memory.js';
+export * from './asset-reference.js';
+export * from './asset-reference-system.js';
+export * from './asset-progress.js';
+export * from './loading-screen.js';
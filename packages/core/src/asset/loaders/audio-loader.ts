@@ -6,6 +6,7 @@
  */
 
 import { AudioLoader, LoadingManager } from '../../runtime/index.js';
+import { AssetProgressTracker } from '../asset-progress.js';
 import { CacheManager } from '../cache-manager.js';
 
 /**
@@ -37,15 +38,18 @@ export class AudioAssetLoader {
         CacheManager.deletePromise(url);
       } else {
         // Load using Three.js AudioLoader
+        AssetProgressTracker.start(url);
         this.audioLoader.load(
           url,
           (buffer) => {
             CacheManager.setAsset(url, buffer);
+            AssetProgressTracker.finish(url);
             resolve(buffer);
             CacheManager.deletePromise(url);
           },
-          undefined, // progress callback
+          (event) => AssetProgressTracker.update(url, event),
           (error) => {
+            AssetProgressTracker.finish(url, true);
             reject(error);
             CacheManager.deletePromise(url);
           },
@@ -0,0 +1,96 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { FileLoader, Loader, LoadingManager } from '../../runtime/index.js';
+import { AssetProgressTracker } from '../asset-progress.js';
+import { CacheManager } from '../cache-manager.js';
+
+/**
+ * Load `url` through a three.js loader with de-duplication and caching: concurrent
+ * calls share one request, the result is stored in the {@link CacheManager} and
+ * byte progress is reported to the {@link AssetProgressTracker}.
+ *
+ * @param prepare Turns the loaded data into the cached asset.
+ */
+export function loadCached<T, TData = unknown>(
+  loader: Loader<TData>,
+  url: string,
+  prepare: (data: TData) => T = (data) => data as unknown as T,
+): Promise<T> {
+  if (CacheManager.hasPromise(url)) {
+    return CacheManager.getPromise<T>(url)!;
+  }
+
+  const loadingPromise = new Promise<T>((resolve, reject) => {
+    if (CacheManager.hasAsset(url)) {
+      resolve(CacheManager.getAsset<T>(url)!);
+      CacheManager.deletePromise(url);
+      return;
+    }
+    AssetProgressTracker.start(url);
+    loader.load(
+      url,
+      (data) => {
+        const asset = prepare(data);
+        CacheManager.setAsset(url, asset);
+        AssetProgressTracker.finish(url);
+        resolve(asset);
+        CacheManager.deletePromise(url);
+      },
+      (event) => AssetProgressTracker.update(url, event),
+      (error) => {
+        AssetProgressTracker.finish(url, true);
+        reject(error);
+        CacheManager.deletePromise(url);
+      },
+    );
+  });
+
+  CacheManager.setPromise(url, loadingPromise);
+  return loadingPromise;
+}
+
+/**
+ * Loader for raw files: parsed JSON data and binary `ArrayBuffer`s, with
+ * de-duplication and caching.
+ *
+ * @category Assets
+ */
+export class FileAssetLoader {
+  private static jsonLoader: FileLoader;
+  private static binaryLoader: FileLoader;
+
+  static init(loadingManager: LoadingManager): void {
+    this.jsonLoader = new FileLoader(loadingManager).setResponseType('json');
+    this.binaryLoader = new FileLoader(loadingManager).setResponseType(
+      'arraybuffer',
+    );
+  }
+
+  /** Load and parse a JSON file (URL or logical key), returning a cached result when possible. */
+  static loadJSON<T = unknown>(urlOrKey: string): Promise<T> {
+    return loadCached<T>(this.jsonLoader, CacheManager.resolveUrl(urlOrKey));
+  }
+
+  /** Load a file as an `ArrayBuffer` (URL or logical key), returning a cached result when possible. */
+  static loadBinary(urlOrKey: string): Promise<ArrayBuffer> {
+    return loadCached<ArrayBuffer>(
+      this.binaryLoader,
+      CacheManager.resolveUrl(urlOrKey),
+    );
+  }
+
+  /** Get cached JSON data by logical key. */
+  static getJSON<T = unknown>(key: string): T | null {
+    return (CacheManager.getAssetByKey(key) as T) ?? null;
+  }
+
+  /** Get a cached `ArrayBuffer` by logical key. */
+  static getBinary(key: string): ArrayBuffer | null {
+    return (CacheManager.getAssetByKey(key) as ArrayBuffer) || null;
+  }
+}
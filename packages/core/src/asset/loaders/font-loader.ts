@@ -0,0 +1,58 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { FontFamilyWeightMap } from '@pmndrs/uikit';
+import { FileLoader, LoadingManager } from '../../runtime/index.js';
+import { CacheManager } from '../cache-manager.js';
+import { loadCached } from './file-loader.js';
+
+/**
+ * MSDF font description (BMFont JSON) as accepted by UIKit `fontFamilies`.
+ * @category Assets
+ */
+export type FontInfo = Exclude<
+  NonNullable<FontFamilyWeightMap['normal']>,
+  string
+>;
+
+/** Resolve `path` against `base`, itself relative to the page when possible. */
+function absoluteUrl(path: string, base: string): string {
+  try {
+    return new URL(path, new URL(base, globalThis.location?.href)).href;
+  } catch {
+    return path;
+  }
+}
+
+/**
+ * Loader for MSDF fonts generated by `msdf-bmfont`, with de-duplication and caching.
+ * Page image paths are made absolute, so the result can be passed to UIKit directly.
+ *
+ * @category Assets
+ */
+export class FontAssetLoader {
+  private static fileLoader: FileLoader;
+
+  static init(loadingManager: LoadingManager): void {
+    this.fileLoader = new FileLoader(loadingManager).setResponseType('json');
+  }
+
+  /** Load an MSDF font JSON (URL or logical key), returning a cached instance when possible. */
+  static loadFont(urlOrKey: string): Promise<FontInfo> {
+    const url = CacheManager.resolveUrl(urlOrKey);
+    return loadCached(this.fileLoader, url, (data) => {
+      const font = data as unknown as FontInfo;
+      font.pages = font.pages.map((page) => absoluteUrl(page, url));
+      return font;
+    });
+  }
+
+  /** Get a cached font by logical key. */
+  static getFont(key: string): FontInfo | null {
+    return (CacheManager.getAssetByKey(key) as FontInfo) || null;
+  }
+}
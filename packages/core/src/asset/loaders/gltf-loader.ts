@@ -8,17 +8,27 @@
 import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
 import { GLTF, GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js';
+import { hideLODLevels } from '../../lod/lod-levels.js';
 import {
   LoadingManager,
   REVISION,
   WebGLRenderer,
 } from '../../runtime/index.js';
+import { AssetProgressTracker } from '../asset-progress.js';
 import { CacheManager } from '../cache-manager.js';
 
 const THREE_PATH = `https://unpkg.com/three@0.${REVISION}.0`;
 
+/** Decoder paths injected into the page by the `copyDecoders` Vite plugin. */
+declare global {
+  var __IWSDK_DECODER_PATHS__:
+    | { dracoDecoderPath?: string; ktx2TranscoderPath?: string }
+    | undefined;
+}
+
 /**
  * GLTF loader with DRACO/KTX2 support, de-duplication, and caching.
+ * Only the finest level of `<name>_LOD<n>` groups is visible after loading.
  *
  * @category Assets
  */
@@ -31,7 +41,8 @@ export class GLTFAssetLoader {
    * Initialize loader instances and configure decoders/transcoders.
    * @param loadingManager Shared Three.js `LoadingManager`.
    * @param renderer Renderer used to detect KTX2 support.
-   * @param options Optional decoder/transcoder paths (fall back to CDN paths matching Three r{REVISION}).
+   * @param options Optional decoder/transcoder paths. They fall back to the paths
+   * injected by the `copyDecoders` Vite plugin, then to CDN paths matching Three r{REVISION}.
    */
   static init(
     loadingManager: LoadingManager,
@@ -41,15 +52,21 @@ export class GLTFAssetLoader {
       ktx2TranscoderPath?: string;
     } = {},
   ): void {
+    const hosted = globalThis.__IWSDK_DECODER_PATHS__;
+
     // Initialize DRACO loader
     this.dracoLoader = new DRACOLoader(loadingManager).setDecoderPath(
-      options.dracoDecoderPath ?? `${THREE_PATH}/examples/jsm/libs/draco/gltf/`,
+      options.dracoDecoderPath ??
+        hosted?.dracoDecoderPath ??
+        `${THREE_PATH}/examples/jsm/libs/draco/gltf/`,
     );
 
     // Initialize KTX2 loader
     this.ktx2Loader = new KTX2Loader(loadingManager)
       .setTranscoderPath(
-        options.ktx2TranscoderPath ?? `${THREE_PATH}/examples/jsm/libs/basis/`,
+        options.ktx2TranscoderPath ??
+          hosted?.ktx2TranscoderPath ??
+          `${THREE_PATH}/examples/jsm/libs/basis/`,
       )
       .detectSupport(renderer);
 
@@ -75,15 +92,20 @@ export class GLTFAssetLoader {
           resolve(CacheManager.getAsset<GLTF>(url)!);
           CacheManager.deletePromise(url);
         } else {
+          AssetProgressTracker.start(url);
           this.gltfLoader.load(
             url,
             (gltf) => {
+              // Generated `_LOD<n>` levels start hidden until an LOD component switches them
+              hideLODLevels(gltf.scene);
               CacheManager.setAsset(url, gltf);
+              AssetProgressTracker.finish(url);
               resolve(gltf);
               CacheManager.deletePromise(url);
             },
-            () => {}, // progress callback
+            (event) => AssetProgressTracker.update(url, event),
             (error) => {
+              AssetProgressTracker.finish(url, true);
               reject(error);
               CacheManager.deletePromise(url);
             },
@@ -96,6 +118,11 @@ export class GLTFAssetLoader {
     }
   }
 
+  /** KTX2 loader configured with the transcoder path, shared with KTX2 textures. */
+  static getKTX2Loader(): KTX2Loader {
+    return this.ktx2Loader;
+  }
+
   /** Get a cached GLTF by logical key. */
   static getGLTF(key: string): GLTF | null {
     return (CacheManager.getAssetByKey(key) as GLTF) || null;
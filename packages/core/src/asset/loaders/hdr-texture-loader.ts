@@ -12,6 +12,7 @@ import {
   LoadingManager,
   Texture,
 } from '../../runtime/index.js';
+import { AssetProgressTracker } from '../asset-progress.js';
 import { CacheManager } from '../cache-manager.js';
 
 /** HDR equirectangular texture loader with de-duplication and caching.
@@ -56,19 +57,25 @@ export class HDRTextureAssetLoader {
         // Ensure world-locked mapping for equirectangular HDR/EXR
         texture.mapping = EquirectangularReflectionMapping;
         CacheManager.setAsset(url, texture);
+        AssetProgressTracker.finish(url);
         resolve(texture);
         CacheManager.deletePromise(url);
       };
 
+      const onProgress = (event: ProgressEvent) =>
+        AssetProgressTracker.update(url, event);
+
       const onError = (error: unknown) => {
+        AssetProgressTracker.finish(url, true);
         reject(error as Error);
         CacheManager.deletePromise(url);
       };
 
+      AssetProgressTracker.start(url);
       if (isEXR) {
-        this.exrLoader.load(url, onLoad, undefined, onError);
+        this.exrLoader.load(url, onLoad, onProgress, onError);
       } else {
-        this.rgbeLoader.load(url, onLoad, undefined, onError);
+        this.rgbeLoader.load(url, onLoad, onProgress, onError);
       }
     });
 
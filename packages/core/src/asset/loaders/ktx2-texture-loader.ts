@@ -0,0 +1,35 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js';
+import { CompressedTexture } from '../../runtime/index.js';
+import { CacheManager } from '../cache-manager.js';
+import { loadCached } from './file-loader.js';
+
+/**
+ * KTX2 (Basis Universal) texture loader with de-duplication and caching.
+ * Shares the transcoder of {@link GLTFAssetLoader}.
+ *
+ * @category Assets
+ */
+export class KTX2TextureAssetLoader {
+  private static ktx2Loader: KTX2Loader;
+
+  static init(ktx2Loader: KTX2Loader): void {
+    this.ktx2Loader = ktx2Loader;
+  }
+
+  /** Load a `.ktx2` texture (URL or logical key), returning a cached instance when possible. */
+  static loadKTX2Texture(urlOrKey: string): Promise<CompressedTexture> {
+    return loadCached(this.ktx2Loader, CacheManager.resolveUrl(urlOrKey));
+  }
+
+  /** Get a cached KTX2 texture by logical key. */
+  static getKTX2Texture(key: string): CompressedTexture | null {
+    return (CacheManager.getAssetByKey(key) as CompressedTexture) || null;
+  }
+}
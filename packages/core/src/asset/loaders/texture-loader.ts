@@ -6,6 +6,7 @@
  */
 
 import { LoadingManager, Texture, TextureLoader } from '../../runtime/index.js';
+import { AssetProgressTracker } from '../asset-progress.js';
 import { CacheManager } from '../cache-manager.js';
 
 /**
@@ -36,16 +37,19 @@ export class TextureAssetLoader {
         resolve(CacheManager.getAsset<Texture>(url)!);
         CacheManager.deletePromise(url);
       } else {
-        // Load using Three.js TextureLoader
+        // Load using Three.js TextureLoader (images report no byte progress)
+        AssetProgressTracker.start(url);
         this.textureLoader.load(
           url,
           (texture) => {
             CacheManager.setAsset(url, texture);
+            AssetProgressTracker.finish(url);
             resolve(texture);
             CacheManager.deletePromise(url);
           },
           undefined, // progress callback
           (error) => {
+            AssetProgressTracker.finish(url, true);
             reject(error);
             CacheManager.deletePromise(url);
           },
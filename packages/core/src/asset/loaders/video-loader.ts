@@ -0,0 +1,109 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import {
+  LoadingManager,
+  SRGBColorSpace,
+  VideoTexture,
+} from '../../runtime/index.js';
+import { AssetProgressTracker } from '../asset-progress.js';
+import { CacheManager } from '../cache-manager.js';
+
+/**
+ * A loaded video: the element and a texture that updates with its frames.
+ * @category Assets
+ */
+export interface VideoAsset {
+  video: HTMLVideoElement;
+  texture: VideoTexture;
+}
+
+/**
+ * Video loader creating a `<video>` element and `VideoTexture`, with de-duplication
+ * and caching.
+ *
+ * @remarks
+ * - Resolves once the first frame is available; playback is left to the caller
+ *   (browsers only autoplay muted videos before a user gesture).
+ * - Unloading the asset pauses the video and releases its media resources.
+ *
+ * @category Assets
+ */
+export class VideoAssetLoader {
+  private static loadingManager: LoadingManager;
+
+  static init(loadingManager: LoadingManager): void {
+    this.loadingManager = loadingManager;
+  }
+
+  /** Load a video (URL or logical key), returning a cached instance when possible. */
+  static async loadVideo(urlOrKey: string): Promise<VideoAsset> {
+    const url = CacheManager.resolveUrl(urlOrKey);
+
+    if (CacheManager.hasPromise(url)) {
+      return CacheManager.getPromise<VideoAsset>(url)!;
+    }
+
+    const loadingPromise = new Promise<VideoAsset>((resolve, reject) => {
+      if (CacheManager.hasAsset(url)) {
+        resolve(CacheManager.getAsset<VideoAsset>(url)!);
+        CacheManager.deletePromise(url);
+        return;
+      }
+      if (typeof document === 'undefined') {
+        reject(new Error(`Cannot load video without a DOM: ${url}`));
+        CacheManager.deletePromise(url);
+        return;
+      }
+
+      const manager = this.loadingManager;
+      const video = document.createElement('video');
+      video.crossOrigin = 'anonymous';
+      video.playsInline = true;
+      video.preload = 'auto';
+
+      const onLoaded = () => {
+        cleanup();
+        const texture = new VideoTexture(video);
+        texture.colorSpace = SRGBColorSpace;
+        const asset: VideoAsset = { video, texture };
+        CacheManager.setAsset(url, asset);
+        AssetProgressTracker.finish(url);
+        manager.itemEnd(url);
+        resolve(asset);
+        CacheManager.deletePromise(url);
+      };
+      const onError = () => {
+        cleanup();
+        AssetProgressTracker.finish(url, true);
+        manager.itemError(url);
+        manager.itemEnd(url);
+        reject(video.error ?? new Error(`Failed to load video: ${url}`));
+        CacheManager.deletePromise(url);
+      };
+      const cleanup = () => {
+        video.removeEventListener('loadeddata', onLoaded);
+        video.removeEventListener('error', onError);
+      };
+
+      video.addEventListener('loadeddata', onLoaded);
+      video.addEventListener('error', onError);
+      AssetProgressTracker.start(url);
+      manager.itemStart(url);
+      video.src = manager.resolveURL(url);
+      video.load();
+    });
+
+    CacheManager.setPromise(url, loadingPromise);
+    return loadingPromise;
+  }
+
+  /** Get a cached video by logical key. */
+  static getVideo(key: string): VideoAsset | null {
+    return (CacheManager.getAssetByKey(key) as VideoAsset) || null;
+  }
+}
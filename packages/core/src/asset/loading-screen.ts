@@ -0,0 +1,173 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { World } from '../ecs/index.js';
+import {
+  BackSide,
+  Color,
+  ColorRepresentation,
+  Group,
+  Mesh,
+  MeshBasicMaterial,
+  PlaneGeometry,
+  SphereGeometry,
+  Vector3,
+} from '../runtime/index.js';
+import { AssetProgressTracker } from './asset-progress.js';
+
+/** Options for {@link LoadingScreen}. @category Assets */
+export interface LoadingScreenOptions {
+  /** Backdrop color around the player. @defaultValue black */
+  color?: ColorRepresentation;
+  /** Count background assets in the progress bar, not only critical ones. @defaultValue false */
+  includeBackground?: boolean;
+}
+
+const BAR_WIDTH = 0.6;
+const BAR_HEIGHT = 0.02;
+const BAR_DISTANCE = 1.5;
+/** Head yaw (radians) away from the bar before it moves back in front. */
+const REFOLLOW_ANGLE = Math.PI / 4;
+const up = new Vector3(0, 1, 0);
+const forward = new Vector3();
+const head = new Vector3();
+
+/**
+ * In‑scene loading screen: a colored room around the player's head with a progress bar
+ * bound to {@link AssetManager.progress}.
+ *
+ * @remarks
+ * - Rendered by the scene camera, so it looks the same on desktop and in XR sessions.
+ * - The room hides the scene farther than 3 m while hands, controllers and nearby UI
+ *   stay visible. The bar stays level with the horizon and moves back in front of
+ *   the user when they look away.
+ * - Enable it for startup loading with {@link WorldOptions.loadingScreen}; level
+ *   transitions use it as their loading environment.
+ *
+ * @example
+ * ```ts
+ * const screen = new LoadingScreen(world, { color: 0x101018 });
+ * screen.show();
+ * await AssetManager.preloadAssets(manifest);
+ * screen.dispose();
+ * ```
+ *
+ * @category Assets
+ */
+export class LoadingScreen extends Group {
+  private fill: Mesh<PlaneGeometry, MeshBasicMaterial>;
+  private bar = new Group();
+  private unsubscribe?: () => void;
+
+  constructor(
+    private world: World,
+    private options: LoadingScreenOptions = {},
+  ) {
+    super();
+    this.name = 'LoadingScreen';
+    const color = new Color(options.color ?? 0x000000);
+    const room = new Mesh(
+      new SphereGeometry(3, 16, 8),
+      new MeshBasicMaterial({ color, side: BackSide, toneMapped: false }),
+    );
+    room.renderOrder = 1000;
+    // Contrasting bar: light on dark backdrops, dark on light ones
+    const barColor = new Color(
+      color.getHSL({ h: 0, s: 0, l: 0 }).l < 0.5 ? 0xffffff : 0x000000,
+    );
+    const track = new Mesh(
+      new PlaneGeometry(BAR_WIDTH, BAR_HEIGHT),
+      new MeshBasicMaterial({
+        color: barColor,
+        transparent: true,
+        opacity: 0.25,
+        toneMapped: false,
+      }),
+    );
+    // Fill grows rightward from the left end of the track
+    this.fill = new Mesh(
+      new PlaneGeometry(BAR_WIDTH, BAR_HEIGHT).translate(BAR_WIDTH / 2, 0, 0),
+      new MeshBasicMaterial({ color: barColor, toneMapped: false }),
+    );
+    this.fill.position.set(-BAR_WIDTH / 2, 0, 0.001);
+    track.renderOrder = this.fill.renderOrder = 1001;
+    this.bar.add(track, this.fill);
+    this.add(room, this.bar);
+    this.setProgress(0);
+  }
+
+  /** Add the screen to the scene and follow asset loading progress. */
+  show(): void {
+    if (this.parent) {
+      return;
+    }
+    this.placeBar(true);
+    this.world.scene.add(this);
+    this.unsubscribe = AssetProgressTracker.progress.subscribe((progress) => {
+      this.setProgress(
+        this.options.includeBackground
+          ? progress.progress
+          : progress.critical.progress,
+      );
+    });
+  }
+
+  hide(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    this.removeFromParent();
+  }
+
+  /** Show `progress` [0..1] on the bar; overridden by the next progress update. */
+  setProgress(progress: number): void {
+    this.fill.scale.x = Math.max(Math.min(progress, 1), 1e-3);
+  }
+
+  /** Keep centered on the head whenever the scene updates world matrices. */
+  updateMatrixWorld(force?: boolean): void {
+    if (this.parent) {
+      this.placeBar(false);
+    }
+    super.updateMatrixWorld(force);
+  }
+
+  dispose(): void {
+    this.hide();
+    this.traverse((object) => {
+      const mesh = object as Mesh<PlaneGeometry, MeshBasicMaterial>;
+      if (mesh.isMesh) {
+        mesh.geometry.dispose();
+        mesh.material.dispose();
+      }
+    });
+  }
+
+  private placeBar(force: boolean): void {
+    const camera = this.world.player.head;
+    camera.getWorldPosition(head);
+    this.position.copy(head);
+    camera.getWorldDirection(forward);
+    // Cameras look down -Z
+    forward.negate().projectOnPlane(up);
+    if (forward.lengthSq() < 1e-6) {
+      if (!force) {
+        return;
+      }
+      forward.set(0, 0, -1);
+    }
+    forward.normalize();
+    if (
+      !force &&
+      this.bar.position.lengthSq() > 0 &&
+      forward.angleTo(this.bar.position) < REFOLLOW_ANGLE
+    ) {
+      return;
+    }
+    this.bar.position.copy(forward).multiplyScalar(BAR_DISTANCE);
+    this.bar.rotation.set(0, Math.atan2(-forward.x, -forward.z), 0);
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { AssetProgressTracker } from './asset-progress.js';
+
+/** Options for {@link PersistentCache.enable}. @category Assets */
+export interface PersistentCacheOptions {
+  /** Cache Storage name prefix. @defaultValue 'iwsdk-assets' */
+  name?: string;
+  /**
+   * Application asset version. Enabling a new version deletes the entries stored by
+   * every other version of the same `name`.
+   * @defaultValue '1'
+   */
+  version?: string;
+}
+
+/** Response header recording the manifest hash an entry was stored with. */
+const HASH_HEADER = 'X-IWSDK-Asset-Hash';
+
+/**
+ * Persistent asset store in Cache Storage, consulted by
+ * {@link AssetManager.preloadAssets} before the network.
+ *
+ * @remarks
+ * - Entries are keyed by URL and validated against the manifest `hash`: a different
+ *   hash refetches and replaces the entry; entries without a hash stay valid until
+ *   the version changes.
+ * - Stored files are served to the regular loaders through object URLs, so GLTF,
+ *   KTX2, HDR/EXR, audio and image assets all benefit. Resources a `.gltf` references
+ *   externally still load from the network; prefer `.glb`.
+ * - Runtime loads outside a manifest bypass the store.
+ * - A no‑op where Cache Storage is unavailable (insecure origins, Node).
+ *
+ * @example
+ * ```ts
+ * PersistentCache.enable({ version: '2024-06-01' });
+ * await AssetManager.preloadAssets({
+ *   robot: { url: '/gltf/robot.glb', type: AssetType.GLTF, hash: 'a1b2c3' },
+ * });
+ * ```
+ *
+ * @category Assets
+ */
+export class PersistentCache {
+  private static storage?: Promise<Cache | undefined>;
+  private static objectUrls = new Map<string, string>();
+  private static refCounts = new Map<string, number>();
+  private static pending = new Map<string, Promise<void>>();
+
+  /** Whether Cache Storage exists in this environment. */
+  static isSupported(): boolean {
+    return typeof caches !== 'undefined';
+  }
+
+  /** True once {@link PersistentCache.enable} succeeded or is pending. */
+  static isEnabled(): boolean {
+    return !!this.storage;
+  }
+
+  /** Open the store for `version`, deleting stores of other versions. */
+  static enable(options: PersistentCacheOptions = {}): Promise<void> {
+    if (!this.isSupported()) {
+      return Promise.resolve();
+    }
+    const prefix = `${options.name ?? 'iwsdk-assets'}@`;
+    const name = `${prefix}${options.version ?? '1'}`;
+    this.storage = (async () => {
+      try {
+        const names = await caches.keys();
+        await Promise.all(
+          names
+            .filter((other) => other.startsWith(prefix) && other !== name)
+            .map((other) => caches.delete(other)),
+        );
+        // Ask the browser not to evict stored assets under storage pressure
+        void navigator.storage?.persist?.().catch(() => false);
+        return await caches.open(name);
+      } catch (error) {
+        console.warn('[PersistentCache] Cache Storage unavailable', error);
+        return undefined;
+      }
+    })();
+    return this.storage.then(() => undefined);
+  }
+
+  /** Stop using the store; stored entries are kept for the next visit. */
+  static disable(): void {
+    this.storage = undefined;
+  }
+
+  /**
+   * Make `url` loadable from the store, downloading and storing it first when it is
+   * missing or its hash changed. Loaders pick it up through {@link resolveURL} until
+   * every {@link prepare} call is matched by a {@link release}.
+   *
+   * @remarks Concurrent calls for one URL share a single lookup and download.
+   */
+  static async prepare(url: string, hash?: string): Promise<void> {
+    const storage = await this.storage;
+    if (!storage) {
+      return;
+    }
+    this.refCounts.set(url, (this.refCounts.get(url) ?? 0) + 1);
+    if (this.objectUrls.has(url)) {
+      return;
+    }
+    let pending = this.pending.get(url);
+    if (!pending) {
+      pending = this.store(storage, url, hash).finally(() =>
+        this.pending.delete(url),
+      );
+      this.pending.set(url, pending);
+    }
+    await pending;
+  }
+
+  /** Object URL for a prepared `url`; any other URL passes through. */
+  static resolveURL(url: string): string {
+    return this.objectUrls.get(url) ?? url;
+  }
+
+  /**
+   * Balance one {@link prepare} call; the object URL is revoked once every caller
+   * that prepared `url` has released it.
+   */
+  static release(url: string): void {
+    const count = this.refCounts.get(url);
+    if (!count) {
+      return;
+    }
+    if (count > 1) {
+      this.refCounts.set(url, count - 1);
+      return;
+    }
+    this.refCounts.delete(url);
+    const objectUrl = this.objectUrls.get(url);
+    if (objectUrl) {
+      URL.revokeObjectURL(objectUrl);
+      this.objectUrls.delete(url);
+    }
+  }
+
+  /** Delete every stored entry of the current version. */
+  static async clear(): Promise<void> {
+    const storage = await this.storage;
+    if (!storage) {
+      return;
+    }
+    const requests = await storage.keys();
+    await Promise.all(requests.map((request) => storage.delete(request)));
+  }
+
+  /** Read `url` from the store or the network and expose it as an object URL. */
+  private static async store(
+    storage: Cache,
+    url: string,
+    hash?: string,
+  ): Promise<void> {
+    try {
+      const stored = await storage.match(url);
+      let blob: Blob | undefined;
+      if (stored && (!hash || stored.headers.get(HASH_HEADER) === hash)) {
+        blob = await stored.blob();
+      } else {
+        blob = await this.download(url);
+        const headers = new Headers({ 'Content-Type': blob.type });
+        if (hash) {
+          headers.set(HASH_HEADER, hash);
+        }
+        await storage
+          .put(url, new Response(blob, { headers }))
+          .catch((error) =>
+            console.warn(`[PersistentCache] Could not store ${url}`, error),
+          );
+      }
+      // Skip when every caller already released while this was in flight
+      if (this.refCounts.has(url)) {
+        this.objectUrls.set(url, URL.createObjectURL(blob));
+      }
+    } catch (error) {
+      // Let the regular loader fetch (and report) it
+      console.warn(
+        `[PersistentCache] Falling back to network for ${url}`,
+        error,
+      );
+    }
+  }
+
+  /** Fetch `url`, reporting byte progress like the loaders do. */
+  private static async download(url: string): Promise<Blob> {
+    AssetProgressTracker.start(url);
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+    const total = Number(response.headers.get('Content-Length')) || 0;
+    const type = response.headers.get('Content-Type') ?? '';
+    if (!response.body) {
+      return response.blob();
+    }
+    const reader = response.body.getReader();
+    const chunks: BlobPart[] = [];
+    let loaded = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      chunks.push(value);
+      loaded += value.byteLength;
+      AssetProgressTracker.update(url, { loaded, total });
+    }
+    return new Blob(chunks, { type });
+  }
+}
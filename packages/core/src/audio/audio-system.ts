@@ -39,6 +39,7 @@ export class AudioSystem extends createSystem(
     Entity,
     (AudioInstance<AmbientAudio> | AudioInstance<PositionalAudio>)[]
   > = new Map();
+  private retainedSources = new Map<Entity, string>();
 
   init(): void {
     // Create and attach AudioListener to camera
@@ -147,6 +148,13 @@ export class AudioSystem extends createSystem(
   private async loadAudio(entity: Entity, src: string): Promise<void> {
     const index = entity.index;
     AudioSource.data._loading[index] = 1;
+    // Keep the buffer cached while this entity uses it
+    const previous = this.retainedSources.get(entity);
+    AssetManager.retain(src);
+    this.retainedSources.set(entity, src);
+    if (previous) {
+      AssetManager.release(previous);
+    }
 
     try {
       // Try to get from AssetManager cache first (fast path)
@@ -157,8 +165,6 @@ export class AudioSystem extends createSystem(
         buffer = await AssetManager.loadAudio(src);
       }
 
-      // TODO: Add AssetManager.retain(src) when memory management is implemented
-
       AudioSource.data._buffer[index] = buffer;
       AudioSource.data._loaded[index] = 1;
     } catch (error) {
@@ -570,6 +576,12 @@ export class AudioSystem extends createSystem(
   }
 
   private cleanupEntity(entity: Entity): void {
+    const src = this.retainedSources.get(entity);
+    if (src) {
+      this.retainedSources.delete(entity);
+      AssetManager.release(src);
+    }
+
     const instances = this.activeInstances.get(entity);
     if (!instances) {
       return;
@@ -587,10 +599,6 @@ export class AudioSystem extends createSystem(
       pool.dispose();
     }
 
-    // TODO: Add AssetManager.release(src) when memory management is implemented
-    // const src = AudioSource.data.src[index];
-    // if (src) AssetManager.release(src);
-
     this.activeInstances.delete(entity);
   }
 
@@ -0,0 +1,99 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { AnyComponent, Types, World as ElicsWorld } from 'elics';
+import { createComponent } from './component.js';
+import { Entity, onValueChange } from './entity.js';
+
+/**
+ * Human‑readable entity name, e.g. the node name from Meta Spatial Editor.
+ * Names are not required to be unique.
+ *
+ * @category ECS
+ * @see {@link World.findEntityByName}
+ */
+export const EntityName = createComponent(
+  'EntityName',
+  {
+    name: { type: Types.String, default: '' },
+  },
+  'Human-readable entity name',
+);
+
+/**
+ * Stable entity id, e.g. the GLXF `meta_spatial.entity_id` assigned by Meta Spatial Editor.
+ *
+ * @category ECS
+ * @see {@link World.findEntityById}
+ */
+export const EntityId = createComponent(
+  'EntityId',
+  {
+    id: { type: Types.String, default: '' },
+  },
+  'Stable entity id from the authoring tool',
+);
+
+/**
+ * Map from a string field value to the entities holding it, kept in sync with a query.
+ *
+ * @remarks
+ * Entries are added/removed on query qualify/disqualify and moved when `setValue`
+ * writes the component, so lookups never scan the world.
+ */
+export class EntityLookup {
+  private byValue = new Map<string, Set<Entity>>();
+  private valueOf = new Map<Entity, string>();
+
+  constructor(
+    world: ElicsWorld,
+    component: AnyComponent,
+    private read: (entity: Entity) => string,
+  ) {
+    const query = world.queryManager.registerQuery({ required: [component] });
+    query.entities.forEach((entity) => this.add(entity as Entity));
+    query.subscribe('qualify', (entity) => this.add(entity as Entity));
+    query.subscribe('disqualify', (entity) => this.remove(entity as Entity));
+
+    onValueChange(world, component, (entity) => {
+      if (this.valueOf.has(entity)) {
+        this.remove(entity);
+        this.add(entity);
+      }
+    });
+  }
+
+  /** Active entities whose value equals `value`. */
+  find(value: string): Entity[] {
+    return [...(this.byValue.get(value) ?? [])].filter(
+      (entity) => entity.active,
+    );
+  }
+
+  private add(entity: Entity): void {
+    const value = this.read(entity);
+    let entities = this.byValue.get(value);
+    if (!entities) {
+      entities = new Set();
+      this.byValue.set(value, entities);
+    }
+    entities.add(entity);
+    this.valueOf.set(entity, value);
+  }
+
+  private remove(entity: Entity): void {
+    const value = this.valueOf.get(entity);
+    if (value !== undefined) {
+      const entities = this.byValue.get(value);
+      entities?.delete(entity);
+      if (entities?.size === 0) {
+        this.byValue.delete(value);
+      }
+      this.valueOf.delete(entity);
+    }
+  }
+}
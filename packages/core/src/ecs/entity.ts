@@ -6,6 +6,7 @@
  */
 
 import type { PointerEventsMap } from '@pmndrs/pointer-events';
+import { AnyComponent, Entity, World as ElicsWorld } from 'elics';
 import type { Object3D, Object3DEventMap } from '../runtime/index.js';
 
 declare module 'elics' {
@@ -17,3 +18,55 @@ declare module 'elics' {
 export { Entity } from 'elics';
 /** Sentinel value used for “no parent” in Transform.parent. @category ECS */
 export const NullEntity = -1;
+
+type ValueListener = (entity: Entity) => void;
+
+/** Listeners per world (keyed by its query manager, which every entity holds), then per component. */
+const valueListeners = new WeakMap<
+  object,
+  Map<AnyComponent, Set<ValueListener>>
+>();
+
+const setValue = Entity.prototype.setValue;
+const notifyingSetValue: Entity['setValue'] = function (
+  this: Entity,
+  component,
+  key,
+  value,
+) {
+  setValue.call(this, component, key as string, value);
+  valueListeners
+    .get(this['queryManager'])
+    ?.get(component)
+    ?.forEach((listener) => listener(this));
+};
+Entity.prototype.setValue = notifyingSetValue;
+
+/**
+ * Call `listener` after every `setValue` on `component` by an entity of `world`.
+ *
+ * @remarks
+ * Covers direct writes only: values set through `addComponent` initial data or
+ * vector views do not notify.
+ *
+ * @returns A function that removes the listener.
+ * @category ECS
+ */
+export function onValueChange(
+  world: ElicsWorld,
+  component: AnyComponent,
+  listener: ValueListener,
+): () => void {
+  let components = valueListeners.get(world.queryManager);
+  if (!components) {
+    components = new Map();
+    valueListeners.set(world.queryManager, components);
+  }
+  let listeners = components.get(component);
+  if (!listeners) {
+    listeners = new Set();
+    components.set(component, listeners);
+  }
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
@@ -0,0 +1,127 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * Typed event channel created with {@link createEvent}.
+ * @category ECS
+ */
+export interface EventType<T = void> {
+  readonly id: string;
+  /** Type-only marker for the payload; never set at runtime. */
+  readonly __payload?: T;
+}
+
+/**
+ * Declare a typed event channel for {@link EventBus}.
+ *
+ * @param id Human‑readable id, used in warnings.
+ *
+ * @example
+ * export const ScoreChanged = createEvent<{ score: number }>('ScoreChanged');
+ * world.events.emit(ScoreChanged, { score: 10 });
+ *
+ * @category ECS
+ */
+export function createEvent<T = void>(id: string): EventType<T> {
+  return { id };
+}
+
+type Handler = (payload: any) => void;
+
+/**
+ * Frame-buffered event bus available as `world.events`.
+ *
+ * @remarks
+ * - Events emitted during frame N are delivered during frame N+1, whichever system
+ *   emitted them, so delivery never depends on registration order.
+ * - `read(type)` returns the events delivered this frame; systems can poll it from
+ *   `update`.
+ * - Handlers registered with an owning system run just before that system's `update`,
+ *   so they are called in system order; handlers without an owner run at the start of
+ *   the frame. Paused systems do not receive events.
+ *
+ * @example
+ * class ScoreSystem extends createSystem() {
+ *   init() {
+ *     this.cleanupFuncs.push(
+ *       this.world.events.on(GrabStarted, ({ entity }) => this.score(entity), this),
+ *     );
+ *   }
+ * }
+ *
+ * @category ECS
+ */
+export class EventBus {
+  private pending = new Map<EventType<any>, unknown[]>();
+  private delivered = new Map<EventType<any>, unknown[]>();
+  private handlers = new Map<EventType<any>, Map<Handler, object | null>>();
+
+  /** Queue an event for delivery on the next update. */
+  emit<T>(type: EventType<T>, ...payload: T extends void ? [] : [T]): void {
+    let queue = this.pending.get(type);
+    if (!queue) {
+      queue = [];
+      this.pending.set(type, queue);
+    }
+    queue.push(payload[0]);
+  }
+
+  /**
+   * Subscribe to an event.
+   *
+   * @param owner System whose `update` the handler is delivered with.
+   * @returns Unsubscribe function.
+   */
+  on<T>(
+    type: EventType<T>,
+    handler: (payload: T) => void,
+    owner?: object,
+  ): () => void {
+    let handlers = this.handlers.get(type);
+    if (!handlers) {
+      handlers = new Map();
+      this.handlers.set(type, handlers);
+    }
+    handlers.set(handler, owner ?? null);
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  /** Events of `type` delivered this frame. */
+  read<T>(type: EventType<T>): readonly T[] {
+    return (this.delivered.get(type) as T[] | undefined) ?? [];
+  }
+
+  /** @internal Make last frame's events current; called by the World each update. */
+  beginFrame(): void {
+    this.delivered = this.pending;
+    this.pending = new Map();
+  }
+
+  /** @internal Run handlers owned by `owner` (`null` for unowned handlers). */
+  dispatch(owner: object | null): void {
+    for (const [type, payloads] of this.delivered) {
+      const handlers = this.handlers.get(type);
+      if (!handlers) {
+        continue;
+      }
+      for (const [handler, handlerOwner] of handlers) {
+        if (handlerOwner !== owner) {
+          continue;
+        }
+        for (const payload of payloads) {
+          try {
+            handler(payload);
+          } catch (error) {
+            console.error(`[EventBus] Handler for "${type.id}" failed`, error);
+          }
+        }
+      }
+    }
+  }
+}
@@ -5,8 +5,14 @@
  * LICENSE file in the root directory of this source tree.
  */
 
-export * from './system.js';
-export * from './world.js';
+// Leaf modules first: world.js pulls in every feature module, which import
+// component and system helpers back from this index
 export * from './component.js';
 export * from './entity.js';
+export * from './entity-lookup.js';
+export * from './events.js';
+export * from './system-order.js';
+export * from './system.js';
+export * from './world.js';
 export * from './component-registry.js';
+export * from './snapshot.js';
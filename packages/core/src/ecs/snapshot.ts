@@ -0,0 +1,333 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { AnyComponent, ComponentRegistry, Types } from 'elics';
+import { Hovered, Pressed } from '../input/index.js';
+import { LevelTag } from '../level/index.js';
+import { Object3D } from '../runtime/index.js';
+import { Transform } from '../transform/index.js';
+import type { Entity } from './entity.js';
+import type { World } from './world.js';
+
+/** Snapshot format version written by {@link World.serialize}. @category ECS */
+export const WORLD_SNAPSHOT_VERSION = 1;
+
+/**
+ * JSON-safe field value. Non-finite numbers are encoded as the strings
+ * `'NaN'`, `'Infinity'` and `'-Infinity'`; entity references are stored as
+ * the snapshot `id` of the referenced entity (or `null`).
+ * @category ECS
+ */
+export type SnapshotValue =
+  | number
+  | string
+  | boolean
+  | null
+  | Array<number | string>;
+
+/** Serialized entity record. @category ECS */
+export interface EntitySnapshot {
+  /** Entity index at serialization time; only meaningful inside the snapshot. */
+  id: number;
+  /** Object3D name, if the entity had one. */
+  name?: string;
+  /** Component id → field values. */
+  components: Record<string, Record<string, SnapshotValue>>;
+}
+
+/** Versioned, JSON-safe snapshot of the active level. @category ECS */
+export interface WorldSnapshot {
+  version: number;
+  /** {@link World.activeLevelId} at serialization time. */
+  levelId: string;
+  /** Snapshot `id` of the level root record. */
+  root: number;
+  /** Entities ordered parents-first along the `Transform.parent` hierarchy. */
+  entities: EntitySnapshot[];
+}
+
+/** Options for {@link World.serialize}. @category ECS */
+export interface SerializeOptions {
+  /** Components to leave out of the snapshot. @defaultValue [Hovered, Pressed] */
+  exclude?: AnyComponent[];
+}
+
+/** Options for {@link World.deserialize}. @category ECS */
+export interface DeserializeOptions {
+  /**
+   * Provide the Object3D for a restored entity (e.g. a clone of a cached GLTF
+   * looked up by `record.name`). Defaults to an empty `Object3D`.
+   */
+  createObject3D?: (record: EntitySnapshot) => Object3D | undefined;
+}
+
+/**
+ * Fields that only hold runtime state: `Types.Object` handles (e.g.
+ * `Handle.instance`, `AudioSource._pool`) and `_`-prefixed internal fields.
+ */
+function isRuntimeField(key: string, type: string): boolean {
+  return type === Types.Object || key.startsWith('_');
+}
+
+/** Components whose schema consists solely of runtime fields are not persisted. */
+function isRuntimeComponent(component: AnyComponent): boolean {
+  const entries = Object.entries(component.schema);
+  return (
+    entries.length > 0 &&
+    entries.every(([key, field]) => isRuntimeField(key, field.type))
+  );
+}
+
+function isVectorType(type: string): boolean {
+  return (
+    type === Types.Vec2 ||
+    type === Types.Vec3 ||
+    type === Types.Vec4 ||
+    type === Types.Color
+  );
+}
+
+function isNumericType(type: string): boolean {
+  return (
+    type === Types.Int8 ||
+    type === Types.Int16 ||
+    type === Types.Float32 ||
+    type === Types.Float64
+  );
+}
+
+function encodeNumber(value: number): number | string {
+  return Number.isFinite(value) ? value : String(value);
+}
+
+function decodeNumber(value: number | string): number {
+  return typeof value === 'number' ? value : Number(value);
+}
+
+function getParent(entity: Entity): Entity | null {
+  return entity.hasComponent(Transform)
+    ? entity.getValue(Transform, 'parent')
+    : null;
+}
+
+function encodeComponent(
+  entity: Entity,
+  component: AnyComponent,
+): Record<string, SnapshotValue> {
+  const data: Record<string, SnapshotValue> = {};
+  for (const [key, field] of Object.entries(component.schema)) {
+    if (isRuntimeField(key, field.type)) {
+      continue;
+    }
+    if (isVectorType(field.type)) {
+      const view = entity.getVectorView(
+        component,
+        key as never,
+      ) as ArrayLike<number>;
+      data[key] = Array.from(view, encodeNumber);
+    } else if (field.type === Types.Entity) {
+      const ref = entity.getValue(component, key) as Entity | null;
+      data[key] = ref ? ref.index : null;
+    } else if (isNumericType(field.type)) {
+      data[key] = encodeNumber(entity.getValue(component, key) as number);
+    } else {
+      data[key] = entity.getValue(component, key) as SnapshotValue;
+    }
+  }
+  return data;
+}
+
+/**
+ * Serialize every entity of the active level into a {@link WorldSnapshot}.
+ *
+ * @remarks
+ * - Covers the active level root and all {@link LevelTag} entities. Persistent
+ *   entities (scene, player rig, app-owned UI) are recreated by app code and are
+ *   not part of the snapshot.
+ * - Components are resolved through the `elics` `ComponentRegistry` by id.
+ * - `Types.Object` and `_`-prefixed runtime fields are skipped.
+ *
+ * @category ECS
+ */
+export function serializeWorld(
+  world: World,
+  options: SerializeOptions = {},
+): WorldSnapshot {
+  const exclude = new Set<AnyComponent>(options.exclude ?? [Hovered, Pressed]);
+  const root = world.activeLevel.value;
+  const members = new Set<Entity>(
+    world.queryManager.registerQuery({ required: [LevelTag] }).entities,
+  );
+  members.add(root);
+
+  // Depth along Transform.parent so parents are always restored first
+  const depthOf = (entity: Entity): number => {
+    let depth = 0;
+    let parent = getParent(entity);
+    while (parent && members.has(parent) && depth < members.size) {
+      depth++;
+      parent = getParent(parent);
+    }
+    return depth;
+  };
+  const ordered = [...members]
+    .filter((entity) => entity.active)
+    .map((entity) => ({ entity, depth: depthOf(entity) }))
+    .sort((a, b) => a.depth - b.depth || a.entity.index - b.entity.index);
+
+  const entities = ordered.map(({ entity }) => {
+    const record: EntitySnapshot = { id: entity.index, components: {} };
+    if (entity.object3D?.name) {
+      record.name = entity.object3D.name;
+    }
+    for (const component of entity.getComponents()) {
+      if (exclude.has(component) || isRuntimeComponent(component)) {
+        continue;
+      }
+      const data = encodeComponent(entity, component);
+      if (component === Transform && !members.has(getParent(entity)!)) {
+        // Parent lives outside the level (e.g. scene); restore under the level root
+        data.parent = null;
+      }
+      record.components[component.id] = data;
+    }
+    return record;
+  });
+
+  return {
+    version: WORLD_SNAPSHOT_VERSION,
+    levelId: world.activeLevelId,
+    root: root.index,
+    entities,
+  };
+}
+
+/**
+ * Restore a {@link WorldSnapshot} into the active level.
+ *
+ * @remarks
+ * - Destroys current level content (keeping the active level root), then
+ *   recreates entities parents-first under that root.
+ * - The snapshot's level root record is applied to the active level root.
+ * - Components unknown to the `ComponentRegistry` are skipped with a warning.
+ *
+ * @returns The restored entities in snapshot order.
+ * @category ECS
+ */
+export function deserializeWorld(
+  world: World,
+  snapshot: WorldSnapshot | string,
+  options: DeserializeOptions = {},
+): Entity[] {
+  const data: WorldSnapshot =
+    typeof snapshot === 'string' ? JSON.parse(snapshot) : snapshot;
+  if (data?.version !== WORLD_SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported world snapshot version ${data?.version}; expected ${WORLD_SNAPSHOT_VERSION}`,
+    );
+  }
+
+  const root = world.activeLevel.value;
+  for (const entity of [
+    ...world.queryManager.registerQuery({ required: [LevelTag] }).entities,
+  ]) {
+    if (entity !== root) {
+      entity.destroy();
+    }
+  }
+  world.activeLevelId = data.levelId;
+  root.setValue(LevelTag, 'id', data.levelId);
+
+  const idMap = new Map<number, Entity>();
+  const restored: Entity[] = [];
+  for (const record of data.entities) {
+    if (record.id === data.root) {
+      idMap.set(record.id, root);
+      restored.push(root);
+      continue;
+    }
+    let entity: Entity;
+    if (Transform.id in record.components) {
+      const parentId = record.components[Transform.id].parent;
+      const parent =
+        typeof parentId === 'number' ? idMap.get(parentId) : undefined;
+      const object = options.createObject3D?.(record) ?? new Object3D();
+      if (record.name) {
+        object.name = record.name;
+      }
+      entity = world.createTransformEntity(object, parent ?? root);
+    } else {
+      entity = world.createEntity();
+    }
+    idMap.set(record.id, entity);
+    restored.push(entity);
+  }
+
+  // Second pass so entity references can point at any restored entity
+  data.entities.forEach((record, i) => {
+    const entity = restored[i];
+    for (const [componentId, values] of Object.entries(record.components)) {
+      const component = ComponentRegistry.getById(componentId);
+      if (!component) {
+        console.warn(
+          `[World] Snapshot component "${componentId}" is not registered; skipping.`,
+        );
+        continue;
+      }
+      if (!component.bitmask) {
+        world.registerComponent(component);
+      }
+      const vectors: Array<[string, number[]]> = [];
+      const props: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(values)) {
+        const field = component.schema[key];
+        if (!field || isRuntimeField(key, field.type)) {
+          continue;
+        }
+        if (isVectorType(field.type)) {
+          vectors.push([
+            key,
+            (value as Array<number | string>).map(decodeNumber),
+          ]);
+        } else if (field.type === Types.Entity) {
+          props[key] =
+            typeof value === 'number' ? (idMap.get(value) ?? null) : null;
+        } else if (isNumericType(field.type)) {
+          props[key] = decodeNumber(value as number | string);
+        } else {
+          props[key] = value;
+        }
+      }
+
+      if (component === Transform) {
+        // Transform was added on creation and is bound to the Object3D
+        if (entity !== root) {
+          for (const [key, value] of vectors) {
+            (entity.getVectorView(Transform, key as never) as Float32Array).set(
+              value,
+            );
+          }
+        }
+        continue;
+      }
+      if (!entity.hasComponent(component)) {
+        entity.addComponent(component, props);
+      } else {
+        for (const [key, value] of Object.entries(props)) {
+          entity.setValue(component, key as never, value as never);
+        }
+      }
+      for (const [key, value] of vectors) {
+        (entity.getVectorView(component, key as never) as Float32Array).set(
+          value,
+        );
+      }
+    }
+  });
+
+  return restored;
+}
@@ -0,0 +1,120 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { SystemConstructor } from 'elics';
+
+/** Any system class, as passed to `world.registerSystem`. @category ECS */
+export type AnySystemClass = SystemConstructor<any, any, any, any>;
+
+/**
+ * Declarative ordering constraints for {@link World.registerSystem}.
+ *
+ * @remarks
+ * - Constraints are resolved against every registered system with a topological
+ *   sort; numeric `priority` only breaks ties between unconstrained systems.
+ * - Constraints naming a system that is not registered are ignored until it is.
+ *
+ * @category ECS
+ */
+export interface SystemOrderOptions {
+  /** Systems this one must update before. */
+  before?: AnySystemClass[];
+  /** Systems this one must update after. */
+  after?: AnySystemClass[];
+}
+
+/**
+ * Order systems so that all `before`/`after` constraints hold.
+ *
+ * @param systems Systems in their current (priority) order.
+ * @param typeOf Resolve the class of a system entry.
+ * @param constraints Ordering constraints keyed by system class.
+ * @returns A new array; among systems free to run, lower `priority` runs first and
+ * ties keep their incoming order.
+ * @throws Error naming the systems involved when the constraints form a cycle.
+ *
+ * @category ECS
+ */
+export function resolveSystemOrder<T extends { priority: number }>(
+  systems: readonly T[],
+  typeOf: (system: T) => AnySystemClass,
+  constraints: ReadonlyMap<AnySystemClass, SystemOrderOptions>,
+): T[] {
+  const indexOf = new Map<AnySystemClass, number>();
+  systems.forEach((system, i) => indexOf.set(typeOf(system), i));
+
+  // successors[i] holds systems that must run after systems[i]
+  const successors = systems.map(() => new Set<number>());
+  const addEdge = (from: number | undefined, to: number | undefined) => {
+    if (from !== undefined && to !== undefined && from !== to) {
+      successors[from].add(to);
+    }
+  };
+  systems.forEach((system, i) => {
+    const order = constraints.get(typeOf(system));
+    order?.after?.forEach((type) => addEdge(indexOf.get(type), i));
+    order?.before?.forEach((type) => addEdge(i, indexOf.get(type)));
+  });
+
+  const inDegree = systems.map(() => 0);
+  successors.forEach((next) => next.forEach((j) => inDegree[j]++));
+
+  const ready = new Set<number>();
+  inDegree.forEach((degree, i) => {
+    if (degree === 0) {
+      ready.add(i);
+    }
+  });
+
+  const sorted: T[] = [];
+  while (ready.size > 0) {
+    let pick = -1;
+    for (const i of ready) {
+      if (
+        pick === -1 ||
+        systems[i].priority < systems[pick].priority ||
+        (systems[i].priority === systems[pick].priority && i < pick)
+      ) {
+        pick = i;
+      }
+    }
+    ready.delete(pick);
+    sorted.push(systems[pick]);
+    for (const j of successors[pick]) {
+      if (--inDegree[j] === 0) {
+        ready.add(j);
+      }
+    }
+  }
+
+  if (sorted.length < systems.length) {
+    const cycle = findCycle(successors, inDegree);
+    const names = cycle.map((i) => typeOf(systems[i]).name || '<anonymous>');
+    throw new Error(`System ordering cycle: ${names.join(' -> ')}`);
+  }
+  return sorted;
+}
+
+/**
+ * Every system left with a non-zero in-degree waits on another such system, so
+ * walking those predecessors from any of them must revisit one.
+ */
+function findCycle(successors: Set<number>[], inDegree: number[]): number[] {
+  const blockedPredecessor = (i: number) =>
+    successors.findIndex((next, j) => inDegree[j] > 0 && next.has(i));
+  const path: number[] = [];
+  const seen = new Map<number, number>();
+  let current = inDegree.findIndex((degree) => degree > 0);
+  while (!seen.has(current)) {
+    seen.set(current, path.length);
+    path.push(current);
+    current = blockedPredecessor(current);
+  }
+  // Collected against edge direction; reverse to read in update order
+  const loop = path.slice(seen.get(current)!).reverse();
+  return [...loop, loop[0]];
+}
@@ -30,6 +30,21 @@ type SystemConfigSignals<S extends SystemSchema> = {
   [K in keyof S]: Signal<TypeValueToType<S[K]['type']>>;
 };
 
+/**
+ * Scheduling options for {@link createSystem}.
+ *
+ * @category ECS
+ */
+export interface SystemScheduleOptions {
+  /**
+   * Call `fixedUpdate(delta, time)` once per fixed tick at {@link World.fixedTimestep}.
+   * The ticks of all fixed systems run together, just before the per-frame `update`
+   * of the first fixed system in update order (see {@link World.update}).
+   * @defaultValue false
+   */
+  fixed?: boolean;
+}
+
 /**
  * System base interface wired to the IWSDK World, renderer, and XR runtime.
  *
@@ -39,6 +54,8 @@ type SystemConfigSignals<S extends SystemSchema> = {
  * - Common world resources are available as readonly properties (`player`, `input`,
  *   `scene`, `camera`, `renderer`, `visibilityState`).
  * - Use `cleanupFuncs.push(() => ...)` to register teardown callbacks.
+ * - Systems created with `{ fixed: true }` also receive `fixedUpdate` at the
+ *   world's fixed rate.
  *
  * @category ECS
  */
@@ -64,6 +81,7 @@ export interface System<S extends SystemSchema, Q extends SystemQueries>
 
   init(): void;
   update(delta: number, time: number): void;
+  fixedUpdate(delta: number, time: number): void;
   play(): void;
   stop(): void;
   createEntity: () => Entity;
@@ -74,6 +92,7 @@ export interface System<S extends SystemSchema, Q extends SystemQueries>
  *
  * @param queries Elics query descriptors keyed by name.
  * @param schema Option map of config defaults and Types.
+ * @param schedule Opt into fixed-rate `fixedUpdate` calls, see {@link SystemScheduleOptions}.
  * @returns A System constructor to `export class MySystem extends createSystem(...) { ... }`.
  *
  * @example
@@ -83,16 +102,23 @@ export interface System<S extends SystemSchema, Q extends SystemQueries>
  *   update(dt:number){ this.queries.items.entities.forEach(e=> e.object3D.rotateY(dt*this.config.speed.value)) }
  * }
  *
+ * @example Fixed-rate gameplay tick
+ * export class Mover extends createSystem({ items: { required: [Transform, TransformInterpolation] } }, {}, { fixed: true }) {
+ *   fixedUpdate(dt:number){ this.queries.items.entities.forEach(e=> e.object3D.translateZ(dt)) }
+ * }
+ *
  * @category ECS
  */
 export function createSystem<S extends SystemSchema, Q extends SystemQueries>(
   queries: Q = {} as Q,
   schema: S = {} as S,
+  schedule: SystemScheduleOptions = {},
 ): SystemConstructor<S, Q, World, System<S, Q>> {
   return class implements System<S, Q> {
     static schema = schema;
     static isSystem = true;
     static queries = queries;
+    static schedule = schedule;
 
     public isPaused: boolean = false;
     public queries!: Record<keyof Q, Query>;
@@ -146,6 +172,8 @@ export function createSystem<S extends SystemSchema, Q extends SystemQueries>(
 
     update(_delta: number, _time: number): void {}
 
+    fixedUpdate(_delta: number, _time: number): void {}
+
     play(): void {
       this.isPaused = false;
     }
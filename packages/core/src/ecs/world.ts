@@ -8,16 +8,33 @@
 import { XRInputManager, XROrigin } from '@iwsdk/xr-input';
 import type { PointerEventsMap } from '@pmndrs/pointer-events';
 import { Signal, signal } from '@preact/signals-core';
-import { AnyComponent, World as ElicsWorld } from 'elics';
+import {
+  AnyComponent,
+  System as ElicsSystem,
+  Query,
+  World as ElicsWorld,
+  SystemConstructor,
+  SystemOptions,
+  SystemQueries,
+  SystemSchema,
+} from 'elics';
 import { AssetManager } from '../asset/index.js';
 // Environment is driven by components/systems; no world helpers
 import {
+  HeadlessWorldOptions,
   WorldOptions,
+  initializeHeadlessWorld,
   initializeWorld,
   XROptions,
   launchXR,
 } from '../init/index.js';
 import { LevelTag } from '../level/index.js';
+import type {
+  LoadLevelOptions,
+  LevelTransitionOptions,
+} from '../level/index.js';
+import type { InstantiateOptions, Prefab } from '../prefab/index.js';
+import type { RenderPipeline } from '../render/index.js';
 import type { Object3DEventMap } from '../runtime/index.js';
 import {
   Object3D,
@@ -25,8 +42,30 @@ import {
   Scene,
   WebGLRenderer,
 } from '../runtime/index.js';
-import { Transform } from '../transform/index.js';
+import { SpatialIndex } from '../spatial/spatial-index.js';
+import {
+  Transform,
+  TransformInterpolation,
+  captureFixedTransforms,
+  interpolateTransforms,
+  restoreFixedTransforms,
+} from '../transform/index.js';
+import { EntityId, EntityLookup, EntityName } from './entity-lookup.js';
 import { Entity } from './entity.js';
+import { EventBus } from './events.js';
+import {
+  DeserializeOptions,
+  SerializeOptions,
+  WorldSnapshot,
+  deserializeWorld,
+  serializeWorld,
+} from './snapshot.js';
+import {
+  AnySystemClass,
+  SystemOrderOptions,
+  resolveSystemOrder,
+} from './system-order.js';
+import type { System, SystemScheduleOptions } from './system.js';
 
 export enum VisibilityState {
   NonImmersive = 'non-immersive',
@@ -74,12 +113,36 @@ export class World extends ElicsWorld {
   public activeLevelId: string = 'level:default';
   public camera!: PerspectiveCamera;
   public renderer!: WebGLRenderer;
+  /** Ordered post-processing passes applied when rendering each frame. */
+  public renderPipeline!: RenderPipeline;
   public session: XRSession | undefined;
   public visibilityState = signal(VisibilityState.NonImmersive);
   public requestedLevelUrl: string | undefined;
+  public requestedLevelTransition: boolean | LevelTransitionOptions | undefined;
   public _resolveLevelLoad: (() => void) | undefined;
   /** Default XR options used when calling {@link World.launchXR} without overrides. */
   public xrDefaults: import('../init/xr.js').XROptions | undefined;
+  /** Frame-buffered, typed event channel shared by all systems. */
+  public readonly events = new EventBus();
+  /** Loose octree over entity bounds for radius, box, ray and frustum queries. */
+  public readonly spatial = new SpatialIndex();
+  /** Seconds simulated per `fixedUpdate` tick. */
+  public fixedTimestep = 1 / 60;
+  /** Upper bound on ticks per frame; time beyond it is dropped to avoid a spiral of death. */
+  public maxFixedSteps = 5;
+  /** Progress (0..1) from the previous to the latest fixed tick, used for interpolation. */
+  public fixedAlpha = 0;
+  /** Simulated time of the latest fixed tick, in seconds. */
+  public fixedTime = 0;
+  /** Measure per-system cost into {@link World.systemTimings} (used by the inspector). */
+  public profileSystems = false;
+  /** Milliseconds each system spent in `fixedUpdate` + `update` last frame, while profiling. */
+  public readonly systemTimings = new Map<object, number>();
+  private fixedAccumulator = 0;
+  private interpolatedQuery: Query | undefined;
+  private systemOrder = new Map<AnySystemClass, SystemOrderOptions>();
+  private namedEntities: EntityLookup;
+  private identifiedEntities: EntityLookup;
 
   constructor() {
     super();
@@ -91,6 +154,18 @@ export class World extends ElicsWorld {
       entity.object3D?.removeFromParent();
       delete entity.object3D;
     };
+
+    this.registerComponent(EntityName).registerComponent(EntityId);
+    this.namedEntities = new EntityLookup(
+      this,
+      EntityName,
+      (entity) => entity.getValue(EntityName, 'name') ?? '',
+    );
+    this.identifiedEntities = new EntityLookup(
+      this,
+      EntityId,
+      (entity) => entity.getValue(EntityId, 'id') ?? '',
+    );
   }
 
   createEntity(): Entity {
@@ -146,30 +221,234 @@ export class World extends ElicsWorld {
     return entity;
   }
 
+  /**
+   * Spawn a {@link Prefab}: clones its Object3D subtree and applies its components
+   * and per-instance overrides.
+   * @returns The root entity of the new instance.
+   */
+  instantiate(prefab: Prefab, options?: InstantiateOptions): Entity {
+    return prefab.instantiate(this, options);
+  }
+
+  /**
+   * First entity whose {@link EntityName} matches, e.g. a node named in Meta Spatial Editor.
+   * @see {@link World.findEntitiesByName} when names are not unique.
+   */
+  findEntityByName(name: string): Entity | undefined {
+    return this.namedEntities.find(name)[0];
+  }
+
+  /** All entities whose {@link EntityName} matches. */
+  findEntitiesByName(name: string): Entity[] {
+    return this.namedEntities.find(name);
+  }
+
+  /** Entity with the given {@link EntityId} (GLXF `meta_spatial.entity_id`). */
+  findEntityById(id: string): Entity | undefined {
+    return this.identifiedEntities.find(id)[0];
+  }
+
   launchXR(xrOptions?: Partial<XROptions>) {
     launchXR(this, xrOptions);
   }
 
-  /** Request a level change; LevelSystem performs the work and resolves. */
-  async loadLevel(url?: string): Promise<void> {
+  /**
+   * Request a level change; LevelSystem performs the work and resolves.
+   *
+   * @example Fade to black with a loading environment
+   * ```ts
+   * await world.loadLevel('/glxf/arena.glxf', { transition: { fadeOut: 0.4 } });
+   * ```
+   */
+  async loadLevel(url?: string, options: LoadLevelOptions = {}): Promise<void> {
     this.requestedLevelUrl = url ?? '';
+    this.requestedLevelTransition = options.transition;
     return new Promise<void>((resolve) => {
       this._resolveLevelLoad = resolve;
     });
   }
 
+  /**
+   * Capture the active level's entities and component data as versioned JSON.
+   * @see {@link serializeWorld}
+   */
+  serialize(options?: SerializeOptions): WorldSnapshot {
+    return serializeWorld(this, options);
+  }
+
+  /**
+   * Replace the active level's content with the entities of a snapshot
+   * produced by {@link World.serialize}.
+   * @see {@link deserializeWorld}
+   */
+  deserialize(
+    snapshot: WorldSnapshot | string,
+    options?: DeserializeOptions,
+  ): Entity[] {
+    return deserializeWorld(this, snapshot, options);
+  }
+
   exitXR() {
     this.session?.end();
   }
 
+  /**
+   * Advance the world by one frame.
+   *
+   * @remarks
+   * - Delivers the events emitted last frame (see {@link EventBus}).
+   * - Runs every system's per-frame `update` in order. Just before the first system
+   *   scheduled `{ fixed: true }` (the PhysicsSystem, when enabled), it runs as many
+   *   `fixedUpdate` ticks as the accumulated time allows (at most
+   *   {@link World.maxFixedSteps}), so systems ordered earlier, such as input and
+   *   grabbing, feed this frame's ticks. Without fixed systems the ticks run first.
+   * - Finally writes interpolated poses for {@link TransformInterpolation} entities.
+   */
   update(delta: number, time: number): void {
-    super.update(delta, time);
+    if (!this.interpolatedQuery && this.hasComponent(TransformInterpolation)) {
+      this.interpolatedQuery = this.queryManager.registerQuery({
+        required: [Transform, TransformInterpolation],
+      });
+    }
+    const interpolated = this.interpolatedQuery?.entities ?? [];
+    this.events.beginFrame();
+    this.events.dispatch(null);
+    const profile = this.profileSystems;
+    if (profile) {
+      this.systemTimings.clear();
+    }
+
+    const systems = this.getSystems<System<SystemSchema, SystemQueries>>();
+    const fixedSystems = systems.filter(
+      (system) =>
+        (system.constructor as { schedule?: SystemScheduleOptions }).schedule
+          ?.fixed,
+    );
+    const firstFixed = fixedSystems[0];
+    if (!firstFixed) {
+      this.runFixedTicks(fixedSystems, interpolated, delta, profile);
+    }
+    for (const system of systems) {
+      if (system === firstFixed) {
+        this.runFixedTicks(fixedSystems, interpolated, delta, profile);
+      }
+      if (!system.isPaused) {
+        const start = profile ? performance.now() : 0;
+        this.events.dispatch(system);
+        system.update(delta, time);
+        if (profile) {
+          this.addSystemTiming(system, performance.now() - start);
+        }
+      }
+    }
+    interpolateTransforms(interpolated, this.fixedAlpha);
+  }
+
+  /** Accumulate `delta` and run the `fixedUpdate` ticks it pays for. */
+  private runFixedTicks(
+    fixedSystems: System<SystemSchema, SystemQueries>[],
+    interpolated: Iterable<Entity>,
+    delta: number,
+    profile: boolean,
+  ): void {
+    this.fixedAccumulator += delta;
+    if (this.fixedAccumulator >= this.fixedTimestep) {
+      restoreFixedTransforms(interpolated);
+      let steps = 0;
+      while (
+        this.fixedAccumulator >= this.fixedTimestep &&
+        steps < this.maxFixedSteps
+      ) {
+        this.fixedTime += this.fixedTimestep;
+        for (const system of fixedSystems) {
+          if (!system.isPaused) {
+            const start = profile ? performance.now() : 0;
+            system.fixedUpdate(this.fixedTimestep, this.fixedTime);
+            if (profile) {
+              this.addSystemTiming(system, performance.now() - start);
+            }
+          }
+        }
+        captureFixedTransforms(interpolated);
+        this.fixedAccumulator -= this.fixedTimestep;
+        steps++;
+      }
+      this.fixedAccumulator %= this.fixedTimestep;
+    }
+    this.fixedAlpha = this.fixedAccumulator / this.fixedTimestep;
+  }
+
+  private addSystemTiming(system: object, ms: number): void {
+    this.systemTimings.set(system, (this.systemTimings.get(system) ?? 0) + ms);
   }
 
   registerComponent(component: AnyComponent): this {
     return super.registerComponent(component);
   }
 
+  /**
+   * Register a system, optionally ordered relative to other systems.
+   *
+   * @remarks
+   * - `before`/`after` constraints are resolved with a topological sort over all
+   *   registered systems; `priority` only orders systems the constraints leave free.
+   * - Throws (without registering the system) if the constraints form a cycle.
+   *
+   * @example
+   * ```ts
+   * world.registerSystem(AimSystem, { after: [InputSystem], before: [PhysicsSystem] });
+   * ```
+   */
+  registerSystem<
+    S extends SystemSchema,
+    Q extends SystemQueries,
+    Sys extends ElicsSystem<S, Q> = ElicsSystem<S, Q>,
+  >(
+    systemClass: SystemConstructor<S, Q, typeof this, Sys>,
+    options: Partial<SystemOptions<S>> & SystemOrderOptions = {},
+  ): this {
+    const { before, after, ...systemOptions } = options;
+    if ((before?.length || after?.length) && !this.hasSystem(systemClass)) {
+      const order = new Map(this.systemOrder).set(systemClass, {
+        before,
+        after,
+      });
+      // Validate before init() runs so a cycle leaves the world untouched
+      resolveSystemOrder(
+        [
+          ...this.getSystems().map((system) => ({
+            type: system.constructor as AnySystemClass,
+            priority: system.priority,
+          })),
+          { type: systemClass, priority: systemOptions.priority ?? 0 },
+        ],
+        (entry) => entry.type,
+        order,
+      );
+      this.systemOrder = order;
+    }
+    super.registerSystem(systemClass, systemOptions);
+    if (this.systemOrder.size > 0) {
+      const systems = this.getSystems();
+      const sorted = resolveSystemOrder(
+        systems,
+        (system) => system.constructor as AnySystemClass,
+        this.systemOrder,
+      );
+      systems.splice(0, systems.length, ...sorted);
+    }
+    return this;
+  }
+
+  unregisterSystem<
+    S extends SystemSchema,
+    Q extends SystemQueries,
+    Sys extends ElicsSystem<S, Q>,
+  >(systemClass: SystemConstructor<S, Q, typeof this, Sys>): void {
+    super.unregisterSystem(systemClass);
+    this.systemOrder.delete(systemClass);
+  }
+
   // Level root helpers
   getActiveRoot(): Object3D {
     return this.activeLevel?.value?.object3D ?? this.scene;
@@ -206,4 +485,25 @@ export class World extends ElicsWorld {
   ): Promise<World> {
     return initializeWorld(container, options);
   }
+
+  /**
+   * Initialize a world without a canvas or WebGL context, for Node-based tests.
+   *
+   * @param options Assets, level, features and camera frustum, see {@link HeadlessWorldOptions}.
+   * @returns A promise that resolves to the initialized {@link World}.
+   *
+   * @remarks
+   * - Registers the same core and feature systems as {@link World.create} against a null renderer;
+   *   GPU/DOM-bound systems (Environment, Audio, ScreenSpace UI, Camera) are skipped.
+   * - There is no animation loop: step the world manually with `world.update(delta, time)`.
+   *
+   * @example
+   * ```ts
+   * const world = await World.createHeadless({ features: { grabbing: true } });
+   * world.update(1 / 60, 1 / 60);
+   * ```
+   */
+  static createHeadless(options?: HeadlessWorldOptions): Promise<World> {
+    return initializeHeadlessWorld(options);
+  }
 }
@@ -7,13 +7,25 @@
 
 import { HandleStore } from '@pmndrs/handle';
 import { PointerEventsMap } from '@pmndrs/pointer-events';
-import { createSystem, Entity } from '../ecs/index.js';
+import { createEvent, createSystem, Entity } from '../ecs/index.js';
 import { Object3D, Object3DEventMap } from '../runtime/index.js';
 import { DistanceGrabbable } from './distance-grabbable.js';
 import { DistanceGrabHandle, MovementMode, Handle } from './handles.js';
 import { OneHandGrabbable } from './one-hand-grabbable.js';
 import { TwoHandsGrabbable } from './two-hands-grabbable.js';
 
+/**
+ * Emitted by {@link GrabSystem} when a grabbable entity is picked up.
+ * @category Grab
+ */
+export const GrabStarted = createEvent<{ entity: Entity }>('GrabStarted');
+
+/**
+ * Emitted by {@link GrabSystem} when a grabbed entity is released (or stops being grabbable).
+ * @category Grab
+ */
+export const GrabEnded = createEvent<{ entity: Entity }>('GrabEnded');
+
 /**
  * Manages interactive object grabbing and manipulation for VR/AR experiences.
  *
@@ -22,6 +34,7 @@ import { TwoHandsGrabbable } from './two-hands-grabbable.js';
  * - Automatically creates handle instances for entities with grabbable components.
  * - Supports three types of grab interactions: one‑hand, two‑hand, and distance grabbing.
  * - Automatically cleans up handle instances when grabbable components are removed.
+ * - Emits {@link GrabStarted} and {@link GrabEnded} on `world.events`.
  *
  * @example Basic grab system setup
  * ```ts
@@ -62,6 +75,8 @@ export class GrabSystem extends createSystem({
     required: [Handle],
   },
 }) {
+  private grabbed = new Set<Entity>();
+
   init() {
     // Ensure Handle component is registered in the world before queries rely on it
     if (!Handle.bitmask) {
@@ -92,6 +107,9 @@ export class GrabSystem extends createSystem({
       if (entity.object3D) {
         entity.object3D.pointerEventsType = 'all';
       }
+      if (this.grabbed.delete(entity)) {
+        this.world.events.emit(GrabEnded, { entity });
+      }
     });
 
     // Initial pass for already-eligible entities (qualify doesn't fire retroactively)
@@ -118,6 +136,13 @@ export class GrabSystem extends createSystem({
         | undefined;
       if (h) {
         h.update(delta);
+        const active = h.getState() !== undefined;
+        if (active && !this.grabbed.has(entity)) {
+          this.grabbed.add(entity);
+          this.world.events.emit(GrabStarted, { entity });
+        } else if (!active && this.grabbed.delete(entity)) {
+          this.world.events.emit(GrabEnded, { entity });
+        }
       }
     });
   }
@@ -12,19 +12,27 @@ import { VERSION } from './version.js';
 export * from './runtime/index.js';
 export * from './ecs/index.js';
 export * from './transform/index.js';
+export * from './spatial/index.js';
 export * from './asset/index.js';
 export * from './locomotion/index.js';
 export * from './visibility/index.js';
+export * from './render/index.js';
 export * from './ui/index.js';
 export * from './init/index.js';
 export * from './grab/index.js';
 export * from './input/index.js';
 export * from './environment/index.js';
 export * from './level/index.js';
+export * from './prefab/index.js';
 export * from './scene-understanding/index.js';
 export * from './audio/index.js';
+export * from './animation/index.js';
+export * from './tween/index.js';
+export * from './lod/index.js';
+export * from './instancing/index.js';
 export * from './physics/index.js';
 export * from './camera/index.js';
+export * from './inspector/index.js';
 
 // re-exports
 export * from '@iwsdk/xr-input';
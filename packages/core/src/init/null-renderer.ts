@@ -0,0 +1,46 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { EventDispatcher, WebGLRenderer } from '../runtime/index.js';
+
+/**
+ * Minimal stand-in for `WebGLRenderer` used by headless worlds.
+ *
+ * @remarks
+ * Implements only the surface touched by built-in systems and loaders: an
+ * `xr` manager that never has a session, no-op draw/size calls, and an
+ * extension probe that reports no compressed texture support.
+ */
+export function createNullRenderer(): WebGLRenderer {
+  const xr = Object.assign(new EventDispatcher(), {
+    enabled: false,
+    isPresenting: false,
+    isMultiview: false,
+    getSession: () => null,
+    getFrame: () => null,
+    getReferenceSpace: () => null,
+    setReferenceSpaceType: () => {},
+    setSession: async () => {
+      throw new Error('XR sessions are not available in a headless world');
+    },
+  });
+
+  const renderer = {
+    isNullRenderer: true,
+    xr,
+    domElement: undefined,
+    extensions: { has: () => false, get: () => null },
+    render: () => {},
+    setAnimationLoop: () => {},
+    setPixelRatio: () => {},
+    setSize: () => {},
+    setTransparentSort: () => {},
+    dispose: () => {},
+  };
+
+  return renderer as unknown as WebGLRenderer;
+}
@@ -7,7 +7,20 @@
 
 import { XRInputManager } from '@iwsdk/xr-input';
 import { signal } from '@preact/signals-core';
-import { AssetManager, AssetManifest } from '../asset/index.js';
+import { AnimationPlayer, AnimationSystem } from '../animation/index.js';
+import {
+  AssetManager,
+  AssetManagerOptions,
+  AssetManifest,
+  AssetOptions,
+  AssetReference,
+  AssetReferenceSystem,
+  LoadingScreen,
+  LoadingScreenOptions,
+  PersistentCache,
+  PersistentCacheOptions,
+  resolveAssetOptions,
+} from '../asset/index.js';
 import { AudioSource, AudioSystem } from '../audio/index.js';
 import { CameraSource, CameraSystem } from '../camera/index.js';
 import { World, VisibilityState } from '../ecs/index.js';
@@ -21,20 +34,26 @@ import {
 import { GrabSystem } from '../grab/index.js';
 import { Interactable, Hovered, Pressed } from '../grab/index.js';
 import { InputSystem } from '../input/index.js';
+import { InspectorSystem } from '../inspector/index.js';
+import { Instanced, InstancingSystem } from '../instancing/index.js';
 import { LevelTag, LevelRoot } from '../level/index.js';
 import { LevelSystem } from '../level/index.js';
 import { LocomotionSystem } from '../locomotion/index.js';
+import { LevelOfDetail, LODSystem } from '../lod/index.js';
 import {
   PhysicsBody,
   PhysicsManipulation,
   PhysicsShape,
   PhysicsSystem,
 } from '../physics/index.js';
+import { RenderPipeline } from '../render/index.js';
 import {
   Clock,
+  NoToneMapping,
   PerspectiveCamera,
   SRGBColorSpace,
   Scene,
+  ToneMapping,
   WebGLRenderer,
 } from '../runtime/index.js';
 import {
@@ -43,17 +62,32 @@ import {
   XRMesh,
   XRPlane,
 } from '../scene-understanding/index.js';
-import { Transform, TransformSystem } from '../transform/index.js';
+import { SpatialIndexSystem } from '../spatial/index.js';
+import {
+  DestroyWithParent,
+  Transform,
+  TransformInterpolation,
+  TransformSystem,
+  WorldTransform,
+} from '../transform/index.js';
+import { Tween, TweenSystem } from '../tween/index.js';
 import {
   FollowSystem,
   Follower,
   ScreenSpace,
   ScreenSpaceUISystem,
+  PanelDocument,
   PanelUI,
   PanelUISystem,
   ColorScheme,
 } from '../ui/index.js';
-import { Visibility, VisibilitySystem } from '../visibility/index.js';
+import {
+  RenderLayers,
+  RenderLayersSystem,
+  Visibility,
+  VisibilitySystem,
+} from '../visibility/index.js';
+import { createNullRenderer } from './null-renderer.js';
 import {
   ReferenceSpaceType,
   SessionMode,
@@ -61,6 +95,8 @@ import {
   normalizeReferenceSpec,
   resolveReferenceSpaceType,
   buildSessionInit,
+  XRSessionEnded,
+  XRSessionStarted,
 } from './index.js';
 
 /** Options for {@link initializeWorld} / {@link World.create}.
@@ -70,12 +106,24 @@ import {
  * Defaults are tuned for VR; you can override camera frustum and default lighting via {@link WorldOptions.render}.
  */
 export type WorldOptions = {
-  /** Asset manifest to preload before the first frame. */
-  assets?: AssetManifest;
+  /**
+   * Asset manifest to preload before the first frame, or {@link AssetOptions} with the
+   * manifest and self-hosted Draco/KTX2 decoder paths.
+   */
+  assets?: AssetManifest | AssetOptions;
 
   /** Level to load after initialization. Accepts a GLXF URL string or an object with a `url` field. */
   level?: { url?: string } | string;
 
+  /**
+   * Keep manifest assets in Cache Storage across visits (see {@link PersistentCache}).
+   * @defaultValue false
+   */
+  persistentCache?: boolean | PersistentCacheOptions;
+
+  /** Show a {@link LoadingScreen} while `assets` and the initial `level` load. @defaultValue false */
+  loadingScreen?: boolean | LoadingScreenOptions;
+
   /** XR session options and offer behavior. */
   xr?: XROptions & { offer?: 'none' | 'once' | 'always' };
 
@@ -91,6 +139,16 @@ export type WorldOptions = {
     defaultLighting?: boolean;
     /** Enable stencil buffer. @defaultValue false */
     stencil?: boolean;
+    /** Renderer tone mapping, e.g. `ACESFilmicToneMapping`. @defaultValue NoToneMapping */
+    toneMapping?: ToneMapping;
+    /** Exposure used by tone mapping. @defaultValue 1 */
+    toneMappingExposure?: number;
+    /**
+     * Single‑pass stereo rendering in XR (OCULUS_multiview) where supported. Disable
+     * it for per‑eye {@link RenderLayers}, at the cost of a draw pass per eye.
+     * @defaultValue true
+     */
+    multiview?: boolean;
   };
 
   /** Opt‑in feature systems. */
@@ -113,9 +171,24 @@ export type WorldOptions = {
           kits?: Array<Record<string, unknown>> | Record<string, unknown>;
           preferredColorScheme?: ColorScheme;
         };
+    /** In‑app ECS inspector (toggle with the backquote key or left menu button). @defaultValue false */
+    inspector?: boolean;
   };
 };
 
+/**
+ * Options for {@link initializeHeadlessWorld} / {@link World.createHeadless}.
+ *
+ * @category Runtime
+ */
+export type HeadlessWorldOptions = Pick<
+  WorldOptions,
+  'assets' | 'level' | 'features'
+> & {
+  /** Camera frustum; the aspect ratio is fixed at 1. */
+  render?: Pick<NonNullable<WorldOptions['render']>, 'fov' | 'near' | 'far'>;
+};
+
 /**
  * Initialize a new WebXR world with all required systems and setup
  *
@@ -143,6 +216,7 @@ export function initializeWorld(
 
   // Extract configuration options
   const config = extractConfiguration(options);
+  const { manifest, loaderOptions } = resolveAssetOptions(options.assets);
 
   // Setup core rendering components
   const { camera, renderer, scene } = setupRendering(container, config);
@@ -162,10 +236,10 @@ export function initializeWorld(
   registerCoreSystems(world, config);
 
   // Initialize asset manager
-  initializeAssetManager(renderer, world);
+  initializeAssetManager(renderer, world, loaderOptions);
 
   // Register additional systems (UI + Audio on by default)
-  registerAdditionalSystems(world);
+  registerAdditionalSystems(world, config);
 
   // Register input and feature systems with explicit priorities
   registerFeatureSystems(world, config);
@@ -176,21 +250,92 @@ export function initializeWorld(
   // Setup resize handling
   setupResizeHandling(camera, renderer);
 
+  // Forward XR session lifecycle to world.events
+  setupSessionEvents(world, renderer);
+
   // Manage XR offer flow if configured
   if (config.xr.offer && config.xr.offer !== 'none') {
     manageOfferFlow(world, config.xr.offer);
   }
 
+  // Serve manifest assets from Cache Storage on repeat visits
+  if (options.persistentCache) {
+    void PersistentCache.enable(
+      options.persistentCache === true ? {} : options.persistentCache,
+    );
+  }
+
+  // Cover startup loading if requested
+  const loadingScreen = options.loadingScreen
+    ? new LoadingScreen(
+        world,
+        options.loadingScreen === true ? {} : options.loadingScreen,
+      )
+    : undefined;
+  loadingScreen?.show();
+
   // Return promise that resolves after asset preloading
-  return finalizeInitialization(world, options.assets).then(async (w) => {
-    // Load initial level or create empty level
+  return finalizeInitialization(world, manifest)
+    .then(async (w) => {
+      // Load initial level or create empty level
+      const levelUrl =
+        typeof options.level === 'string' ? options.level : options.level?.url;
+      if (levelUrl) {
+        await w.loadLevel(levelUrl);
+      } else {
+        await w.loadLevel();
+      }
+      return w;
+    })
+    .finally(() => loadingScreen?.dispose());
+}
+
+/**
+ * Initialize a world without a canvas, WebGL context or animation loop.
+ *
+ * @param options Assets, level and feature configuration.
+ * @returns Promise that resolves to the initialized {@link World} instance.
+ *
+ * @remarks
+ * - Registers the same core and feature systems as {@link initializeWorld} against a
+ *   null renderer, so systems can be unit-tested in Node (e.g. with vitest).
+ * - Nothing ticks on its own: drive the world with `world.update(delta, time)`.
+ * - Systems that need a GPU, DOM or Web Audio (Environment, Audio, ScreenSpace UI,
+ *   Camera) are skipped; their components are still registered. Default lighting
+ *   is off and locomotion runs without a worker unless configured otherwise.
+ *
+ * This function powers {@link World.createHeadless}.
+ */
+export function initializeHeadlessWorld(
+  options: HeadlessWorldOptions = {},
+): Promise<World> {
+  const world = createWorldInstance();
+  const config = extractConfiguration(options, true);
+  const { manifest, loaderOptions } = resolveAssetOptions(options.assets);
+
+  const camera = new PerspectiveCamera(
+    config.cameraFov,
+    1,
+    config.cameraNear,
+    config.cameraFar,
+  );
+  camera.position.set(0, 1.7, 0);
+  const renderer = createNullRenderer();
+  assignRenderingToWorld(world, camera, renderer, new Scene());
+
+  setupInputManagement(world);
+  registerCoreSystems(world, config);
+  initializeAssetManager(renderer, world, loaderOptions);
+  registerAdditionalSystems(world, config);
+  registerFeatureSystems(world, config);
+
+  return finalizeInitialization(world, manifest).then(async (w) => {
     const levelUrl =
       typeof options.level === 'string' ? options.level : options.level?.url;
-    if (levelUrl) {
-      await w.loadLevel(levelUrl);
-    } else {
-      await w.loadLevel();
-    }
+    const loaded = w.loadLevel(levelUrl);
+    // Step once so LevelSystem picks up the request; time stays at zero
+    w.update(0, 0);
+    await loaded;
     return w;
   });
 }
@@ -202,23 +347,36 @@ function createWorldInstance(): World {
   const world = new World();
   world
     .registerComponent(Transform)
+    .registerComponent(TransformInterpolation)
+    .registerComponent(WorldTransform)
+    .registerComponent(DestroyWithParent)
     .registerComponent(Visibility)
+    .registerComponent(RenderLayers)
     .registerComponent(LevelTag)
+    .registerComponent(LevelRoot)
     .registerSystem(TransformSystem)
-    .registerSystem(VisibilitySystem);
+    .registerSystem(SpatialIndexSystem)
+    .registerSystem(VisibilitySystem)
+    .registerSystem(RenderLayersSystem);
   return world;
 }
 
 /**
  * Extract and normalize configuration options
  */
-function extractConfiguration(options: WorldOptions) {
+function extractConfiguration(options: WorldOptions, headless = false) {
   return {
+    headless,
     cameraFov: options.render?.fov ?? 50,
     cameraNear: options.render?.near ?? 0.1,
     cameraFar: options.render?.far ?? 200,
-    defaultLighting: options.render?.defaultLighting ?? true,
+    defaultLighting: headless
+      ? false
+      : (options.render?.defaultLighting ?? true),
     stencil: options.render?.stencil ?? false,
+    toneMapping: options.render?.toneMapping ?? NoToneMapping,
+    toneMappingExposure: options.render?.toneMappingExposure ?? 1,
+    multiview: options.render?.multiview ?? true,
     xr: {
       sessionMode: options.xr?.sessionMode ?? SessionMode.ImmersiveVR,
       referenceSpace:
@@ -233,6 +391,7 @@ function extractConfiguration(options: WorldOptions) {
       sceneUnderstanding: options.features?.sceneUnderstanding ?? false,
       camera: options.features?.camera ?? false,
       spatialUI: options.features?.spatialUI ?? true,
+      inspector: options.features?.inspector ?? false,
     },
   } as const;
 }
@@ -255,12 +414,14 @@ function setupRendering(sceneContainer: HTMLDivElement, config: any) {
     antialias: true,
     alpha: config.xr.sessionMode === SessionMode.ImmersiveAR,
     // @ts-ignore
-    multiviewStereo: true,
+    multiviewStereo: config.multiview,
     stencil: config.stencil,
   });
   renderer.setPixelRatio(window.devicePixelRatio);
   renderer.setSize(window.innerWidth, window.innerHeight);
   renderer.outputColorSpace = SRGBColorSpace;
+  renderer.toneMapping = config.toneMapping;
+  renderer.toneMappingExposure = config.toneMappingExposure;
   renderer.xr.enabled = true;
   sceneContainer.appendChild(renderer.domElement);
 
@@ -282,6 +443,7 @@ function assignRenderingToWorld(
   world.scene = scene;
   world.camera = camera;
   world.renderer = renderer;
+  world.renderPipeline = new RenderPipeline(renderer, scene, camera);
   // Scene entity (wrap Scene in an entity for parenting convenience)
   world.sceneEntity = world.createTransformEntity(scene);
   // Create a default level root so activeLevel is always defined
@@ -394,26 +556,50 @@ function registerCoreSystems(
     .registerComponent(DomeGradient)
     .registerComponent(IBLTexture)
     .registerComponent(IBLGradient)
-    // Unified environment system (background + IBL)
-    .registerSystem(EnvironmentSystem)
-    .registerSystem(LevelSystem, {
-      configData: { defaultLighting: config.defaultLighting },
-    });
+    .registerComponent(AssetReference);
+  world.registerSystem(AssetReferenceSystem);
+  // Unified environment system (background + IBL); needs a GPU for PMREM
+  if (!config.headless) {
+    world.registerSystem(EnvironmentSystem);
+  }
+  world.registerSystem(LevelSystem, {
+    configData: { defaultLighting: config.defaultLighting },
+  });
 }
 
 /**
  * Initialize the asset manager
  */
-function initializeAssetManager(renderer: WebGLRenderer, world: World) {
-  AssetManager.init(renderer, world);
+function initializeAssetManager(
+  renderer: WebGLRenderer,
+  world: World,
+  options: Partial<AssetManagerOptions>,
+) {
+  AssetManager.init(renderer, world, options);
 }
 
 /**
  * Register optional systems based on configuration
  */
-function registerAdditionalSystems(world: World) {
-  // Audio system remains always-on
-  world.registerComponent(AudioSource).registerSystem(AudioSystem);
+function registerAdditionalSystems(
+  world: World,
+  config: ReturnType<typeof extractConfiguration>,
+) {
+  // Audio system remains always-on (Web Audio is unavailable headless)
+  world.registerComponent(AudioSource);
+  if (!config.headless) {
+    world.registerSystem(AudioSystem);
+  }
+
+  world
+    .registerComponent(AnimationPlayer)
+    .registerComponent(Tween)
+    .registerComponent(LevelOfDetail)
+    .registerComponent(Instanced)
+    .registerSystem(AnimationSystem)
+    .registerSystem(TweenSystem)
+    .registerSystem(LODSystem)
+    .registerSystem(InstancingSystem);
 }
 
 function registerFeatureSystems(
@@ -443,8 +629,10 @@ function registerFeatureSystems(
   if (locomotionEnabled) {
     const locOpts =
       typeof locomotion === 'object' && locomotion
-        ? { useWorker: locomotion.useWorker }
-        : undefined;
+        ? { useWorker: locomotion.useWorker ?? !config.headless }
+        : config.headless
+          ? { useWorker: false }
+          : undefined;
     world.registerSystem(LocomotionSystem, {
       priority: -5,
       configData: locOpts,
@@ -482,13 +670,18 @@ function registerFeatureSystems(
 
   // Camera system for video streaming
   if (cameraEnabled) {
-    world.registerComponent(CameraSource).registerSystem(CameraSystem);
+    world.registerComponent(CameraSource);
+    if (!config.headless) {
+      world.registerSystem(CameraSystem);
+    }
   }
 
   // Spatial UI systems (Panel, ScreenSpace, Follow)
   if (spatialUIEnabled) {
-    const forwardHtmlEvents =
-      typeof spatialUI === 'object' && spatialUI
+    // No canvas to forward DOM events from when headless
+    const forwardHtmlEvents = config.headless
+      ? false
+      : typeof spatialUI === 'object' && spatialUI
         ? spatialUI.forwardHtmlEvents
         : undefined;
     const kitsVal =
@@ -514,8 +707,19 @@ function registerFeatureSystems(
             : {}),
         },
       })
-      .registerSystem(ScreenSpaceUISystem)
       .registerSystem(FollowSystem);
+    // Screen-space layout measures CSS units with DOM elements
+    if (!config.headless) {
+      world.registerSystem(ScreenSpaceUISystem);
+    }
+  }
+
+  // The XR view is a PanelUI; PanelUISystem (spatialUI) drives its layout
+  if (config.features.inspector) {
+    world
+      .registerComponent(PanelUI)
+      .registerComponent(PanelDocument)
+      .registerSystem(InspectorSystem);
   }
 }
 
@@ -532,7 +736,7 @@ function setupRenderLoop(world: World, renderer: WebGLRenderer) {
       VisibilityState.NonImmersive) as VisibilityState;
     // Run ECS systems in priority order (InputSystem => LocomotionSystem => GrabSystem)
     world.update(delta, elapsedTime);
-    renderer.render(world.scene, world.camera);
+    world.renderPipeline.render(delta);
   };
 
   renderer.setAnimationLoop(render);
@@ -541,6 +745,21 @@ function setupRenderLoop(world: World, renderer: WebGLRenderer) {
   // render target and canvas sizing restoration internally.
 }
 
+/**
+ * Emit {@link XRSessionStarted}/{@link XRSessionEnded}, whichever path started the session
+ */
+function setupSessionEvents(world: World, renderer: WebGLRenderer) {
+  renderer.xr.addEventListener('sessionstart', () => {
+    const session = renderer.xr.getSession();
+    if (session) {
+      world.events.emit(XRSessionStarted, { session });
+    }
+  });
+  renderer.xr.addEventListener('sessionend', () => {
+    world.events.emit(XRSessionEnded);
+  });
+}
+
 /**
  * Setup window resize handling
  */
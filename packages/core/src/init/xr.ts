@@ -5,6 +5,7 @@
  * LICENSE file in the root directory of this source tree.
  */
 
+import { createEvent } from '../ecs/events.js';
 import type { World } from '../ecs/index.js';
 
 /** WebXR session modes supported by IWSDK. @category Runtime */
@@ -73,6 +74,14 @@ export type ReferenceSpaceSpec =
       fallbackOrder?: ReferenceSpaceType[];
     };
 
+/** Emitted on `world.events` when an XR session starts. @category Runtime */
+export const XRSessionStarted = createEvent<{ session: XRSession }>(
+  'XRSessionStarted',
+);
+
+/** Emitted on `world.events` when the XR session ends. @category Runtime */
+export const XRSessionEnded = createEvent('XRSessionEnded');
+
 /** Options for launching an XR session. @category Runtime */
 export type XROptions = {
   /** Session mode to request. @defaultValue SessionMode.ImmersiveVR */
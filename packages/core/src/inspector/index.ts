@@ -0,0 +1,11 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+export * from './inspector-model.js';
+export * from './inspector-overlay.js';
+export * from './inspector-panel.js';
+export * from './inspector-system.js';
@@ -0,0 +1,192 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { AnyComponent, AnySystem, Query, TypedArrayMap } from 'elics';
+import { Types, EntityName } from '../ecs/index.js';
+import type { Entity, World } from '../ecs/index.js';
+
+/** One component field as shown by the inspector. @category Inspector */
+export interface InspectorField {
+  key: string;
+  type: string;
+  /** Display text; vectors are comma separated. */
+  value: string;
+  /** False for `Types.Object` handles, which cannot be edited as text. */
+  editable: boolean;
+  /** Allowed values for `Types.Enum` fields. */
+  options?: string[];
+}
+
+/** One registered system as shown by the inspector. @category Inspector */
+export interface InspectorSystemRow {
+  system: AnySystem;
+  name: string;
+  priority: number;
+  paused: boolean;
+  /** Cost of the last frame in milliseconds, if profiling is on. */
+  ms?: number;
+}
+
+/** Snapshot rendered by the inspector views. @category Inspector */
+export interface InspectorState {
+  systems: InspectorSystemRow[];
+  entities: Array<{ entity: Entity; label: string }>;
+  /** Total entity count; `entities` may be truncated. */
+  entityCount: number;
+  selected?: {
+    entity: Entity;
+    label: string;
+    components: Array<{ component: AnyComponent; fields: InspectorField[] }>;
+  };
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(3);
+}
+
+/** Label for an entity: its {@link EntityName}, Object3D name or index. */
+export function describeEntity(entity: Entity): string {
+  const name = entity.hasComponent(EntityName)
+    ? entity.getValue(EntityName, 'name')
+    : entity.object3D?.name;
+  return name ? `#${entity.index} ${name}` : `#${entity.index}`;
+}
+
+/** Read every field of `component` on `entity` from the elics schema. */
+export function readFields(
+  entity: Entity,
+  component: AnyComponent,
+): InspectorField[] {
+  return Object.entries(component.schema).map(([key, field]) => {
+    const type = field.type as string;
+    let value: string;
+    if (TypedArrayMap[field.type].length > 1) {
+      const view = entity.getVectorView(
+        component,
+        key as never,
+      ) as ArrayLike<number>;
+      value = Array.from(view, formatNumber).join(', ');
+    } else if (type === Types.Entity) {
+      const ref = entity.getValue(component, key) as Entity | null;
+      value = ref ? String(ref.index) : '';
+    } else if (type === Types.Object) {
+      const object = entity.getValue(component, key);
+      value =
+        object === undefined || object === null
+          ? String(object)
+          : (object.constructor?.name ?? typeof object);
+    } else {
+      const raw = entity.getValue(component, key);
+      value = typeof raw === 'number' ? formatNumber(raw) : String(raw);
+    }
+    return {
+      key,
+      type,
+      value,
+      editable: type !== Types.Object,
+      ...(type === Types.Enum && 'enum' in field
+        ? { options: Object.values(field.enum as Record<string, string>) }
+        : {}),
+    };
+  });
+}
+
+/**
+ * Parse `text` for the field's type and write it to the entity.
+ *
+ * @remarks
+ * Scalars go through `entity.setValue` (which enforces enum and range checks); vector
+ * and color fields are written through their vector view, since elics rejects them in
+ * `setValue`. Entity references are given as an entity index, empty for none.
+ *
+ * @throws Error when `text` does not parse for the field type.
+ */
+export function writeField(
+  world: World,
+  entity: Entity,
+  component: AnyComponent,
+  key: string,
+  text: string,
+): void {
+  const field = component.schema[key];
+  const type = field.type as string;
+  const width = TypedArrayMap[field.type].length;
+  const parseNumber = (part: string) => {
+    const value = Number(part.trim());
+    if (part.trim() === '' || Number.isNaN(value)) {
+      throw new Error(`"${part}" is not a number`);
+    }
+    return value;
+  };
+
+  if (width > 1) {
+    const parts = text.split(',');
+    if (parts.length !== width) {
+      throw new Error(`${key} expects ${width} comma separated numbers`);
+    }
+    (entity.getVectorView(component, key as never) as Float32Array).set(
+      parts.map(parseNumber),
+    );
+    return;
+  }
+
+  let value: unknown;
+  switch (type) {
+    case Types.Boolean:
+      value = text.trim() === 'true';
+      break;
+    case Types.Int8:
+    case Types.Int16:
+    case Types.Float32:
+    case Types.Float64:
+      value = parseNumber(text);
+      break;
+    case Types.Entity: {
+      const index = text.trim();
+      value =
+        index === ''
+          ? null
+          : world.entityManager.getEntityByIndex(parseNumber(index));
+      break;
+    }
+    case Types.Object:
+      throw new Error(`${key} holds a runtime object and cannot be edited`);
+    default:
+      value = text;
+  }
+  entity.setValue(component, key as never, value as never);
+}
+
+/** Live entity listing backed by a query matching every entity with components. */
+export class InspectorEntityList {
+  private query: Query;
+
+  constructor(world: World) {
+    this.query = world.queryManager.registerQuery({ required: [] });
+  }
+
+  /** Active entities ordered by index. */
+  get entities(): Entity[] {
+    return [...this.query.entities]
+      .filter((entity) => entity.active)
+      .sort((a, b) => a.index - b.index) as Entity[];
+  }
+}
+
+/** Registered systems in update order with priority, pause state and cost. */
+export function readSystems(world: World): InspectorSystemRow[] {
+  return world.getSystems().map((system) => {
+    const ms = world.systemTimings.get(system);
+    return {
+      system,
+      name: system.constructor.name || '<anonymous>',
+      priority: system.priority,
+      paused: system.isPaused,
+      ...(ms !== undefined ? { ms } : {}),
+    };
+  });
+}
@@ -0,0 +1,237 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { AnyComponent, AnySystem } from 'elics';
+import type { Entity } from '../ecs/index.js';
+import type { InspectorField, InspectorState } from './inspector-model.js';
+
+/** Actions the inspector views forward to {@link InspectorSystem}. @category Inspector */
+export interface InspectorActions {
+  select(entity: Entity): void;
+  togglePaused(system: AnySystem): void;
+  /** Returns an error message when the value was rejected. */
+  edit(component: AnyComponent, key: string, text: string): string | undefined;
+}
+
+const ROOT_STYLE = [
+  'position:fixed',
+  'top:8px',
+  'right:8px',
+  'width:380px',
+  'max-height:calc(100vh - 16px)',
+  'overflow:auto',
+  'z-index:10000',
+  'padding:8px',
+  'border-radius:6px',
+  'background:rgba(20,20,24,0.92)',
+  'color:#e8e8e8',
+  'font:12px/1.4 monospace',
+].join(';');
+
+function element<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  style = '',
+  text?: string,
+): HTMLElementTagNameMap[K] {
+  const el = document.createElement(tag);
+  el.style.cssText = style;
+  if (text !== undefined) {
+    el.textContent = text;
+  }
+  return el;
+}
+
+/**
+ * Desktop DOM overlay for the ECS inspector.
+ *
+ * @remarks
+ * Re-renders on every {@link render} call unless a component field editor has focus,
+ * so typing a value is not interrupted by live updates. The entity filter keeps its
+ * focus and caret across renders.
+ *
+ * @category Inspector
+ */
+export class InspectorOverlay {
+  private root = element('div', ROOT_STYLE);
+  private search = element(
+    'input',
+    'width:100%;box-sizing:border-box;margin-bottom:4px',
+  );
+  /** Text and select inputs of the selected entity's fields. */
+  private editors = new WeakSet<Element>();
+  private list = element('div');
+
+  constructor(
+    private actions: InspectorActions,
+    parent: HTMLElement = document.body,
+  ) {
+    this.search.placeholder = 'Filter';
+    this.search.addEventListener('input', () => this.applyFilter());
+    parent.appendChild(this.root);
+  }
+
+  set visible(visible: boolean) {
+    this.root.style.display = visible ? 'block' : 'none';
+  }
+
+  render(state: InspectorState): void {
+    const active = document.activeElement;
+    if (active && this.editors.has(active)) {
+      return;
+    }
+    const filtering = active === this.search;
+    const { selectionStart, selectionEnd } = this.search;
+    this.editors = new WeakSet();
+    this.root.replaceChildren(
+      this.renderSystems(state),
+      this.renderEntities(state),
+      ...(state.selected ? [this.renderSelected(state.selected)] : []),
+    );
+    if (filtering) {
+      this.search.focus();
+      this.search.setSelectionRange(selectionStart, selectionEnd);
+    }
+  }
+
+  dispose(): void {
+    this.root.remove();
+  }
+
+  private section(title: string): HTMLElement {
+    const section = element('section', 'margin-bottom:8px');
+    section.appendChild(
+      element('div', 'font-weight:bold;color:#9cdcfe;margin:4px 0', title),
+    );
+    return section;
+  }
+
+  private renderSystems(state: InspectorState): HTMLElement {
+    const section = this.section('Systems');
+    const table = element('table', 'width:100%;border-collapse:collapse');
+    for (const row of state.systems) {
+      const tr = element('tr', row.paused ? 'opacity:0.5' : '');
+      const paused = element('input');
+      paused.type = 'checkbox';
+      paused.checked = !row.paused;
+      paused.title = 'Running';
+      paused.addEventListener('change', () =>
+        this.actions.togglePaused(row.system),
+      );
+      const toggle = element('td');
+      toggle.appendChild(paused);
+      tr.append(
+        toggle,
+        element('td', '', row.name),
+        element('td', 'text-align:right', String(row.priority)),
+        element(
+          'td',
+          'text-align:right',
+          row.ms !== undefined ? `${row.ms.toFixed(2)}ms` : '',
+        ),
+      );
+      table.appendChild(tr);
+    }
+    section.appendChild(table);
+    return section;
+  }
+
+  private renderEntities(state: InspectorState): HTMLElement {
+    const section = this.section(`Entities (${state.entityCount})`);
+    const list = element('div', 'max-height:200px;overflow:auto');
+    for (const { entity, label } of state.entities) {
+      const item = element(
+        'div',
+        `cursor:pointer;padding:1px 2px;${
+          entity === state.selected?.entity ? 'background:#264f78' : ''
+        }`,
+        label,
+      );
+      item.addEventListener('click', () => this.actions.select(entity));
+      list.appendChild(item);
+    }
+    this.list = list;
+    this.applyFilter();
+    section.append(this.search, list);
+    return section;
+  }
+
+  private applyFilter(): void {
+    const filter = this.search.value.toLowerCase();
+    for (const item of Array.from(this.list.children) as HTMLElement[]) {
+      item.style.display = item.textContent!.toLowerCase().includes(filter)
+        ? ''
+        : 'none';
+    }
+  }
+
+  private renderSelected(
+    selected: NonNullable<InspectorState['selected']>,
+  ): HTMLElement {
+    const section = this.section(selected.label);
+    for (const { component, fields } of selected.components) {
+      const box = element(
+        'div',
+        'border-top:1px solid #333;padding:4px 0;margin-top:2px',
+      );
+      box.appendChild(element('div', 'color:#dcdcaa', component.id));
+      for (const field of fields) {
+        box.appendChild(this.renderField(component, field));
+      }
+      section.appendChild(box);
+    }
+    return section;
+  }
+
+  private renderField(
+    component: AnyComponent,
+    field: InspectorField,
+  ): HTMLElement {
+    const row = element('label', 'display:flex;gap:6px;align-items:center');
+    row.appendChild(
+      element(
+        'span',
+        'flex:0 0 40%;overflow:hidden;text-overflow:ellipsis',
+        field.key,
+      ),
+    );
+    let input: HTMLInputElement | HTMLSelectElement;
+    if (field.options) {
+      input = element('select', 'flex:1');
+      for (const option of field.options) {
+        const opt = element('option', '', option);
+        opt.value = option;
+        input.appendChild(opt);
+      }
+      input.value = field.value;
+      this.editors.add(input);
+    } else if (field.type === 'Boolean') {
+      input = element('input');
+      input.type = 'checkbox';
+      input.checked = field.value === 'true';
+    } else {
+      input = element('input', 'flex:1;min-width:0');
+      input.value = field.value;
+      input.title = field.type;
+      this.editors.add(input);
+    }
+    input.disabled = !field.editable;
+    input.addEventListener('change', () => {
+      const text =
+        input instanceof HTMLInputElement && input.type === 'checkbox'
+          ? String(input.checked)
+          : input.value;
+      const error = this.actions.edit(component, field.key, text);
+      input.style.outline = error ? '1px solid #f44' : '';
+      input.title = error ?? field.type;
+      if (!error) {
+        input.blur();
+      }
+    });
+    row.appendChild(input);
+    return row;
+  }
+}
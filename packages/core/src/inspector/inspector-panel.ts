@@ -0,0 +1,135 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { Component, Container, Text } from '@pmndrs/uikit';
+import { UIKitDocument } from '../ui/index.js';
+import type { InspectorState } from './inspector-model.js';
+import type { InspectorActions } from './inspector-overlay.js';
+
+const TEXT = { fontSize: 14, color: '#e8e8e8' } as const;
+const HEADER = { fontSize: 16, color: '#9cdcfe', fontWeight: 'bold' } as const;
+
+/** Entities listed in XR; the panel has no text filter. */
+const MAX_XR_ENTITIES = 40;
+
+/**
+ * In‑XR view of the ECS inspector, built directly with `@pmndrs/uikit` components and
+ * wrapped in a {@link UIKitDocument} for use with {@link PanelUI}.
+ *
+ * @remarks
+ * - Rows are pointer targets: select an entity, or toggle a system between running
+ *   and paused. Boolean fields toggle on click.
+ * - Text entry is left to the desktop overlay; other fields are read-only in XR.
+ *
+ * @category Inspector
+ */
+export class InspectorPanel {
+  readonly document: UIKitDocument;
+  private root: Container;
+  private rows: Component[] = [];
+
+  constructor(private actions: InspectorActions) {
+    this.root = new Container({
+      flexDirection: 'row',
+      gap: 16,
+      padding: 16,
+      width: 1000,
+      height: 700,
+      borderRadius: 16,
+      backgroundColor: '#141418',
+      opacity: 0.92,
+    });
+    this.document = new UIKitDocument(this.root);
+  }
+
+  render(state: InspectorState): void {
+    for (const row of this.rows) {
+      row.removeFromParent();
+      row.dispose();
+    }
+    this.rows = [
+      this.renderSystems(state),
+      this.renderEntities(state),
+      this.renderSelected(state),
+    ];
+    this.rows.forEach((row) => this.root.add(row));
+  }
+
+  private column(title: string): Container {
+    const column = new Container({
+      flexDirection: 'column',
+      flexGrow: 1,
+      flexBasis: 0,
+      gap: 4,
+      overflow: 'scroll',
+    });
+    column.add(new Text({ ...HEADER, text: title }));
+    return column;
+  }
+
+  private renderSystems(state: InspectorState): Container {
+    const column = this.column('Systems');
+    for (const row of state.systems) {
+      const cost = row.ms !== undefined ? ` ${row.ms.toFixed(2)}ms` : '';
+      column.add(
+        new Text({
+          ...TEXT,
+          text: `${row.paused ? '❚❚' : '▶'} ${row.name} (${row.priority})${cost}`,
+          opacity: row.paused ? 0.5 : 1,
+          cursor: 'pointer',
+          onClick: () => this.actions.togglePaused(row.system),
+        }),
+      );
+    }
+    return column;
+  }
+
+  private renderEntities(state: InspectorState): Container {
+    const column = this.column(`Entities (${state.entityCount})`);
+    for (const { entity, label } of state.entities.slice(0, MAX_XR_ENTITIES)) {
+      column.add(
+        new Text({
+          ...TEXT,
+          text: label,
+          cursor: 'pointer',
+          backgroundColor:
+            entity === state.selected?.entity ? '#264f78' : undefined,
+          onClick: () => this.actions.select(entity),
+        }),
+      );
+    }
+    return column;
+  }
+
+  private renderSelected(state: InspectorState): Container {
+    const column = this.column(state.selected?.label ?? 'No selection');
+    for (const { component, fields } of state.selected?.components ?? []) {
+      column.add(new Text({ ...TEXT, color: '#dcdcaa', text: component.id }));
+      for (const field of fields) {
+        const toggle = field.type === 'Boolean' && field.editable;
+        column.add(
+          new Text({
+            ...TEXT,
+            text: `  ${field.key}: ${field.value}`,
+            ...(toggle
+              ? {
+                  cursor: 'pointer',
+                  onClick: () =>
+                    this.actions.edit(
+                      component,
+                      field.key,
+                      String(field.value !== 'true'),
+                    ),
+                }
+              : {}),
+          }),
+        );
+      }
+    }
+    return column;
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { InputComponent } from '@iwsdk/xr-input';
+import { Types, createSystem } from '../ecs/index.js';
+import type { Entity } from '../ecs/index.js';
+import { Vector3 } from '../runtime/index.js';
+import { PanelDocument, PanelUI } from '../ui/index.js';
+import {
+  InspectorEntityList,
+  InspectorState,
+  describeEntity,
+  readFields,
+  readSystems,
+  writeField,
+} from './inspector-model.js';
+import { InspectorActions, InspectorOverlay } from './inspector-overlay.js';
+import { InspectorPanel } from './inspector-panel.js';
+
+/** Entities listed by the views; the count shows the full total. */
+const MAX_LISTED_ENTITIES = 500;
+
+/**
+ * In‑app ECS inspector: live entities, their component values and the registered
+ * systems with priority, pause state and per‑frame cost.
+ *
+ * @remarks
+ * - Toggle with `toggleKey` (desktop) or `toggleButton` on the left controller.
+ * - Shown as a DOM overlay on desktop and as a {@link PanelUI} in front of the
+ *   player while an XR session is presenting.
+ * - Edits go through `entity.setValue` (vector and color fields through their vector
+ *   view); toggling a system flips its `isPaused`.
+ * - Turns on {@link World.profileSystems} while visible.
+ *
+ * @category Inspector
+ */
+export class InspectorSystem extends createSystem(
+  {},
+  {
+    /** Whether the inspector is shown. */
+    visible: { type: Types.Boolean, default: false },
+    /** `KeyboardEvent.code` toggling the inspector on desktop. */
+    toggleKey: { type: Types.String, default: 'Backquote' },
+    /** Left controller button toggling the inspector in XR. */
+    toggleButton: { type: Types.String, default: InputComponent.Menu },
+    /** Seconds between view refreshes. */
+    refreshInterval: { type: Types.Float32, default: 0.25 },
+  },
+) {
+  private entityList!: InspectorEntityList;
+  private overlay?: InspectorOverlay;
+  private panel?: InspectorPanel;
+  private panelEntity?: Entity;
+  private selected?: Entity;
+  private sinceRefresh = Infinity;
+  private vec3 = new Vector3();
+
+  private actions: InspectorActions = {
+    select: (entity) => {
+      this.selected = entity;
+      this.refresh();
+    },
+    togglePaused: (system) => {
+      system.isPaused = !system.isPaused;
+      this.refresh();
+    },
+    edit: (component, key, text) => {
+      if (!this.selected) {
+        return 'No entity selected';
+      }
+      try {
+        writeField(this.world, this.selected, component, key, text);
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+      this.refresh();
+      return undefined;
+    },
+  };
+
+  init(): void {
+    this.entityList = new InspectorEntityList(this.world);
+
+    if (typeof document !== 'undefined') {
+      const onKeyDown = (event: KeyboardEvent) => {
+        if (
+          event.code === this.config.toggleKey.value &&
+          !(event.target instanceof HTMLInputElement)
+        ) {
+          this.config.visible.value = !this.config.visible.value;
+        }
+      };
+      window.addEventListener('keydown', onKeyDown);
+      this.cleanupFuncs.push(() =>
+        window.removeEventListener('keydown', onKeyDown),
+      );
+    }
+
+    this.cleanupFuncs.push(
+      this.config.visible.subscribe((visible) => {
+        this.world.profileSystems = visible;
+        this.sinceRefresh = Infinity;
+        if (!visible) {
+          this.showViews(false, false);
+        }
+      }),
+    );
+  }
+
+  update(delta: number): void {
+    if (
+      this.input.gamepads.left?.getButtonDown(
+        this.config.toggleButton.value as InputComponent,
+      )
+    ) {
+      this.config.visible.value = !this.config.visible.value;
+    }
+    if (!this.config.visible.value) {
+      return;
+    }
+
+    const inXR = this.renderer.xr.isPresenting;
+    this.showViews(!inXR, inXR);
+
+    this.sinceRefresh += delta;
+    if (this.sinceRefresh >= (this.config.refreshInterval.value as number)) {
+      this.refresh();
+    }
+  }
+
+  destroy(): void {
+    super.destroy();
+    this.world.profileSystems = false;
+    this.overlay?.dispose();
+    this.panelEntity?.destroy();
+  }
+
+  private showViews(overlay: boolean, panel: boolean): void {
+    if (overlay && !this.overlay && typeof document !== 'undefined') {
+      this.overlay = new InspectorOverlay(this.actions);
+    }
+    if (this.overlay) {
+      this.overlay.visible = overlay;
+    }
+
+    if (panel && !this.panelEntity) {
+      this.panel = new InspectorPanel(this.actions);
+      this.panelEntity = this.world.createTransformEntity(undefined, {
+        persistent: true,
+      });
+      this.panelEntity.object3D!.add(this.panel.document);
+      // Adding the document first skips PanelUISystem's config loading
+      this.panelEntity.addComponent(PanelDocument, {
+        document: this.panel.document,
+      });
+      this.panelEntity.addComponent(PanelUI, { maxWidth: 1, maxHeight: 0.7 });
+      this.placePanel();
+    } else if (panel && !this.panelEntity!.object3D!.visible) {
+      this.placePanel();
+    }
+    if (this.panelEntity) {
+      this.panelEntity.object3D!.visible = panel;
+    }
+  }
+
+  /** Place the panel 1m in front of the player's head, facing it. */
+  private placePanel(): void {
+    const object = this.panelEntity!.object3D!;
+    const head = this.player.head;
+    head.getWorldPosition(object.position);
+    head.getWorldDirection(this.vec3).negate().setY(0).normalize();
+    object.position.addScaledVector(this.vec3, 1);
+    head.getWorldPosition(this.vec3).setY(object.position.y);
+    object.lookAt(this.vec3);
+  }
+
+  private refresh(): void {
+    this.sinceRefresh = 0;
+    if (this.selected && !this.selected.active) {
+      this.selected = undefined;
+    }
+    const entities = this.entityList.entities;
+    const state: InspectorState = {
+      systems: readSystems(this.world),
+      entities: entities
+        .slice(0, MAX_LISTED_ENTITIES)
+        .map((entity) => ({ entity, label: describeEntity(entity) })),
+      entityCount: entities.length,
+    };
+    if (this.selected) {
+      const entity = this.selected;
+      state.selected = {
+        entity,
+        label: describeEntity(entity),
+        components: entity.getComponents().map((component) => ({
+          component,
+          fields: readFields(entity, component),
+        })),
+      };
+    }
+    if (this.overlay && !this.renderer.xr.isPresenting) {
+      this.overlay.render(state);
+    }
+    if (this.panel && this.panelEntity?.object3D?.visible) {
+      this.panel.render(state);
+    }
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { createComponent } from '../ecs/index.js';
+
+/**
+ * Renders the entity's meshes through `InstancedMesh`es shared with every other
+ * instanced mesh using the same geometry and material.
+ *
+ * @remarks
+ * - The {@link InstancingSystem} batches meshes under the entity's Object3D, skipping
+ *   child entities (they can be instanced on their own), skinned and morphed meshes.
+ * - Source meshes stay in the scene graph with a hidden material, so `Transform`,
+ *   `Visibility` and `Interactable` raycasting keep working per entity.
+ * - Per‑entity material changes are not rendered while instanced; remove the
+ *   component to render the entity's own meshes again.
+ * - GLXF levels can add it to nodes whose asset is repeated, see
+ *   {@link GLXFImporter.instancingThreshold}.
+ *
+ * @category Scene
+ */
+export const Instanced = createComponent(
+  'Instanced',
+  {},
+  'Batches meshes sharing geometry and material into InstancedMeshes',
+);
@@ -0,0 +1,290 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { Entity, createSystem } from '../ecs/index.js';
+import { LevelOfDetail } from '../lod/index.js';
+import {
+  BufferGeometry,
+  InstancedMesh,
+  Material,
+  Matrix4,
+  Mesh,
+  MeshBasicMaterial,
+  Object3D,
+  Side,
+  SkinnedMesh,
+} from '../runtime/index.js';
+import { Transform } from '../transform/index.js';
+import { Tween, TweenProperty, TweenStep } from '../tween/index.js';
+import { Instanced } from './instanced.js';
+
+interface Batch {
+  key: string;
+  instanced: InstancedMesh;
+  members: Mesh[];
+  dirty: boolean;
+}
+
+interface Instance {
+  batch: Batch;
+  material: Material | Material[];
+}
+
+const INITIAL_CAPACITY = 16;
+const hidden = new Matrix4().makeScale(0, 0, 0);
+const matrix = new Matrix4();
+/** Layers the WebXR eye cameras add to the camera's own. */
+const EYE_LAYERS = (1 << 1) | (1 << 2);
+
+/** Invisible stand-ins keep source meshes raycastable without rendering them. */
+const hiddenMaterials = new Map<Side, MeshBasicMaterial>();
+
+function getHiddenMaterial(side: Side): MeshBasicMaterial {
+  let material = hiddenMaterials.get(side);
+  if (!material) {
+    material = new MeshBasicMaterial({ visible: false, side });
+    hiddenMaterials.set(side, material);
+  }
+  return material;
+}
+
+/** Static meshes whose vertices the instanced batch can reproduce. */
+function isInstanceable(object: Object3D): object is Mesh {
+  const mesh = object as Mesh;
+  return (
+    mesh.isMesh === true &&
+    (mesh as SkinnedMesh).isSkinnedMesh !== true &&
+    (mesh as InstancedMesh).isInstancedMesh !== true &&
+    !mesh.morphTargetInfluences?.length
+  );
+}
+
+/** Meshes share a batch when they draw alike: same geometry, materials and settings. */
+function batchKey(mesh: Mesh) {
+  const { geometry, material, castShadow, receiveShadow, renderOrder } = mesh;
+  const materials = Array.isArray(material) ? material : [material];
+  return [
+    (geometry as BufferGeometry).uuid,
+    materials.map((m) => m.uuid).join(','),
+    castShadow,
+    receiveShadow,
+    renderOrder,
+  ].join(':');
+}
+
+/**
+ * Batches meshes of {@link Instanced} entities into shared `InstancedMesh`es.
+ *
+ * @remarks
+ * - One batch per geometry, material, shadow and render order combination, added to
+ *   the scene root and grown by doubling its capacity.
+ * - Each frame, instance matrices follow the source meshes' world matrices; hidden
+ *   sources (including hidden ancestors or a detached subtree) and sources on no
+ *   layer the camera renders (e.g. through {@link RenderLayers}) collapse to zero
+ *   scale. Per-eye layers are not supported: instances show in both eyes.
+ * - Sources draw through the batch's shared material, so material effects such as
+ *   {@link Tween} opacity and color steps or {@link LevelOfDetail} crossfades have no
+ *   effect; the system warns when it sees them.
+ * - Meshes are collected when the component is added; meshes added to the subtree
+ *   later are not instanced.
+ *
+ * @category Scene
+ */
+export class InstancingSystem extends createSystem({
+  instanced: { required: [Instanced, Transform] },
+  tweened: { required: [Instanced, Tween] },
+  lods: { required: [Instanced, LevelOfDetail] },
+}) {
+  private batches = new Map<string, Batch>();
+  private instances = new Map<Mesh, Instance>();
+  private sources = new Map<Entity, Mesh[]>();
+
+  init(): void {
+    this.queries.instanced.subscribe('qualify', (entity) => {
+      this.addEntity(entity);
+    });
+    this.queries.instanced.subscribe('disqualify', (entity) => {
+      this.removeEntity(entity);
+    });
+    this.queries.tweened.subscribe('qualify', (entity) => {
+      const steps = entity.getValue(Tween, 'steps') as TweenStep[];
+      if (
+        steps.some(
+          ({ property }) =>
+            property === TweenProperty.Opacity ||
+            property === TweenProperty.Color,
+        )
+      ) {
+        this.warnMaterialEffect(entity, 'Tween opacity and color steps');
+      }
+    });
+    this.queries.lods.subscribe('qualify', (entity) => {
+      if (entity.getValue(LevelOfDetail, 'crossfade')! > 0) {
+        this.warnMaterialEffect(entity, 'LevelOfDetail crossfades');
+      }
+    });
+  }
+
+  update(): void {
+    let cameraLayers = this.world.camera.layers.mask;
+    if (this.world.renderer.xr.isPresenting) {
+      cameraLayers |= EYE_LAYERS;
+    }
+    for (const batch of this.batches.values()) {
+      const array = batch.instanced.instanceMatrix.array;
+      batch.members.forEach((mesh, index) => {
+        if ((mesh.layers.mask & cameraLayers) !== 0 && this.isRendered(mesh)) {
+          mesh.updateWorldMatrix(true, false);
+          matrix.copy(mesh.matrixWorld);
+        } else {
+          matrix.copy(hidden);
+        }
+        const offset = index * 16;
+        const elements = matrix.elements;
+        for (let i = 0; i < 16; i++) {
+          if (array[offset + i] !== Math.fround(elements[i])) {
+            matrix.toArray(array, offset);
+            batch.dirty = true;
+            break;
+          }
+        }
+      });
+      if (batch.dirty) {
+        batch.dirty = false;
+        batch.instanced.count = batch.members.length;
+        batch.instanced.instanceMatrix.needsUpdate = true;
+        batch.instanced.computeBoundingSphere();
+      }
+    }
+  }
+
+  private addEntity(entity: Entity): void {
+    const root = entity.object3D;
+    if (!root) {
+      return;
+    }
+    const meshes: Mesh[] = [];
+    const visit = (object: Object3D) => {
+      if (object !== root && object.entityIdx !== undefined) {
+        return;
+      }
+      if (isInstanceable(object) && !this.instances.has(object)) {
+        meshes.push(object);
+      }
+      object.children.forEach(visit);
+    };
+    visit(root);
+
+    for (const mesh of meshes) {
+      const batch = this.getBatch(mesh);
+      this.instances.set(mesh, { batch, material: mesh.material });
+      this.reserve(batch, batch.members.length + 1);
+      batch.members.push(mesh);
+      batch.dirty = true;
+      const side = (
+        Array.isArray(mesh.material) ? mesh.material[0] : mesh.material
+      ).side;
+      mesh.material = getHiddenMaterial(side);
+    }
+    this.sources.set(entity, meshes);
+  }
+
+  private removeEntity(entity: Entity): void {
+    for (const mesh of this.sources.get(entity) ?? []) {
+      const instance = this.instances.get(mesh)!;
+      this.instances.delete(mesh);
+      mesh.material = instance.material;
+
+      // Swap-remove keeps the batch dense
+      const { batch } = instance;
+      const index = batch.members.indexOf(mesh);
+      const last = batch.members.pop()!;
+      if (last !== mesh) {
+        batch.members[index] = last;
+      }
+      batch.dirty = true;
+      if (batch.members.length === 0) {
+        batch.instanced.removeFromParent();
+        batch.instanced.dispose();
+        this.batches.delete(batch.key);
+      }
+    }
+    this.sources.delete(entity);
+  }
+
+  private getBatch(mesh: Mesh): Batch {
+    const key = batchKey(mesh);
+    let batch = this.batches.get(key);
+    if (!batch) {
+      batch = {
+        key,
+        instanced: this.createInstancedMesh(mesh, INITIAL_CAPACITY),
+        members: [],
+        dirty: true,
+      };
+      this.world.scene.add(batch.instanced);
+      this.batches.set(key, batch);
+    }
+    return batch;
+  }
+
+  private createInstancedMesh(source: Mesh, capacity: number): InstancedMesh {
+    const instanced = new InstancedMesh(
+      source.geometry,
+      source.material,
+      capacity,
+    );
+    instanced.name = `Instanced:${source.geometry.name || source.name}`;
+    instanced.count = 0;
+    instanced.castShadow = source.castShadow;
+    instanced.receiveShadow = source.receiveShadow;
+    instanced.renderOrder = source.renderOrder;
+    // Instances on layers the camera skips collapse instead
+    instanced.layers.enableAll();
+    instanced.matrixAutoUpdate = false;
+    // Pointer rays hit the per-entity source meshes instead
+    instanced.raycast = () => {};
+    return instanced;
+  }
+
+  private reserve(batch: Batch, size: number): void {
+    const current = batch.instanced;
+    const capacity = current.instanceMatrix.count;
+    if (size <= capacity) {
+      return;
+    }
+    const grown = this.createInstancedMesh(batch.members[0], capacity * 2);
+    // Source meshes use hidden materials, restore the batch's own
+    grown.material = current.material;
+    grown.instanceMatrix.array.set(current.instanceMatrix.array);
+    grown.count = current.count;
+    current.parent?.add(grown);
+    current.removeFromParent();
+    current.dispose();
+    batch.instanced = grown;
+  }
+
+  private warnMaterialEffect(entity: Entity, effect: string): void {
+    console.warn(
+      `[InstancingSystem] ${effect} have no effect on Instanced entity ${entity.index}: its meshes draw with a shared batch material`,
+    );
+  }
+
+  /** Whether the mesh and all its ancestors are visible within the scene. */
+  private isRendered(mesh: Object3D): boolean {
+    let object: Object3D | null = mesh;
+    for (; object; object = object.parent) {
+      if (!object.visible) {
+        return false;
+      }
+      if (object === this.world.scene) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
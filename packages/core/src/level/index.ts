@@ -6,6 +6,7 @@
  */
 
 export * from './level-system.js';
+export * from './level-transition.js';
 export * from './level-tag.js';
 export * from './level-glxf-importer.js';
 export * from './level-entity-creator.js';
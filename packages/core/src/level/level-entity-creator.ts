@@ -6,9 +6,10 @@
  */
 
 import { AnySchema, Component, ComponentRegistry } from 'elics';
-import { Types, Entity } from '../ecs/index.js';
+import { Types, Entity, EntityId, EntityName } from '../ecs/index.js';
 import type { World } from '../ecs/index.js';
 import { Object3D } from '../runtime/index.js';
+import { DestroyWithParent } from '../transform/index.js';
 import { PanelUI } from '../ui/index.js';
 
 /** Component id prefix expected in GLXF extras. */
@@ -20,6 +21,10 @@ const PACKAGE_PREFIX = 'com.iwsdk.components.';
  *
  * @remarks
  * - Only nodes present in the GLXF `nodes` array are converted to entities.
+ * - Node names and `meta_spatial.entity_id` are kept as {@link EntityName} and
+ *   {@link EntityId}, see {@link World.findEntityByName} / {@link World.findEntityById}.
+ * - Nested node entities are tagged {@link DestroyWithParent}, so destroying a node
+ *   entity tears down its whole GLXF subtree.
  * - Component ids are matched against the registry by `com.iwsdk.components.<id>`.
  * - Panel UI extras are mapped to {@link PanelUI} with JSON config paths.
  *
@@ -31,6 +36,7 @@ export class EntityCreator {
     nodes: Object3D[],
     parentEntity: Entity,
     world: World,
+    nested = false,
   ): void {
     const inNodes = nodes.includes(object);
     if (!inNodes) {
@@ -55,6 +61,16 @@ export class EntityCreator {
     }
 
     const entity = world.createTransformEntity(object, parentEntity);
+    if (nested) {
+      entity.addComponent(DestroyWithParent);
+    }
+    if (object.name) {
+      entity.addComponent(EntityName, { name: object.name });
+    }
+    const entityId = object.userData?.meta_spatial?.entity_id;
+    if (entityId !== undefined) {
+      entity.addComponent(EntityId, { id: String(entityId) });
+    }
 
     if (object.userData?.meta_spatial?.components) {
       this.applyComponents(
@@ -65,11 +81,12 @@ export class EntityCreator {
     }
 
     object.children.forEach((child: Object3D) => {
-      this.createEntitiesFromObject3D(child, nodes, entity, world);
+      this.createEntitiesFromObject3D(child, nodes, entity, world, true);
     });
   }
 
-  private static applyComponents(
+  /** Apply GLXF `meta_spatial.components` extras to an entity. */
+  static applyComponents(
     entity: Entity,
     glxfComponents: Record<string, any>,
     world: World,
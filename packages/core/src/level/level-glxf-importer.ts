@@ -8,6 +8,8 @@
 import { GLXF, GLXFLoader } from '@iwsdk/glxf';
 import { AssetManager } from '../asset/index.js';
 import type { Entity, World } from '../ecs/index.js';
+import { Instanced } from '../instancing/index.js';
+import { Mesh, Object3D } from '../runtime/index.js';
 import { EntityCreator } from './level-entity-creator.js';
 
 /**
@@ -15,20 +17,49 @@ import { EntityCreator } from './level-entity-creator.js';
  * based on `meta_spatial.components` extras.
  *
  * @remarks
- * - Uses the {@link AssetManager} GLTF loader so previously cached assets are reused.
+ * - Uses the {@link AssetManager} GLTF loader so previously cached assets are reused,
+ *   and resolves with the GLTF URLs so callers can retain them for the level.
  * - Each top‑level child of the GLXF active scene is attached to the current level root.
  * - Component names are resolved against the registry as `com.iwsdk.components.<id>`.
+ * - Opt in to instancing with {@link GLXFImporter.instancingThreshold}: nodes whose
+ *   asset appears at least that many times get {@link Instanced}, so repeated props
+ *   render as one draw call per mesh.
  *
  * @category Scene
  */
 export class GLXFImporter {
+  /**
+   * Minimum copies of an asset before its nodes are instanced; `0` disables it.
+   *
+   * @remarks
+   * Instanced nodes render through shared batches, so per‑entity material changes
+   * (tweened opacity or color, LOD crossfades, custom shaders) no longer show on them.
+   * Enable it for levels with many static repeated props.
+   *
+   * @defaultValue 0
+   */
+  static instancingThreshold = 0;
+
+  /**
+   * @param onAssets Called with the GLTF URLs of the composition once the GLXF is
+   * parsed and their loads have started, before any of them finishes loading.
+   */
   static async load(
     world: World,
     url: string,
     parentEntity: Entity,
-  ): Promise<void> {
+    onAssets?: (urls: string[]) => void,
+  ): Promise<string[]> {
+    const assetUrls: string[] = [];
     const loader = new GLXFLoader(AssetManager.loadingManager).setGLTFLoader({
-      loadAsync: (u: string) => AssetManager.loadGLTF(u),
+      loadAsync: (u: string) => {
+        // The loader requests every asset synchronously while parsing
+        if (assetUrls.length === 0 && onAssets) {
+          queueMicrotask(() => onAssets(assetUrls));
+        }
+        assetUrls.push(u);
+        return AssetManager.loadGLTF(u);
+      },
     });
 
     const glxf: GLXF = await loader.loadAsync(url);
@@ -46,5 +77,58 @@ export class GLXFImporter {
         world,
       );
     });
+
+    this.instanceRepeatedAssets(world, glxf.nodes);
+    return assetUrls;
+  }
+
+  /**
+   * Tag node entities cloned from the same asset with {@link Instanced}. Clones share
+   * geometry, so nodes are grouped by the geometries they own.
+   */
+  private static instanceRepeatedAssets(world: World, nodes: Object3D[]) {
+    if (this.instancingThreshold <= 0) {
+      return;
+    }
+    const nodeSet = new Set(nodes);
+    const groups = new Map<string, Object3D[]>();
+    for (const node of nodes) {
+      if (node.entityIdx === undefined) {
+        continue;
+      }
+      const geometries: string[] = [];
+      const visit = (object: Object3D) => {
+        if (object !== node && nodeSet.has(object)) {
+          return;
+        }
+        const mesh = object as Mesh;
+        if (mesh.isMesh) {
+          geometries.push(mesh.geometry.uuid);
+        }
+        object.children.forEach(visit);
+      };
+      visit(node);
+      if (geometries.length === 0) {
+        continue;
+      }
+      const key = geometries.join(',');
+      let group = groups.get(key);
+      if (!group) {
+        group = [];
+        groups.set(key, group);
+      }
+      group.push(node);
+    }
+
+    for (const group of groups.values()) {
+      if (group.length < this.instancingThreshold) {
+        continue;
+      }
+      for (const node of group) {
+        world.entityManager
+          .getEntityByIndex(node.entityIdx!)
+          ?.addComponent(Instanced);
+      }
+    }
   }
 }
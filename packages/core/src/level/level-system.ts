@@ -6,7 +6,8 @@
  */
 
 import { signal } from '@preact/signals-core';
-import { Types, createSystem } from '../ecs/index.js';
+import { AssetManager, CacheManager } from '../asset/index.js';
+import { Types, createEvent, createSystem } from '../ecs/index.js';
 import type { Entity } from '../ecs/index.js';
 import {
   DomeGradient,
@@ -17,6 +18,18 @@ import {
 import { GLXFImporter } from './level-glxf-importer.js';
 import { LevelRoot } from './level-root.js';
 import { LevelTag } from './level-tag.js';
+import { LevelTransition } from './level-transition.js';
+
+/**
+ * Emitted by {@link LevelSystem} once a level requested via {@link World.loadLevel}
+ * finished loading (or failed to, in which case `error` is set).
+ * @category Scene
+ */
+export const LevelLoaded = createEvent<{
+  url: string;
+  root: Entity;
+  error?: unknown;
+}>('LevelLoaded');
 
 /**
  * Manages the active level root, enforces identity transforms, and loads new levels on request.
@@ -24,6 +37,13 @@ import { LevelTag } from './level-tag.js';
  * @remarks
  * - Destroys all {@link LevelTag}-tagged entities on level change.
  * - Loads GLXF via {@link GLXFImporter} when a URL is requested through {@link World.loadLevel}.
+ * - Emits {@link LevelLoaded} when loading completes.
+ * - Retains the level's GLTFs and environment textures in the asset cache. They are
+ *   released as soon as the next level's GLXF lists its GLTFs, before those load, so
+ *   only assets shared by both levels stay pinned while the new one loads.
+ * - With a transition requested, fades out before removing the current level, shows
+ *   a loading environment and fades in once the GLXF and the level's environment
+ *   textures have loaded; `loadLevel` resolves after the fade in.
  * @category Scene
  */
 export class LevelSystem extends createSystem(
@@ -37,6 +57,9 @@ export class LevelSystem extends createSystem(
   },
 ) {
   private loading = false;
+  private transition?: LevelTransition;
+  /** Asset URLs retained for the active level. */
+  private levelAssets: string[] = [];
 
   init(): void {
     // Ensure there is always an active level signal and a root entity
@@ -55,7 +78,9 @@ export class LevelSystem extends createSystem(
     }
   }
 
-  update(): void {
+  update(delta: number): void {
+    this.transition?.update(delta);
+
     // Enforce identity transform on the level root every frame
     const root = this.world.activeLevel!.value!;
     const obj = root.object3D!;
@@ -84,14 +109,54 @@ export class LevelSystem extends createSystem(
     if (pending === undefined) {
       return;
     }
-    this.startLevelChange(pending);
+    void this.startLevelChange(pending);
   }
 
-  private startLevelChange(url: string): void {
+  private async startLevelChange(url: string): Promise<void> {
     this.loading = true;
     // Unset request now to avoid re-entry during async flow
     this.world.requestedLevelUrl = undefined;
+    const transitionOptions = this.world.requestedLevelTransition;
+    this.world.requestedLevelTransition = undefined;
+    const resolveLoad = this.world._resolveLevelLoad;
+    this.world._resolveLevelLoad = undefined;
+
+    let transition: LevelTransition | undefined;
+    try {
+      transition = transitionOptions
+        ? new LevelTransition(
+            this.world,
+            transitionOptions === true ? {} : transitionOptions,
+          )
+        : undefined;
+      this.transition = transition;
+      if (transition) {
+        await transition.fadeOut();
+      }
+      await this.swapLevel(url, !!transition);
+      if (transition) {
+        await transition.fadeIn();
+      }
+    } catch (err) {
+      console.error('[LevelSystem] Level change failed', err);
+    } finally {
+      // Never leave the world faded out or stuck refusing level requests
+      if (transition) {
+        transition.dispose();
+        if (this.transition === transition) {
+          this.transition = undefined;
+        }
+      }
+      this.loading = false;
+      resolveLoad?.();
+    }
+  }
 
+  /** Replace the level content with `url` and emit {@link LevelLoaded}. */
+  private async swapLevel(
+    url: string,
+    preloadEnvironment: boolean,
+  ): Promise<void> {
     // Destroy all level-tagged entities (current level content)
     for (const ent of this.queries.levelEntities.entities) {
       try {
@@ -107,33 +172,95 @@ export class LevelSystem extends createSystem(
     newRoot.addComponent(LevelRoot);
     this.world.activeLevel!.value = newRoot;
 
-    const doLoad = url
-      ? GLXFImporter.load(this.world, url, newRoot)
-      : Promise.resolve();
-    void doLoad
-      .catch((err) => console.error('[LevelSystem] Failed to load level', err))
-      .finally(() => {
-        this.loading = false;
-        // Attach default lighting if requested and the level root has no dome/IBL
-        try {
-          if (this.config.defaultLighting.value) {
-            const hasDome =
-              newRoot.hasComponent(DomeTexture) ||
-              newRoot.hasComponent(DomeGradient);
-            const hasIBL =
-              newRoot.hasComponent(IBLTexture) ||
-              newRoot.hasComponent(IBLGradient);
-            if (!hasDome && !hasIBL) {
-              newRoot.addComponent(DomeGradient).addComponent(IBLGradient);
-            }
-          }
-        } catch (e) {
-          console.warn('[LevelSystem] defaultLighting setup failed:', e);
-        }
-        if (this.world._resolveLevelLoad) {
-          this.world._resolveLevelLoad();
-          this.world._resolveLevelLoad = undefined;
+    let loadError: unknown;
+    let retained = false;
+    const retainAssets = (urls: string[]) => {
+      retained = true;
+      this.retainLevelAssets(urls);
+    };
+    try {
+      if (url) {
+        await GLXFImporter.load(this.world, url, newRoot, retainAssets);
+      }
+    } catch (err) {
+      loadError = err;
+      console.error('[LevelSystem] Failed to load level', err);
+    }
+    if (!retained) {
+      // Nothing was requested; the previous level's assets are no longer used
+      this.retainLevelAssets([]);
+    }
+    this.retainEnvironment(newRoot);
+    if (preloadEnvironment) {
+      await this.loadEnvironmentTextures(newRoot);
+    }
+    // Attach default lighting if requested and the level root has no dome/IBL
+    try {
+      if (this.config.defaultLighting.value) {
+        const hasDome =
+          newRoot.hasComponent(DomeTexture) ||
+          newRoot.hasComponent(DomeGradient);
+        const hasIBL =
+          newRoot.hasComponent(IBLTexture) || newRoot.hasComponent(IBLGradient);
+        if (!hasDome && !hasIBL) {
+          newRoot.addComponent(DomeGradient).addComponent(IBLGradient);
         }
-      });
+      }
+    } catch (e) {
+      console.warn('[LevelSystem] defaultLighting setup failed:', e);
+    }
+    this.world.events.emit(LevelLoaded, {
+      url,
+      root: newRoot,
+      ...(loadError !== undefined ? { error: loadError } : {}),
+    });
+  }
+
+  /**
+   * Retain the assets of the new level, then release the previous level's, so assets
+   * shared by both stay cached while the others become evictable.
+   */
+  private retainLevelAssets(urls: string[]): void {
+    const previous = this.levelAssets;
+    this.levelAssets = [...new Set(urls)];
+    this.levelAssets.forEach((assetUrl) => AssetManager.retain(assetUrl));
+    previous.forEach((assetUrl) => AssetManager.release(assetUrl));
+  }
+
+  /** Add the level root's environment textures to the retained level assets. */
+  private retainEnvironment(root: Entity): void {
+    for (const assetUrl of this.environmentUrls(root)) {
+      if (!this.levelAssets.includes(assetUrl)) {
+        this.levelAssets.push(assetUrl);
+        AssetManager.retain(assetUrl);
+      }
+    }
+  }
+
+  /** Resolved URLs of the dome and IBL textures of a level root. */
+  private environmentUrls(root: Entity): string[] {
+    const sources = [
+      root.hasComponent(DomeTexture) ? root.getValue(DomeTexture, 'src') : '',
+      root.hasComponent(IBLTexture) ? root.getValue(IBLTexture, 'src') : '',
+    ];
+    return sources
+      .map((src) => (src ?? '').trim())
+      .filter((src) => src && src !== 'room')
+      .map((src) => CacheManager.resolveUrl(src));
+  }
+
+  /**
+   * Load the dome and IBL textures of a level root through the asset cache, so the
+   * EnvironmentSystem finds them ready. Failures are left to the EnvironmentSystem.
+   */
+  private async loadEnvironmentTextures(root: Entity): Promise<void> {
+    await Promise.allSettled(
+      this.environmentUrls(root).map((url) => {
+        const lower = url.toLowerCase();
+        return lower.endsWith('.hdr') || lower.endsWith('.exr')
+          ? AssetManager.loadHDRTexture(url)
+          : AssetManager.loadTexture(url);
+      }),
+    );
   }
 }
@@ -0,0 +1,133 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { LoadingScreen } from '../asset/index.js';
+import type { World } from '../ecs/index.js';
+import { FadePass } from '../render/index.js';
+import { Color, ColorRepresentation } from '../runtime/index.js';
+
+/**
+ * Visual transition for {@link World.loadLevel}.
+ *
+ * @category Scene
+ */
+export interface LevelTransitionOptions {
+  /** Color faded to while the level is swapped. @defaultValue black */
+  color?: ColorRepresentation;
+  /** Seconds to fade out the current level. @defaultValue 0.3 */
+  fadeOut?: number;
+  /** Seconds to fade in the new level once loaded. @defaultValue 0.5 */
+  fadeIn?: number;
+  /**
+   * Show a {@link LoadingScreen} in the fade color while loading.
+   * @defaultValue true
+   */
+  loadingEnvironment?: boolean;
+}
+
+/** Options accepted by {@link World.loadLevel}. @category Scene */
+export interface LoadLevelOptions {
+  /** Fade out, show a loading environment and fade in; `true` uses defaults. */
+  transition?: boolean | LevelTransitionOptions;
+}
+
+interface Tween {
+  from: number;
+  to: number;
+  duration: number;
+  elapsed: number;
+  resolve: () => void;
+}
+
+/**
+ * Fade and loading environment driven by {@link LevelSystem} while a level changes.
+ *
+ * @remarks
+ * Timing advances in {@link LevelTransition.update} from the system's frame delta,
+ * so transitions also complete in headless worlds, where nothing is drawn.
+ */
+export class LevelTransition {
+  private fade: FadePass;
+  private environment?: LoadingScreen;
+  private tween?: Tween;
+  private options: Required<Omit<LevelTransitionOptions, 'color'>>;
+  private color: Color;
+
+  constructor(
+    private world: World,
+    options: LevelTransitionOptions = {},
+  ) {
+    this.color = new Color(options.color ?? 0x000000);
+    this.options = {
+      fadeOut: options.fadeOut ?? 0.3,
+      fadeIn: options.fadeIn ?? 0.5,
+      loadingEnvironment: options.loadingEnvironment ?? true,
+    };
+    // Above every other pass, including comfort vignettes
+    this.fade = new FadePass({ color: this.color, order: 1000 });
+    world.renderPipeline.addPass(this.fade);
+  }
+
+  /** Fade to the transition color, then show the loading environment. */
+  async fadeOut(): Promise<void> {
+    await this.animate(1, this.options.fadeOut);
+    if (this.options.loadingEnvironment) {
+      this.environment = new LoadingScreen(this.world, { color: this.color });
+      this.environment.show();
+      // The environment has the fade color, so the switch is seamless
+      this.fade.opacity = 0;
+    }
+  }
+
+  /** Remove the loading environment and reveal the new level. */
+  async fadeIn(): Promise<void> {
+    this.fade.opacity = 1;
+    this.removeEnvironment();
+    await this.animate(0, this.options.fadeIn);
+  }
+
+  update(delta: number): void {
+    const tween = this.tween;
+    if (!tween) {
+      return;
+    }
+    tween.elapsed += delta;
+    const t =
+      tween.duration > 0 ? Math.min(tween.elapsed / tween.duration, 1) : 1;
+    this.fade.opacity = tween.from + (tween.to - tween.from) * t;
+    if (t >= 1) {
+      this.tween = undefined;
+      tween.resolve();
+    }
+  }
+
+  dispose(): void {
+    this.tween?.resolve();
+    this.tween = undefined;
+    this.removeEnvironment();
+    this.world.renderPipeline.removePass(this.fade);
+    this.fade.dispose();
+  }
+
+  private animate(opacity: number, duration: number): Promise<void> {
+    this.tween?.resolve();
+    return new Promise((resolve) => {
+      this.tween = {
+        from: this.fade.opacity,
+        to: opacity,
+        duration,
+        elapsed: 0,
+        resolve,
+      };
+    });
+  }
+
+  private removeEnvironment(): void {
+    this.environment?.dispose();
+    this.environment = undefined;
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { lerp } from 'three/src/math/MathUtils.js';
+import { Types } from '../ecs/component.js';
+import { createSystem } from '../ecs/system.js';
+import { VignettePass } from '../render/index.js';
+import { Vector3 } from '../runtime/index.js';
+import { TurnSystem } from './turn.js';
+
+/** Vignette radius (in half view heights) when fully open and fully closed. */
+const OPEN_RADIUS = 1.6;
+const CLOSED_RADIUS = 0.2;
+
+/**
+ * Tunneling vignette that narrows the view while the player is moved artificially.
+ *
+ * @remarks
+ * - Linear velocity is measured from the player origin, so sliding, jumping, falling,
+ *   teleport glides and riding `KINEMATIC` platforms all count, while the user's own
+ *   head motion does not.
+ * - Frames where the origin moves farther than `jumpDistance` are treated as a
+ *   discontinuity (instant teleports, position resets, level changes) and add no
+ *   speed.
+ * - Angular velocity comes from {@link TurnSystem} smooth turning; snap turns are
+ *   instantaneous and do not vignette.
+ * - Drawn as a {@link VignettePass} on `world.renderPipeline`, centered per eye.
+ * - Registered by {@link LocomotionSystem}, which forwards its `comfortAssist` as
+ *   `strength` (as does the deprecated `SlideSystem.comfortAssist`).
+ *
+ * @category Locomotion
+ */
+export class ComfortVignetteSystem extends createSystem(
+  {},
+  {
+    /** Maximum narrowing [0..1] at full speed; 0 disables the vignette. */
+    strength: { type: Types.Float32, default: 0.5 },
+    /** Vignette color as linear RGB. */
+    color: { type: Types.Vec3, default: [0, 0, 0] },
+    /** Width of the soft edge, in half view heights. */
+    falloff: { type: Types.Float32, default: 0.3 },
+    /** Linear speed (m/s) reaching full strength. */
+    maxLinearSpeed: { type: Types.Float32, default: 3 },
+    /** Angular speed (degrees/second) reaching full strength. */
+    maxAngularSpeed: { type: Types.Float32, default: 90 },
+    /** How quickly the vignette follows changes in speed (1/seconds). */
+    responsiveness: { type: Types.Float32, default: 8 },
+    /** Origin displacement (m) within one frame treated as a jump rather than motion. */
+    jumpDistance: { type: Types.Float32, default: 1 },
+  },
+) {
+  private pass = new VignettePass({ intensity: 0 });
+  private previousPosition = new Vector3();
+  private position = new Vector3();
+  private hasPrevious = false;
+  private amount = 0;
+
+  init() {
+    this.world.renderPipeline.addPass(this.pass);
+  }
+
+  destroy(): void {
+    super.destroy();
+    this.world.renderPipeline.removePass(this.pass);
+    this.pass.dispose();
+  }
+
+  update(delta: number): void {
+    this.player.getWorldPosition(this.position);
+    let linearSpeed = 0;
+    const distance = this.position.distanceTo(this.previousPosition);
+    if (
+      this.hasPrevious &&
+      delta > 0 &&
+      distance <= this.config.jumpDistance.value
+    ) {
+      linearSpeed = distance / delta;
+    }
+    this.previousPosition.copy(this.position);
+    this.hasPrevious = true;
+
+    const turn = this.world.getSystem(TurnSystem);
+    const angularSpeed = Math.abs(turn?.angularVelocity ?? 0) * (180 / Math.PI);
+
+    const motion = Math.min(
+      1,
+      Math.max(
+        linearSpeed / Math.max(this.config.maxLinearSpeed.value, 1e-3),
+        angularSpeed / Math.max(this.config.maxAngularSpeed.value, 1e-3),
+      ),
+    );
+    const target =
+      motion * Math.min(Math.max(this.config.strength.value, 0), 1);
+    this.amount = lerp(
+      this.amount,
+      target,
+      Math.min(1, delta * this.config.responsiveness.value),
+    );
+
+    const pass = this.pass;
+    pass.intensity = this.amount > 1e-3 ? 1 : 0;
+    pass.radius = lerp(OPEN_RADIUS, CLOSED_RADIUS, this.amount);
+    pass.softness = this.config.falloff.value;
+    pass.color.fromArray(this.config.color.value);
+  }
+}
@@ -11,6 +11,7 @@ import { Types, createComponent } from '../ecs/component.js';
 import { Entity } from '../ecs/entity.js';
 import { createSystem } from '../ecs/system.js';
 import { Vector3 } from '../runtime/index.js';
+import { ComfortVignetteSystem } from './comfort-vignette.js';
 import { SlideSystem } from './slide.js';
 import { TeleportSystem } from './teleport.js';
 import { TurnSystem, TurningMethod } from './turn.js';
@@ -70,7 +71,7 @@ export class LocomotionSystem extends createSystem(
     initialPlayerPosition: { type: Types.Vec3, default: [0, 0, 0] },
     /** Run the locomotion engine in a WebWorker for better main‑thread perf. */
     useWorker: { type: Types.Boolean, default: true },
-    /** Comfort vignette strength forwarded to SlideSystem. */
+    /** Comfort vignette strength forwarded to ComfortVignetteSystem. */
     comfortAssist: { type: Types.Float32, default: 0.5 },
     /** Maximum sliding speed (m/s). */
     slidingSpeed: { type: Types.Float32, default: 5 },
@@ -97,6 +98,7 @@ export class LocomotionSystem extends createSystem(
   private teleportSystem?: TeleportSystem;
   private slideSystem?: SlideSystem;
   private turnSystem!: TurnSystem;
+  private comfortVignetteSystem!: ComfortVignetteSystem;
   private microGestureControlsEnabled = false;
 
   init() {
@@ -109,6 +111,10 @@ export class LocomotionSystem extends createSystem(
       },
     });
     this.turnSystem = this.world.getSystem(TurnSystem)!;
+    this.world.registerSystem(ComfortVignetteSystem, {
+      configData: { strength: this.config.comfortAssist.value },
+    });
+    this.comfortVignetteSystem = this.world.getSystem(ComfortVignetteSystem)!;
     this.initLocomotor().then(() => {
       this.cleanupFuncs.push(
         this.config.rayGravity.subscribe((value) => {
@@ -123,9 +129,7 @@ export class LocomotionSystem extends createSystem(
           }
         }),
         this.config.comfortAssist.subscribe((value) => {
-          if (this.slideSystem) {
-            this.slideSystem.config.comfortAssist.value = value;
-          }
+          this.comfortVignetteSystem.config.strength.value = value;
         }),
         this.config.turningMethod.subscribe((value) => {
           this.turnSystem.config.turningMethod.value = value;
@@ -279,6 +283,7 @@ export class LocomotionSystem extends createSystem(
       this.locomotor.terminate();
     }
     this.world.unregisterSystem(TurnSystem);
+    this.world.unregisterSystem(ComfortVignetteSystem);
     if (this.teleportSystem) {
       this.world.unregisterSystem(TeleportSystem);
     }
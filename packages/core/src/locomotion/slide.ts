@@ -7,71 +7,17 @@
 
 import { Locomotor } from '@iwsdk/locomotor';
 import { InputComponent } from '@iwsdk/xr-input';
-import { lerp } from 'three/src/math/MathUtils.js';
 import { Types, createSystem } from '../ecs/index.js';
-import {
-  BackSide,
-  Color,
-  CylinderGeometry,
-  Mesh,
-  Quaternion,
-  ShaderMaterial,
-  Vector2,
-  Vector3,
-} from '../runtime/index.js';
-
-const vertexShader = `
-	varying vec2 vUv;
-
-	void main() {
-		vUv = uv;
-		vec4 modelPosition = modelMatrix * vec4(position, 1.0);
-		vec4 viewPosition = viewMatrix * modelPosition;
-		vec4 projectedPosition = projectionMatrix * viewPosition;
-
-		gl_Position = projectedPosition;
-	}
-`;
-
-const fragmentShader = `
-	uniform vec3 uColor;
-	uniform float uAlpha;
-	varying vec2 vUv;
-
-	void main() {
-		gl_FragColor = vec4(uColor, uAlpha * vUv.y);
-	}
-`;
-
-const createVignette = (radius: number, colorRep: number = 0x000000) => {
-  const vignette = new Mesh(
-    new CylinderGeometry(radius, radius * 0.5, 0.3, 16, 1, true),
-    new ShaderMaterial({
-      vertexShader: vertexShader,
-      fragmentShader: fragmentShader,
-      uniforms: {
-        uColor: { value: new Color(colorRep) },
-        uAlpha: { value: 0 },
-      },
-      depthTest: false,
-      side: BackSide,
-      transparent: true,
-    }),
-  );
-  vignette.frustumCulled = false;
-  vignette.renderOrder = 999;
-  vignette.rotateX(Math.PI / 2);
-  vignette.position.z = -0.15;
-  return vignette;
-};
+import { Quaternion, Vector2, Vector3 } from '../runtime/index.js';
+import { ComfortVignetteSystem } from './comfort-vignette.js';
 
 /**
- * Analog stick sliding locomotion with optional comfort vignette and jump.
+ * Analog stick sliding locomotion and jump.
  *
  * @remarks
  * - Reads left controller thumbstick for planar movement relative to head yaw.
- * - Applies a dynamic peripheral vignette based on input magnitude scaled by
- *   `comfortAssist` to reduce motion sickness.
+ * - The comfort vignette is drawn by {@link ComfortVignetteSystem} from the
+ *   resulting player velocity.
  * - Triggers jump when `jumpButton` is pressed.
  *
  * @category Locomotion
@@ -83,32 +29,35 @@ export class SlideSystem extends createSystem(
     locomotor: { type: Types.Object, default: undefined },
     /** Maximum linear speed in meters/second. */
     maxSpeed: { type: Types.Float32, default: 5 },
-    /** Comfort vignette strength [0..1]; 0 disables vignetting. */
-    comfortAssist: { type: Types.Float32, default: 0.5 },
     /** Button used to trigger jump. */
     jumpButton: { type: Types.String, default: InputComponent.A_Button },
+    /**
+     * Comfort vignette strength, forwarded to {@link ComfortVignetteSystem}.
+     * @deprecated Configure `strength` on ComfortVignetteSystem, or `comfortAssist`
+     * on LocomotionSystem.
+     */
+    comfortAssist: { type: Types.Float32, default: 0.5 },
   },
 ) {
   private movementVector = new Vector3();
   private movementDirection = new Quaternion();
   private input2D = new Vector2();
   private isMoving = false;
-  private vignette = createVignette(0.3);
-  private vignetteAlphaTarget = 0;
   private locomotor!: Locomotor;
 
   init() {
     this.locomotor = this.config.locomotor.value as Locomotor;
-    this.player.head.add(this.vignette);
-  }
-
-  destroy(): void {
-    this.vignette.removeFromParent();
+    this.cleanupFuncs.push(
+      this.config.comfortAssist.subscribe((value) => {
+        const vignette = this.world.getSystem(ComfortVignetteSystem);
+        if (vignette) {
+          vignette.config.strength.value = value;
+        }
+      }),
+    );
   }
 
-  update(delta: number): void {
-    this.vignetteAlphaTarget = 0;
-
+  update(): void {
     // Handle jump input
     if (
       this.input.gamepads.right?.getButtonDown(
@@ -135,8 +84,6 @@ export class SlideSystem extends createSystem(
           .normalize()
           .multiplyScalar(inputValue * (this.config.maxSpeed.value as number));
         this.locomotor.slide(this.movementVector);
-        this.vignetteAlphaTarget =
-          inputValue * (this.config.comfortAssist.value as number);
       } else {
         if (this.isMoving) {
           // Stop movement by sending zero vector
@@ -146,11 +93,6 @@ export class SlideSystem extends createSystem(
       }
 
       this.isMoving = inputValue > 0;
-      this.vignette.material.uniforms.uAlpha.value = lerp(
-        this.vignette.material.uniforms.uAlpha.value,
-        this.vignetteAlphaTarget,
-        delta * 10,
-      );
     }
   }
 }
@@ -9,7 +9,7 @@ import { Locomotor, sampleParabolicCurve } from '@iwsdk/locomotor';
 import { AxesState, InputComponent, StatefulGamepad } from '@iwsdk/xr-input';
 import { Line2 } from 'three/examples/jsm/lines/Line2.js';
 import { LineGeometry } from 'three/examples/jsm/lines/LineGeometry.js';
-import { Types, createSystem } from '../ecs/index.js';
+import { Types, createEvent, createSystem } from '../ecs/index.js';
 import {
   Color,
   Mesh,
@@ -19,6 +19,13 @@ import {
 } from '../runtime/index.js';
 import { LineMaterial } from './materials/line.js';
 
+/**
+ * Emitted by {@link TeleportSystem} when the player teleports; `position` is the
+ * world-space target on the floor.
+ * @category Locomotion
+ */
+export const Teleported = createEvent<{ position: Vector3 }>('Teleported');
+
 const Colors = {
   valid: new Color(0xffffff),
   invalid: new Color(0xed4337),
@@ -180,6 +187,9 @@ export class TeleportSystem extends createSystem(
       if (!cancelAction && this.targetValid) {
         // Teleport to the hit test target position
         this.locomotor.teleport(this.teleportMarker.position);
+        this.world.events.emit(Teleported, {
+          position: this.teleportMarker.position.clone(),
+        });
       }
       this.line.visible = false;
       this.teleportMarker.visible = false;
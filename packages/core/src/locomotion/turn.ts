@@ -53,6 +53,8 @@ export class TurnSystem extends createSystem(
     ),
   );
   private playerHeadPosition = new Vector3();
+  /** Current smooth-turn yaw rate in radians/second (positive turns left). */
+  angularVelocity = 0;
 
   init() {
     this.turnSignals.add(this.leftSignal, this.rightSignal);
@@ -75,6 +77,7 @@ export class TurnSystem extends createSystem(
   }
 
   update(delta: number): void {
+    this.angularVelocity = 0;
     if (this.config.turningMethod.value === TurningMethod.SmoothTurn) {
       this.updateSmooth(delta);
     } else {
@@ -88,9 +91,12 @@ export class TurnSystem extends createSystem(
     );
     const turningSpeedRadian = (this.config.turningSpeed.value / 180) * Math.PI;
     if (state === AxesState.Left) {
-      this.player.rotateY(turningSpeedRadian * delta);
+      this.angularVelocity = turningSpeedRadian;
     } else if (state === AxesState.Right) {
-      this.player.rotateY(-turningSpeedRadian * delta);
+      this.angularVelocity = -turningSpeedRadian;
+    }
+    if (this.angularVelocity !== 0) {
+      this.player.rotateY(this.angularVelocity * delta);
     }
   }
 
@@ -0,0 +1,43 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { Types, createComponent } from '../ecs/index.js';
+
+/**
+ * Switches between mesh variants of an entity based on distance to `player.head`.
+ *
+ * @remarks
+ * - Levels are the `<name>_LOD<n>` children found under the entity's Object3D (see
+ *   {@link findLODLevels}), or the Object3Ds in `levels` when set.
+ * - Level `i + 1` takes over beyond `distances[i]` meters; extra distances or levels
+ *   are ignored.
+ * - `hysteresis` widens each threshold by that fraction in the direction of travel,
+ *   so entities hovering near a threshold do not flicker.
+ * - With `crossfade > 0` the new level appears at once and the previous one fades
+ *   out over that many seconds (its materials are cloned on first fade).
+ * - `level` reports the active level of the first group.
+ * - Named `LevelOfDetail` rather than `LOD` because the runtime re‑exports three.js,
+ *   whose `LOD` class would otherwise clash with it.
+ *
+ * @example
+ * ```ts
+ * entity.addComponent(LevelOfDetail, { distances: [8, 20], crossfade: 0.3 });
+ * ```
+ *
+ * @category LOD
+ */
+export const LevelOfDetail = createComponent(
+  'LevelOfDetail',
+  {
+    distances: { type: Types.Object, default: [10, 25, 50] }, // number[], meters
+    hysteresis: { type: Types.Float32, default: 0.1 }, // Fraction of each distance
+    crossfade: { type: Types.Float32, default: 0 }, // Seconds; 0 switches instantly
+    levels: { type: Types.Object, default: undefined }, // Object3D[] overriding the naming convention
+    level: { type: Types.Int8, default: 0 }, // Active level (output)
+  },
+  'Distance-based level of detail switching',
+);
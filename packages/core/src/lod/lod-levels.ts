@@ -0,0 +1,60 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { Object3D } from '../runtime/three.js';
+
+/** Matches a trailing `_LOD<n>`, plus the `_<k>` suffix GLTFLoader adds to duplicates. */
+const LOD_NAME = /_LOD(\d+)(?:_\d+)?$/i;
+
+/**
+ * Detail levels found under one Object3D, finest first.
+ *
+ * @category LOD
+ */
+export interface LODLevels {
+  /** Object whose world position is measured for distance. */
+  anchor: Object3D;
+  levels: Object3D[];
+}
+
+/**
+ * Find LOD groups by naming convention: an object whose children are named
+ * `<name>_LOD0`, `<name>_LOD1`, … (as emitted by `@iwsdk/vite-plugin-gltf-optimizer`
+ * or authored in a DCC tool).
+ *
+ * @category LOD
+ */
+export function findLODLevels(root: Object3D): LODLevels[] {
+  const groups: LODLevels[] = [];
+  root.traverse((object) => {
+    const levels: Object3D[] = [];
+    for (const child of object.children) {
+      const match = LOD_NAME.exec(child.name);
+      if (match) {
+        levels[Number(match[1])] = child;
+      }
+    }
+    if (levels.length > 0) {
+      groups.push({ anchor: object, levels: levels.filter(Boolean) });
+    }
+  });
+  return groups;
+}
+
+/**
+ * Show only the finest level of every LOD group under `root`. Applied to GLTFs on
+ * load so assets with generated levels render correctly without an LOD component.
+ *
+ * @category LOD
+ */
+export function hideLODLevels(root: Object3D): void {
+  for (const { levels } of findLODLevels(root)) {
+    levels.forEach((level, i) => {
+      level.visible = i === 0;
+    });
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { Entity, createSystem } from '../ecs/index.js';
+import { Material, Mesh, Object3D, Vector3 } from '../runtime/index.js';
+import { LevelOfDetail } from './level-of-detail.js';
+import { LODLevels, findLODLevels } from './lod-levels.js';
+
+interface FadingMaterial {
+  material: Material;
+  opacity: number;
+  transparent: boolean;
+}
+
+interface GroupState extends LODLevels {
+  current: number;
+  fading?: { level: Object3D; elapsed: number; materials: FadingMaterial[] };
+}
+
+/** Per-level material clones and the materials they replaced. */
+interface LevelClones {
+  originals: Map<Mesh, Material | Material[]>;
+  materials: Material[];
+}
+
+interface LODState {
+  source: Object3D[] | undefined;
+  groups: GroupState[];
+  clones: Map<Object3D, LevelClones>;
+}
+
+const head = new Vector3();
+const anchor = new Vector3();
+
+/** Pick the level for `distance`, leaving `current` only past a widened threshold. */
+function selectLevel(
+  current: number,
+  count: number,
+  distance: number,
+  distances: number[],
+  hysteresis: number,
+): number {
+  const last = Math.min(count - 1, distances.length);
+  let level = Math.min(current, last);
+  while (level < last && distance > distances[level] * (1 + hysteresis)) {
+    level++;
+  }
+  while (level > 0 && distance < distances[level - 1] * (1 - hysteresis)) {
+    level--;
+  }
+  return level;
+}
+
+/**
+ * Switches {@link LevelOfDetail} levels by distance to the player's head.
+ *
+ * @remarks
+ * - Levels are resolved once per entity; entities whose Object3D has no LOD levels
+ *   yet (e.g. still loading) are checked again each frame.
+ * - Assigning a new `levels` array re-resolves them.
+ * - Crossfades fade per-level material clones; when the component is removed or the
+ *   levels re-resolve, the original materials are put back and the clones disposed.
+ *
+ * @category LOD
+ */
+export class LODSystem extends createSystem({
+  lods: { required: [LevelOfDetail] },
+}) {
+  private states = new Map<Entity, LODState>();
+
+  init(): void {
+    this.queries.lods.subscribe('disqualify', (entity) => {
+      const state = this.states.get(entity);
+      if (state) {
+        this.releaseState(state);
+      }
+      this.states.delete(entity);
+    });
+  }
+
+  update(delta: number): void {
+    this.player.head.getWorldPosition(head);
+    for (const entity of this.queries.lods.entities) {
+      const state = this.resolve(entity);
+      if (!state) {
+        continue;
+      }
+      const distances = entity.getValue(LevelOfDetail, 'distances') as number[];
+      const hysteresis = entity.getValue(LevelOfDetail, 'hysteresis')!;
+      const crossfade = entity.getValue(LevelOfDetail, 'crossfade')!;
+
+      for (const group of state.groups) {
+        const distance = group.anchor.getWorldPosition(anchor).distanceTo(head);
+        const level = selectLevel(
+          group.current,
+          group.levels.length,
+          distance,
+          distances,
+          hysteresis,
+        );
+        if (level !== group.current) {
+          this.switchLevel(state, group, level, crossfade);
+        }
+        this.advanceFade(group, delta, crossfade);
+      }
+
+      const level = state.groups[0].current;
+      if (entity.getValue(LevelOfDetail, 'level') !== level) {
+        entity.setValue(LevelOfDetail, 'level', level);
+      }
+    }
+  }
+
+  private resolve(entity: Entity): LODState | undefined {
+    const source = entity.getValue(LevelOfDetail, 'levels') as
+      | Object3D[]
+      | undefined;
+    let state = this.states.get(entity);
+    if (state && state.source === source && state.groups.length > 0) {
+      return state;
+    }
+    if (!entity.object3D) {
+      return undefined;
+    }
+    if (state) {
+      this.releaseState(state);
+    }
+    const groups: GroupState[] = (
+      source?.length
+        ? [{ anchor: entity.object3D, levels: source }]
+        : findLODLevels(entity.object3D)
+    ).map((group) => ({ ...group, current: 0 }));
+    for (const group of groups) {
+      group.levels.forEach((level, i) => {
+        level.visible = i === 0;
+      });
+    }
+    state = { source, groups, clones: new Map() };
+    this.states.set(entity, state);
+    return groups.length > 0 ? state : undefined;
+  }
+
+  private switchLevel(
+    state: LODState,
+    group: GroupState,
+    level: number,
+    crossfade: number,
+  ) {
+    this.finishFade(group);
+    const previous = group.levels[group.current];
+    group.current = level;
+    group.levels[level].visible = true;
+    if (crossfade <= 0) {
+      previous.visible = false;
+      return;
+    }
+    // The new level shows at once; the previous one fades out on top of it
+    group.fading = {
+      level: previous,
+      elapsed: 0,
+      materials: this.getMaterials(state, previous).map((material) => {
+        const fading = {
+          material,
+          opacity: material.opacity,
+          transparent: material.transparent,
+        };
+        material.transparent = true;
+        return fading;
+      }),
+    };
+  }
+
+  private advanceFade(group: GroupState, delta: number, crossfade: number) {
+    const fading = group.fading;
+    if (!fading) {
+      return;
+    }
+    fading.elapsed += delta;
+    const t = crossfade > 0 ? fading.elapsed / crossfade : 1;
+    if (t >= 1) {
+      this.finishFade(group);
+      return;
+    }
+    for (const { material, opacity } of fading.materials) {
+      material.opacity = opacity * (1 - t);
+    }
+  }
+
+  private finishFade(group: GroupState): void {
+    const fading = group.fading;
+    if (!fading) {
+      return;
+    }
+    group.fading = undefined;
+    fading.level.visible = group.levels[group.current] === fading.level;
+    for (const { material, opacity, transparent } of fading.materials) {
+      material.opacity = opacity;
+      material.transparent = transparent;
+    }
+  }
+
+  /** Materials under a level, cloned once so fades do not affect other levels. */
+  private getMaterials(state: LODState, level: Object3D): Material[] {
+    let clones = state.clones.get(level);
+    if (!clones) {
+      const originals = new Map<Mesh, Material | Material[]>();
+      const materials: Material[] = [];
+      const copies = new Map<Material, Material>();
+      const clone = (material: Material) => {
+        let copy = copies.get(material);
+        if (!copy) {
+          copy = material.clone();
+          copies.set(material, copy);
+          materials.push(copy);
+        }
+        return copy;
+      };
+      level.traverse((object) => {
+        const mesh = object as Mesh;
+        if (mesh.isMesh) {
+          originals.set(mesh, mesh.material);
+          mesh.material = Array.isArray(mesh.material)
+            ? mesh.material.map(clone)
+            : clone(mesh.material);
+        }
+      });
+      clones = { originals, materials };
+      state.clones.set(level, clones);
+    }
+    return clones.materials;
+  }
+
+  /** End fades, put the original materials back and dispose the clones. */
+  private releaseState(state: LODState): void {
+    state.groups.forEach((group) => this.finishFade(group));
+    for (const { originals, materials } of state.clones.values()) {
+      originals.forEach((material, mesh) => {
+        mesh.material = material;
+      });
+      materials.forEach((material) => material.dispose());
+    }
+    state.clones.clear();
+  }
+}
@@ -12,7 +12,8 @@ import {
   MassProperties,
   MotionType,
 } from '@babylonjs/havok';
-import { createSystem, Entity, ne, Pressed, Types } from '.././index.js';
+import { createSystem, Entity, ne, Types } from '../ecs/index.js';
+import { Pressed } from '../input/index.js';
 import {
   Vector3,
   Mesh,
@@ -21,6 +22,7 @@ import {
   Matrix4,
   Object3D,
 } from '../runtime/three.js';
+import { TransformInterpolation } from '../transform/index.js';
 import {
   DEFAULT_ANGULAR_DAMPING,
   DEFAULT_GRAVITY_FACTOR,
@@ -39,7 +41,9 @@ import { detectShapeFromGeometry, generateMergedGeometry } from './utils';
  * - Initializes Havok physics engine and creates a physics world with gravity.
  * - Supports automatic physics shapes creation based on entity geometry when {@link PhysicsShapeType.Auto} is used.
  * - Supports multiple collision shapes: Sphere, Box, Cylinder, ConvexHull, and TriMesh.
+ * - Steps the simulation in `fixedUpdate`, sharing the world's fixed tick ({@link World.fixedTimestep}).
  * - Synchronizes physics body transforms with Three.js Object3D positions and rotations using {@link PhysicsBody}.
+ * - Dynamic bodies get {@link TransformInterpolation} so they render smoothly at any refresh rate.
  * - Handles physics manipulations like applying forces and setting velocities in {@link PhysicsManipulation}.
  * - Automatically cleans up physics resources when entities are removed.
  *
@@ -75,6 +79,7 @@ export class PhysicsSystem extends createSystem(
   {
     gravity: { type: Types.Vec3, default: [0, -9.81, 0] },
   },
+  { fixed: true },
 ) {
   private havok?: HavokPhysicsWithBindings;
   private havokWorld?: HP_WorldId;
@@ -83,10 +88,6 @@ export class PhysicsSystem extends createSystem(
   private scaleBuffer = new Vector3();
   private matrixBuffer = new Matrix4();
 
-  // Fixed timestep physics at 60 FPS
-  private readonly FIXED_TIMESTEP = 1 / 60; // 60 FPS
-  private accumulator = 0;
-
   async init(): Promise<void> {
     const { default: HavokPhysics } = await import('@babylonjs/havok');
     this.havok = await HavokPhysics();
@@ -111,16 +112,9 @@ export class PhysicsSystem extends createSystem(
     });
   }
 
-  update(delta: number): void {
+  fixedUpdate(delta: number): void {
     if (this.havok && this.havokWorld) {
-      // Accumulate frame time
-      this.accumulator += delta;
-
-      while (this.accumulator >= this.FIXED_TIMESTEP) {
-        this.havok.HP_World_Step(this.havokWorld, this.FIXED_TIMESTEP);
-        this.accumulator -= this.FIXED_TIMESTEP;
-      }
-
+      this.havok.HP_World_Step(this.havokWorld, delta);
       this.bodyBuffer = this.havok.HP_World_GetBodyBuffer(this.havokWorld)[1];
     }
 
@@ -161,6 +155,12 @@ export class PhysicsSystem extends createSystem(
               Number(bodyRepsonse.createdBody),
             );
             entity.setValue(PhysicsBody, '_engineOffset', bodyRepsonse.offset);
+            if (
+              entity.getValue(PhysicsBody, 'state') === PhysicsState.Dynamic &&
+              !entity.hasComponent(TransformInterpolation)
+            ) {
+              entity.addComponent(TransformInterpolation);
+            }
           }
         } else if (engineBody && this.bodyBuffer) {
           const linearVelocity = this.havok.HP_Body_GetLinearVelocity([
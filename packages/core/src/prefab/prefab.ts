@@ -0,0 +1,169 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { AnyComponent, TypedArrayMap } from 'elics';
+import { clone as cloneSkinned } from 'three/examples/jsm/utils/SkeletonUtils.js';
+import type { Entity, World } from '../ecs/index.js';
+import { EntityCreator } from '../level/level-entity-creator.js';
+import { Object3D } from '../runtime/index.js';
+import { DestroyWithParent } from '../transform/index.js';
+
+/** A component and the initial data to apply with it. @category Scene */
+export interface PrefabComponent {
+  component: AnyComponent;
+  data?: Record<string, unknown>;
+}
+
+/** Definition passed to the {@link Prefab} constructor. @category Scene */
+export interface PrefabDefinition {
+  /** Template subtree cloned for every instance. @defaultValue new Object3D() */
+  object3D?: Object3D;
+  /** Components added to the instance root entity. */
+  components?: PrefabComponent[];
+}
+
+/** Options for {@link Prefab.instantiate} / {@link World.instantiate}. @category Scene */
+export interface InstantiateOptions {
+  /** Per-instance component data applied after the prefab's own components. */
+  overrides?: PrefabComponent[];
+  /** Parent entity; defaults to the active level root. */
+  parent?: Entity;
+  /** Keep the instance across level changes. @defaultValue false */
+  persistent?: boolean;
+}
+
+/**
+ * Add a component with data, or write the data into an existing component.
+ * Vector fields are written through their vector views.
+ */
+function applyComponentData(
+  world: World,
+  entity: Entity,
+  component: AnyComponent,
+  data: Record<string, unknown> = {},
+): void {
+  if (!component.bitmask) {
+    world.registerComponent(component);
+  }
+  if (!entity.hasComponent(component)) {
+    entity.addComponent(component, data);
+    return;
+  }
+  for (const [key, value] of Object.entries(data)) {
+    const field = component.schema[key];
+    if (!field) {
+      continue;
+    }
+    if (TypedArrayMap[field.type].length > 1) {
+      (entity.getVectorView(component, key as never) as Float32Array).set(
+        value as ArrayLike<number>,
+      );
+    } else {
+      entity.setValue(component, key as never, value as never);
+    }
+  }
+}
+
+/** Whether `object` or one of its descendants has GLXF component extras. */
+function carriesExtras(object: Object3D): boolean {
+  return (
+    !!object.userData?.meta_spatial?.components ||
+    object.children.some(carriesExtras)
+  );
+}
+
+/**
+ * Reusable entity template: an Object3D subtree plus a set of components.
+ *
+ * @remarks
+ * - Each instance clones the template subtree; geometries and materials are shared,
+ *   and skinned meshes are bound to the instance's own bones.
+ * - GLXF `meta_spatial.components` extras found in the subtree are applied with the
+ *   same mapping as {@link EntityCreator}; descendants carrying extras become child entities
+ *   tagged {@link DestroyWithParent}, as do the nodes between them and the root so the
+ *   hierarchy and its transforms are kept.
+ * - Components listed on the prefab are applied to the root, then per-instance overrides.
+ *
+ * @category Scene
+ * @example
+ * ```ts
+ * const crate = new Prefab({
+ *   object3D: AssetManager.getGLTF('crate')!.scene,
+ *   components: [{ component: Interactable }, { component: OneHandGrabbable }],
+ * });
+ * const e = world.instantiate(crate, {
+ *   overrides: [{ component: Transform, data: { position: [0, 1, -2] } }],
+ * });
+ * ```
+ */
+export class Prefab {
+  readonly object3D: Object3D;
+  readonly components: PrefabComponent[];
+
+  constructor(definition: PrefabDefinition = {}) {
+    this.object3D = definition.object3D ?? new Object3D();
+    this.components = definition.components ?? [];
+  }
+
+  /**
+   * Create a prefab from a GLXF node (e.g. an object placed in Meta Spatial Editor).
+   * The node is cloned, so later changes to it do not affect the prefab.
+   */
+  static fromGLXFNode(node: Object3D, components: PrefabComponent[] = []) {
+    return new Prefab({ object3D: cloneSkinned(node), components });
+  }
+
+  /** Clone the template into the world and return the root entity. */
+  instantiate(world: World, options: InstantiateOptions = {}): Entity {
+    const object = cloneSkinned(this.object3D);
+    const entity = world.createTransformEntity(object, {
+      parent: options.parent,
+      persistent: options.persistent,
+    });
+
+    const extras = object.userData?.meta_spatial?.components;
+    if (extras) {
+      EntityCreator.applyComponents(entity, extras, world);
+    }
+    for (const { component, data } of this.components) {
+      applyComponentData(world, entity, component, data);
+    }
+    for (const { component, data } of options.overrides ?? []) {
+      applyComponentData(world, entity, component, data);
+    }
+
+    object.children.forEach((child) =>
+      this.createChildEntities(world, child, entity, !!options.persistent),
+    );
+    return entity;
+  }
+
+  private createChildEntities(
+    world: World,
+    object: Object3D,
+    parentEntity: Entity,
+    persistent: boolean,
+  ): void {
+    if (!carriesExtras(object)) {
+      return;
+    }
+    // Nodes between entities become entities too; TransformSystem would otherwise
+    // move the descendant directly under the nearest entity and drop their transforms
+    const entity = world.createTransformEntity(object, {
+      parent: parentEntity,
+      persistent,
+    });
+    entity.addComponent(DestroyWithParent);
+    const extras = object.userData?.meta_spatial?.components;
+    if (extras) {
+      EntityCreator.applyComponents(entity, extras, world);
+    }
+    object.children.forEach((child) =>
+      this.createChildEntities(world, child, entity, persistent),
+    );
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import {
+  ShaderMaterial,
+  Texture,
+  Vector2,
+  WebGLRenderTarget,
+} from '../runtime/index.js';
+import {
+  FullscreenPass,
+  INPUT_CHUNK,
+  RenderPassContext,
+} from './render-pass.js';
+
+/** Options for {@link BloomPass}. @category Rendering */
+export interface BloomPassOptions {
+  /** Brightness above which pixels bloom. @defaultValue 1 */
+  threshold?: number;
+  /** Bloom contribution added to the frame. @defaultValue 0.5 */
+  strength?: number;
+  /** Blur radius in pixels of the half‑resolution bloom buffer. @defaultValue 4 */
+  radius?: number;
+  order?: number;
+}
+
+const THRESHOLD_FRAGMENT = /* glsl */ `
+${INPUT_CHUNK}
+uniform float threshold;
+void main() {
+  vec3 color = readInput(screenUv()).rgb;
+  float brightness = max(color.r, max(color.g, color.b));
+  float weight = smoothstep(threshold, threshold * 1.5 + 0.001, brightness);
+  gl_FragColor = vec4(color * weight, 1.0);
+}
+`;
+
+const BLUR_FRAGMENT = /* glsl */ `
+${INPUT_CHUNK}
+uniform vec2 direction;
+uniform float radius;
+void main() {
+  vec2 uv = screenUv();
+  vec2 offset = direction * max(radius, 1.0) / (4.0 * resolution);
+  // 9-tap Gaussian, sigma ~2 taps
+  vec3 sum = readInput(uv).rgb * 0.2270;
+  sum += (readInput(uv + offset).rgb + readInput(uv - offset).rgb) * 0.1945;
+  sum += (readInput(uv + 2.0 * offset).rgb + readInput(uv - 2.0 * offset).rgb) * 0.1216;
+  sum += (readInput(uv + 3.0 * offset).rgb + readInput(uv - 3.0 * offset).rgb) * 0.0541;
+  sum += (readInput(uv + 4.0 * offset).rgb + readInput(uv - 4.0 * offset).rgb) * 0.0162;
+  gl_FragColor = vec4(sum, 1.0);
+}
+`;
+
+const COMPOSITE_FRAGMENT = /* glsl */ `
+${INPUT_CHUNK}
+#ifdef VIEW_ID
+uniform sampler2DArray tBloom;
+vec3 readBloom(vec2 uv) { return texture(tBloom, vec3(uv, VIEW_ID)).rgb; }
+#else
+uniform sampler2D tBloom;
+vec3 readBloom(vec2 uv) { return texture2D(tBloom, uv).rgb; }
+#endif
+uniform float strength;
+void main() {
+  vec2 uv = screenUv();
+  vec4 color = readInput(uv);
+  gl_FragColor = vec4(color.rgb + readBloom(uv) * strength, color.a);
+  #include <tonemapping_fragment>
+  #include <colorspace_fragment>
+}
+`;
+
+/**
+ * Glow around bright areas: a thresholded, blurred half‑resolution copy of the frame
+ * added back on top.
+ *
+ * @category Rendering
+ */
+export class BloomPass extends FullscreenPass {
+  readonly readsInput = true;
+  threshold: number;
+  strength: number;
+  radius: number;
+
+  private thresholdMaterial: ShaderMaterial;
+  private blurMaterial: ShaderMaterial;
+  private targets?: [WebGLRenderTarget, WebGLRenderTarget];
+
+  constructor(options: BloomPassOptions = {}) {
+    super(
+      COMPOSITE_FRAGMENT,
+      { tBloom: { value: null }, strength: { value: 0 } },
+      options.order,
+    );
+    this.threshold = options.threshold ?? 1;
+    this.strength = options.strength ?? 0.5;
+    this.radius = options.radius ?? 4;
+    this.thresholdMaterial = this.createMaterial(THRESHOLD_FRAGMENT, {
+      threshold: { value: 0 },
+    });
+    this.blurMaterial = this.createMaterial(BLUR_FRAGMENT, {
+      direction: { value: new Vector2() },
+      radius: { value: 0 },
+    });
+  }
+
+  render(
+    input: Texture | null,
+    target: WebGLRenderTarget | null,
+    context: RenderPassContext,
+  ): void {
+    const [bright, blurred] = (this.targets ??= [
+      context.createTarget(0.5),
+      context.createTarget(0.5),
+    ]);
+    this.thresholdMaterial.uniforms.threshold.value = this.threshold;
+    this.draw(context, input, bright, this.thresholdMaterial);
+
+    const blur = this.blurMaterial.uniforms;
+    blur.radius.value = this.radius;
+    blur.direction.value.set(1, 0);
+    this.draw(context, bright.texture, blurred, this.blurMaterial);
+    blur.direction.value.set(0, 1);
+    this.draw(context, blurred.texture, bright, this.blurMaterial);
+
+    this.material.uniforms.tBloom.value = bright.texture;
+    this.material.uniforms.strength.value = this.strength;
+    this.draw(context, input, target);
+  }
+
+  resetTargets(): void {
+    this.targets = undefined;
+  }
+
+  dispose(): void {
+    super.dispose();
+    this.thresholdMaterial.dispose();
+    this.blurMaterial.dispose();
+  }
+
+  private createMaterial(
+    fragmentShader: string,
+    uniforms: ShaderMaterial['uniforms'],
+  ): ShaderMaterial {
+    const material = this.material.clone();
+    material.fragmentShader = fragmentShader;
+    material.uniforms = { ...material.uniforms, ...uniforms };
+    material.toneMapped = false;
+    return material;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { LinearFilter, Texture, WebGLRenderTarget } from '../runtime/index.js';
+import {
+  FullscreenPass,
+  INPUT_CHUNK,
+  RenderPassContext,
+} from './render-pass.js';
+
+/** Options for {@link ColorGradingPass}. @category Rendering */
+export interface ColorGradingPassOptions {
+  /**
+   * Lookup table as a horizontal strip of `size` square slices (`size² × size`
+   * pixels), blue increasing per slice, in sRGB like most exported LUT images.
+   */
+  lut: Texture;
+  /** Slices in the strip; inferred from the image height when omitted. */
+  size?: number;
+  /** Blend between the original (0) and graded (1) image. @defaultValue 1 */
+  intensity?: number;
+  /** @defaultValue 100, after other effects */
+  order?: number;
+}
+
+const COLOR_GRADING_FRAGMENT = /* glsl */ `
+${INPUT_CHUNK}
+uniform sampler2D lut;
+uniform float lutSize;
+uniform float intensity;
+uniform bool encoded;
+
+vec3 lookup(vec3 color) {
+  color = clamp(color, 0.0, 1.0);
+  float slice = color.b * (lutSize - 1.0);
+  float lower = floor(slice);
+  float upper = min(lower + 1.0, lutSize - 1.0);
+  // Sample texel centers within a slice to avoid bleeding into its neighbors
+  vec2 uv = (color.rg * (lutSize - 1.0) + 0.5) / vec2(lutSize * lutSize, lutSize);
+  vec3 a = texture2D(lut, uv + vec2(lower / lutSize, 0.0)).rgb;
+  vec3 b = texture2D(lut, uv + vec2(upper / lutSize, 0.0)).rgb;
+  return mix(a, b, slice - lower);
+}
+
+void main() {
+  vec4 color = readInput(screenUv());
+  gl_FragColor = color;
+  #include <tonemapping_fragment>
+  #include <colorspace_fragment>
+  // LUTs map display colors; grade linear intermediates in sRGB and back
+  vec4 display = encoded ? gl_FragColor : sRGBTransferOETF(gl_FragColor);
+  vec3 graded = mix(display.rgb, lookup(display.rgb), intensity);
+  gl_FragColor = encoded
+    ? vec4(graded, display.a)
+    : sRGBTransferEOTF(vec4(graded, display.a));
+}
+`;
+
+/**
+ * Color grading with a 3D lookup table stored as a 2D strip texture.
+ *
+ * @remarks
+ * Runs after tone mapping when it is the last effect, which it is by default.
+ *
+ * @example
+ * ```ts
+ * const lut = await new TextureLoader().loadAsync('/luts/warm.png');
+ * world.renderPipeline.addPass(new ColorGradingPass({ lut, intensity: 0.8 }));
+ * ```
+ *
+ * @category Rendering
+ */
+export class ColorGradingPass extends FullscreenPass {
+  readonly readsInput = true;
+  lut: Texture;
+  size?: number;
+  intensity: number;
+
+  constructor(options: ColorGradingPassOptions) {
+    super(
+      COLOR_GRADING_FRAGMENT,
+      {
+        lut: { value: null },
+        lutSize: { value: 0 },
+        intensity: { value: 1 },
+        encoded: { value: false },
+      },
+      options.order ?? 100,
+    );
+    this.lut = options.lut;
+    this.size = options.size;
+    this.intensity = options.intensity ?? 1;
+  }
+
+  render(
+    input: Texture | null,
+    target: WebGLRenderTarget | null,
+    context: RenderPassContext,
+  ): void {
+    const lut = this.lut;
+    lut.generateMipmaps = false;
+    lut.minFilter = LinearFilter;
+    lut.magFilter = LinearFilter;
+    const uniforms = this.material.uniforms;
+    uniforms.lut.value = lut;
+    uniforms.lutSize.value =
+      this.size ?? (lut.image as { height?: number } | null)?.height ?? 1;
+    uniforms.intensity.value = this.intensity;
+    // Only the output framebuffer receives tone mapping and sRGB encoding
+    uniforms.encoded.value = target === null;
+    this.draw(context, input, target);
+  }
+}
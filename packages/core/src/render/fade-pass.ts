@@ -0,0 +1,140 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import {
+  Color,
+  NormalBlending,
+  Texture,
+  WebGLRenderTarget,
+} from '../runtime/index.js';
+import { FullscreenPass, RenderPassContext } from './render-pass.js';
+
+/** Options for {@link FadePass}. @category Rendering */
+export interface FadePassOptions {
+  /** @defaultValue black */
+  color?: Color;
+  /** Initial opacity. @defaultValue 0 */
+  opacity?: number;
+  /** @defaultValue 300, above every other pass */
+  order?: number;
+}
+
+const FADE_FRAGMENT = /* glsl */ `
+uniform vec3 color;
+uniform float opacity;
+void main() {
+  gl_FragColor = vec4(color, opacity);
+  #include <colorspace_fragment>
+}
+`;
+
+interface Fade {
+  from: number;
+  to: number;
+  duration: number;
+  elapsed: number;
+  resolve: () => void;
+}
+
+/**
+ * Full‑view color fade, e.g. fade to black around teleports and level changes.
+ *
+ * @example
+ * ```ts
+ * const fade = world.renderPipeline.addPass(new FadePass());
+ * await fade.fadeOut(0.3);
+ * // swap content
+ * await fade.fadeIn(0.3);
+ * ```
+ *
+ * @category Rendering
+ */
+export class FadePass extends FullscreenPass {
+  readonly readsInput = false;
+  /** Current opacity, 0 (clear) to 1 (fully covered). */
+  opacity: number;
+  readonly color: Color;
+  private fade?: Fade;
+
+  constructor(options: FadePassOptions = {}) {
+    super(
+      FADE_FRAGMENT,
+      { color: { value: new Color() }, opacity: { value: 0 } },
+      options.order ?? 300,
+    );
+    this.opacity = options.opacity ?? 0;
+    this.color = options.color ?? new Color(0, 0, 0);
+    this.material.blending = NormalBlending;
+    this.material.transparent = true;
+    this.material.toneMapped = false;
+  }
+
+  /** Animate opacity to `opacity` over `duration` seconds, replacing a running fade. */
+  fadeTo(opacity: number, duration: number): Promise<void> {
+    this.finish();
+    if (duration <= 0) {
+      this.opacity = opacity;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.fade = {
+        from: this.opacity,
+        to: opacity,
+        duration,
+        elapsed: 0,
+        resolve,
+      };
+    });
+  }
+
+  /** Cover the view. */
+  fadeOut(duration = 0.3): Promise<void> {
+    return this.fadeTo(1, duration);
+  }
+
+  /** Reveal the view. */
+  fadeIn(duration = 0.3): Promise<void> {
+    return this.fadeTo(0, duration);
+  }
+
+  update(delta: number): void {
+    const fade = this.fade;
+    if (!fade) {
+      return;
+    }
+    fade.elapsed += delta;
+    const t = Math.min(fade.elapsed / fade.duration, 1);
+    this.opacity = fade.from + (fade.to - fade.from) * t;
+    if (t >= 1) {
+      this.finish();
+    }
+  }
+
+  render(
+    _input: Texture | null,
+    target: WebGLRenderTarget | null,
+    context: RenderPassContext,
+  ): void {
+    if (this.opacity <= 0) {
+      return;
+    }
+    const uniforms = this.material.uniforms;
+    uniforms.color.value.copy(this.color);
+    uniforms.opacity.value = Math.min(this.opacity, 1);
+    this.draw(context, null, target);
+  }
+
+  /** Settle a running fade at its end value. */
+  private finish(): void {
+    const fade = this.fade;
+    if (fade) {
+      this.fade = undefined;
+      this.opacity = fade.to;
+      fade.resolve();
+    }
+  }
+}
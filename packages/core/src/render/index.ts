@@ -0,0 +1,13 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+export * from './render-pass.js';
+export * from './render-pipeline.js';
+export * from './bloom-pass.js';
+export * from './color-grading-pass.js';
+export * from './vignette-pass.js';
+export * from './fade-pass.js';
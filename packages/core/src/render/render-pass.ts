@@ -0,0 +1,190 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import {
+  Camera,
+  IUniform,
+  Mesh,
+  NoBlending,
+  OrthographicCamera,
+  PlaneGeometry,
+  Scene,
+  ShaderMaterial,
+  Texture,
+  Vector2,
+  WebGLRenderer,
+  WebGLRenderTarget,
+} from '../runtime/index.js';
+
+/**
+ * Per-frame state handed to {@link RenderPass.render}.
+ *
+ * @category Rendering
+ */
+export interface RenderPassContext {
+  renderer: WebGLRenderer;
+  scene: Scene;
+  camera: Camera;
+  /** Seconds since the previous frame. */
+  delta: number;
+  /** Pixel size of the output (of each layer in multiview). */
+  width: number;
+  height: number;
+  /** Whether intermediate targets are multiview texture arrays (one layer per eye). */
+  multiview: boolean;
+  /** Views placed side by side in each target: 2 in non‑multiview XR, otherwise 1. */
+  views: number;
+  /**
+   * Allocate a color target matching the output, owned and resized by the pipeline.
+   * Request targets again after {@link RenderPass.resetTargets}.
+   */
+  createTarget(scale?: number): WebGLRenderTarget;
+}
+
+/**
+ * One ordered step of a {@link RenderPipeline}.
+ *
+ * @remarks
+ * - Effect passes (`readsInput: true`) sample the frame rendered so far and write a
+ *   new one; the last enabled effect writes to the canvas or XR framebuffer.
+ * - Overlay passes (`readsInput: false`) draw over the final image after all effects,
+ *   so they cost no extra render target.
+ *
+ * @category Rendering
+ */
+export abstract class RenderPass {
+  /** Disabled passes are skipped without releasing their resources. */
+  enabled = true;
+
+  constructor(
+    /** Sort key; lower values run first. */
+    public order = 0,
+  ) {}
+
+  abstract readonly readsInput: boolean;
+
+  /** Advance animated parameters once per frame, before rendering. */
+  update(_delta: number): void {}
+
+  /**
+   * Render into `target` (`null` for the canvas or XR framebuffer), reading `input`
+   * for effect passes.
+   */
+  abstract render(
+    input: Texture | null,
+    target: WebGLRenderTarget | null,
+    context: RenderPassContext,
+  ): void;
+
+  /**
+   * Forget targets from {@link RenderPassContext.createTarget}; called when the
+   * pipeline replaced them after the output switched to or from multiview.
+   */
+  resetTargets(): void {}
+
+  dispose(): void {}
+}
+
+/**
+ * GLSL shared by full‑screen passes: `readInput(uv)` samples the input frame for the
+ * current view, from a texture array under multiview and a 2D texture otherwise.
+ * `screenUv()` spans the whole target, for sampling inputs; `viewUv()` spans the
+ * current eye, for effects centered in each view.
+ *
+ * @category Rendering
+ */
+export const INPUT_CHUNK = /* glsl */ `
+uniform vec2 resolution;
+uniform float views;
+#ifdef VIEW_ID
+uniform sampler2DArray tInput;
+vec4 readInput(vec2 uv) { return texture(tInput, vec3(uv, VIEW_ID)); }
+#else
+uniform sampler2D tInput;
+vec4 readInput(vec2 uv) { return texture2D(tInput, uv); }
+#endif
+vec2 screenUv() { return gl_FragCoord.xy / resolution; }
+vec2 viewUv() {
+  vec2 uv = screenUv();
+  return vec2(fract(uv.x * views), uv.y);
+}
+`;
+
+const FULLSCREEN_VERTEX = /* glsl */ `
+void main() {
+  gl_Position = vec4(position.xy, 0.0, 1.0);
+}
+`;
+
+/**
+ * Base for passes drawing one full‑screen triangle pair with a shader.
+ *
+ * @remarks
+ * The quad is drawn without the XR camera, so it covers the whole target in a single
+ * draw: both eyes of a side‑by‑side target, and every layer of a multiview target.
+ * Sample inputs at `screenUv()` from {@link INPUT_CHUNK}.
+ *
+ * @category Rendering
+ */
+export abstract class FullscreenPass extends RenderPass {
+  protected readonly material: ShaderMaterial;
+  private readonly quad: Mesh;
+  private readonly quadScene = new Scene();
+  private readonly quadCamera = new OrthographicCamera(-1, 1, 1, -1, 0, 1);
+
+  constructor(
+    fragmentShader: string,
+    uniforms: Record<string, IUniform>,
+    order = 0,
+  ) {
+    super(order);
+    this.material = new ShaderMaterial({
+      vertexShader: FULLSCREEN_VERTEX,
+      fragmentShader,
+      uniforms: {
+        tInput: { value: null },
+        resolution: { value: new Vector2() },
+        views: { value: 1 },
+        ...uniforms,
+      },
+      depthTest: false,
+      depthWrite: false,
+      blending: NoBlending,
+    });
+    this.quad = new Mesh(new PlaneGeometry(2, 2), this.material);
+    this.quad.frustumCulled = false;
+    this.quadScene.add(this.quad);
+  }
+
+  /** Draw the quad with `material` (defaults to the pass material). */
+  protected draw(
+    context: RenderPassContext,
+    input: Texture | null,
+    target: WebGLRenderTarget | null,
+    material: ShaderMaterial = this.material,
+  ): void {
+    const { renderer } = context;
+    const xrEnabled = renderer.xr.enabled;
+    material.uniforms.tInput.value = input;
+    material.uniforms.resolution.value.set(
+      target ? target.width : context.width,
+      target ? target.height : context.height,
+    );
+    material.uniforms.views.value = context.views;
+    this.quad.material = material;
+    renderer.setRenderTarget(target);
+    // Keeps the XR camera (and its session depth range) out of the quad draw
+    renderer.xr.enabled = false;
+    renderer.render(this.quadScene, this.quadCamera);
+    renderer.xr.enabled = xrEnabled;
+  }
+
+  dispose(): void {
+    this.quad.geometry.dispose();
+    this.material.dispose();
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { WebGLMultiviewRenderTarget } from 'three/src/renderers/WebGLMultiviewRenderTarget.js';
+import {
+  Camera,
+  HalfFloatType,
+  Scene,
+  Vector2,
+  WebGLRenderer,
+  WebGLRenderTarget,
+} from '../runtime/index.js';
+import type { RenderPass, RenderPassContext } from './render-pass.js';
+
+interface ManagedTarget {
+  target: WebGLRenderTarget;
+  scale: number;
+}
+
+const drawingBufferSize = new Vector2();
+
+function isMultiviewTarget(
+  target: WebGLRenderTarget | null,
+): target is WebGLMultiviewRenderTarget {
+  return (
+    (target as Partial<WebGLMultiviewRenderTarget> | null)
+      ?.isWebGLMultiviewRenderTarget === true
+  );
+}
+
+/**
+ * Ordered post‑processing for the world, available as `world.renderPipeline`.
+ *
+ * @remarks
+ * - With no enabled passes the scene renders straight to the canvas or XR
+ *   framebuffer, exactly as without a pipeline.
+ * - With effect passes the scene renders to an HDR target first; tone mapping and
+ *   output color space are applied by the last effect.
+ * - In XR sessions intermediate targets match the XR framebuffer: a multiview texture
+ *   array when the renderer uses `multiviewStereo`, otherwise one side‑by‑side target.
+ *
+ * @example Add bloom and fade to black
+ * ```ts
+ * world.renderPipeline.addPass(new BloomPass({ strength: 0.6 }));
+ * const fade = world.renderPipeline.addPass(new FadePass());
+ * await fade.fadeOut(0.5);
+ * ```
+ *
+ * @category Rendering
+ */
+export class RenderPipeline {
+  private passes: RenderPass[] = [];
+  private targets: ManagedTarget[] = [];
+  private sceneTarget?: WebGLRenderTarget;
+  private pingPong: WebGLRenderTarget[] = [];
+  private multiview = false;
+  private width = 0;
+  private height = 0;
+
+  constructor(
+    private renderer: WebGLRenderer,
+    private scene: Scene,
+    private camera: Camera,
+  ) {}
+
+  /** Add a pass, keeping passes sorted by `order` (insertion order among equals). */
+  addPass<T extends RenderPass>(pass: T): T {
+    this.passes.push(pass);
+    this.passes.sort((a, b) => a.order - b.order);
+    return pass;
+  }
+
+  removePass(pass: RenderPass): void {
+    const index = this.passes.indexOf(pass);
+    if (index !== -1) {
+      this.passes.splice(index, 1);
+    }
+  }
+
+  getPasses(): readonly RenderPass[] {
+    return this.passes;
+  }
+
+  /** Render one frame: the scene, then every enabled pass in order. */
+  render(delta: number): void {
+    const { renderer, scene, camera } = this;
+    const passes = this.passes.filter((pass) => pass.enabled);
+    passes.forEach((pass) => pass.update(delta));
+    const effects = passes.filter((pass) => pass.readsInput);
+    const overlays = passes.filter((pass) => !pass.readsInput);
+
+    renderer.setRenderTarget(null);
+    if (passes.length === 0) {
+      renderer.render(scene, camera);
+      return;
+    }
+    // In XR `null` resolves to the session framebuffer
+    const output = renderer.getRenderTarget();
+    this.resize(output);
+    const context: RenderPassContext = {
+      renderer,
+      scene,
+      camera,
+      delta,
+      width: this.width,
+      height: this.height,
+      multiview: this.multiview,
+      views: output && !this.multiview && renderer.xr.isPresenting ? 2 : 1,
+      createTarget: (scale = 1) => this.createTarget(scale),
+    };
+
+    if (effects.length === 0) {
+      renderer.render(scene, camera);
+    } else {
+      this.sceneTarget ??= this.createTarget(1);
+      renderer.setRenderTarget(this.sceneTarget);
+      renderer.render(scene, camera);
+      let input = this.sceneTarget;
+      effects.forEach((pass, index) => {
+        const last = index === effects.length - 1;
+        const target = last ? null : this.getPingPong(input);
+        pass.render(input.texture, target, context);
+        if (target) {
+          input = target;
+        }
+      });
+    }
+
+    const autoClear = renderer.autoClear;
+    renderer.autoClear = false;
+    for (const pass of overlays) {
+      pass.render(null, null, context);
+    }
+    renderer.autoClear = autoClear;
+    renderer.setRenderTarget(null);
+  }
+
+  /** Dispose all passes and intermediate targets. */
+  dispose(): void {
+    this.passes.forEach((pass) => pass.dispose());
+    this.passes = [];
+    this.targets.forEach(({ target }) => target.dispose());
+    this.targets = [];
+    this.sceneTarget = undefined;
+    this.pingPong = [];
+  }
+
+  private getPingPong(current: WebGLRenderTarget): WebGLRenderTarget {
+    while (this.pingPong.length < 2) {
+      this.pingPong.push(this.createTarget(1));
+    }
+    return this.pingPong[0] === current ? this.pingPong[1] : this.pingPong[0];
+  }
+
+  private createTarget(scale: number): WebGLRenderTarget {
+    // Multiview targets get a texture-array depth attachment from the renderer
+    const target = this.multiview
+      ? new WebGLMultiviewRenderTarget(1, 1, 2, { type: HalfFloatType })
+      : new WebGLRenderTarget(1, 1, { type: HalfFloatType });
+    this.setSize(target, scale);
+    this.targets.push({ target, scale });
+    return target;
+  }
+
+  /** Match intermediate targets to the output size and layout. */
+  private resize(output: WebGLRenderTarget | null): void {
+    const multiview = isMultiviewTarget(output);
+    if (output) {
+      drawingBufferSize.set(output.width, output.height);
+    } else {
+      this.renderer.getDrawingBufferSize(drawingBufferSize);
+    }
+    if (
+      multiview === this.multiview &&
+      drawingBufferSize.x === this.width &&
+      drawingBufferSize.y === this.height
+    ) {
+      return;
+    }
+    const relayout = multiview !== this.multiview;
+    this.multiview = multiview;
+    this.width = drawingBufferSize.x;
+    this.height = drawingBufferSize.y;
+    if (relayout) {
+      // Texture arrays and 2D textures need different target classes; passes
+      // request new ones on their next render
+      this.targets.forEach(({ target }) => target.dispose());
+      this.targets = [];
+      this.sceneTarget = undefined;
+      this.pingPong = [];
+      this.passes.forEach((pass) => pass.resetTargets());
+      return;
+    }
+    for (const { target, scale } of this.targets) {
+      this.setSize(target, scale);
+    }
+  }
+
+  private setSize(target: WebGLRenderTarget, scale: number): void {
+    target.setSize(
+      Math.max(1, Math.round(this.width * scale)),
+      Math.max(1, Math.round(this.height * scale)),
+    );
+  }
+}
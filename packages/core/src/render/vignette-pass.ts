@@ -0,0 +1,101 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import {
+  Color,
+  NormalBlending,
+  Texture,
+  WebGLRenderTarget,
+} from '../runtime/index.js';
+import {
+  FullscreenPass,
+  INPUT_CHUNK,
+  RenderPassContext,
+} from './render-pass.js';
+
+/** Options for {@link VignettePass}. @category Rendering */
+export interface VignettePassOptions {
+  /** Opacity of the vignette edge, 0 disables drawing. @defaultValue 0.5 */
+  intensity?: number;
+  /** Distance from the view center, in half view heights, where darkening starts. @defaultValue 0.6 */
+  radius?: number;
+  /** Width of the transition to full intensity. @defaultValue 0.4 */
+  softness?: number;
+  /** @defaultValue black */
+  color?: Color;
+  /** @defaultValue 200, after effects and other overlays */
+  order?: number;
+}
+
+const VIGNETTE_FRAGMENT = /* glsl */ `
+${INPUT_CHUNK}
+uniform vec3 color;
+uniform float intensity;
+uniform float radius;
+uniform float softness;
+void main() {
+  vec2 uv = viewUv() * 2.0 - 1.0;
+  uv.x *= resolution.x / (views * resolution.y);
+  float edge = smoothstep(radius, radius + softness, length(uv));
+  gl_FragColor = vec4(color, edge * intensity);
+  #include <colorspace_fragment>
+}
+`;
+
+/**
+ * Darkened edges around each view, centered per eye in XR.
+ *
+ * @remarks
+ * An overlay: drawn over the final image and cheap enough to keep enabled. A strong,
+ * narrow vignette reduces peripheral motion and thus discomfort during artificial
+ * locomotion.
+ *
+ * @category Rendering
+ */
+export class VignettePass extends FullscreenPass {
+  readonly readsInput = false;
+  intensity: number;
+  radius: number;
+  softness: number;
+  readonly color: Color;
+
+  constructor(options: VignettePassOptions = {}) {
+    super(
+      VIGNETTE_FRAGMENT,
+      {
+        color: { value: new Color() },
+        intensity: { value: 0 },
+        radius: { value: 0 },
+        softness: { value: 0 },
+      },
+      options.order ?? 200,
+    );
+    this.intensity = options.intensity ?? 0.5;
+    this.radius = options.radius ?? 0.6;
+    this.softness = options.softness ?? 0.4;
+    this.color = options.color ?? new Color(0, 0, 0);
+    this.material.blending = NormalBlending;
+    this.material.transparent = true;
+    this.material.toneMapped = false;
+  }
+
+  render(
+    _input: Texture | null,
+    target: WebGLRenderTarget | null,
+    context: RenderPassContext,
+  ): void {
+    if (this.intensity <= 0) {
+      return;
+    }
+    const uniforms = this.material.uniforms;
+    uniforms.color.value.copy(this.color);
+    uniforms.intensity.value = Math.min(this.intensity, 1);
+    uniforms.radius.value = this.radius;
+    uniforms.softness.value = Math.max(this.softness, 1e-3);
+    this.draw(context, null, target);
+  }
+}
@@ -0,0 +1,423 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { AnyComponent } from 'elics';
+import type { Entity } from '../ecs/index.js';
+import {
+  Box3,
+  Camera,
+  Frustum,
+  Matrix4,
+  Mesh,
+  Object3D,
+  Ray,
+  Vector3,
+} from '../runtime/three.js';
+
+/** One component or several (all required) to filter spatial query results. */
+export type SpatialFilter = AnyComponent | AnyComponent[];
+
+/** Options for {@link SpatialIndex}. @category Spatial */
+export interface SpatialIndexOptions {
+  /** Half size in meters of the initial root cell; the tree grows as needed. @defaultValue 64 */
+  rootSize?: number;
+  /** Smallest cell half size in meters. @defaultValue 0.5 */
+  minCellSize?: number;
+}
+
+interface SpatialEntry {
+  entity: Entity;
+  box: Box3;
+  /** Center and largest half extent of `box`. */
+  center: Vector3;
+  extent: number;
+  matrix: Matrix4;
+  /** Recompute `box` on the next update even if `matrix` is unchanged. */
+  stale: boolean;
+  node?: OctreeNode;
+}
+
+class OctreeNode {
+  readonly loose: Box3;
+  entries = new Set<SpatialEntry>();
+  children: Array<OctreeNode | undefined> = [];
+
+  constructor(
+    readonly center: Vector3,
+    readonly halfSize: number,
+    public parent?: OctreeNode,
+  ) {
+    // Loose factor 2: entries fit when their center lies in the tight cell and
+    // their extent is at most halfSize
+    const loose = new Vector3().setScalar(halfSize * 2);
+    this.loose = new Box3(center.clone().sub(loose), center.clone().add(loose));
+  }
+
+  contains(point: Vector3): boolean {
+    const { center, halfSize } = this;
+    return (
+      Math.abs(point.x - center.x) <= halfSize &&
+      Math.abs(point.y - center.y) <= halfSize &&
+      Math.abs(point.z - center.z) <= halfSize
+    );
+  }
+
+  octant(point: Vector3): number {
+    return (
+      (point.x >= this.center.x ? 1 : 0) |
+      (point.y >= this.center.y ? 2 : 0) |
+      (point.z >= this.center.z ? 4 : 0)
+    );
+  }
+
+  child(octant: number): OctreeNode {
+    let child = this.children[octant];
+    if (!child) {
+      const quarter = this.halfSize / 2;
+      child = new OctreeNode(
+        new Vector3(
+          this.center.x + (octant & 1 ? quarter : -quarter),
+          this.center.y + (octant & 2 ? quarter : -quarter),
+          this.center.z + (octant & 4 ? quarter : -quarter),
+        ),
+        quarter,
+        this,
+      );
+      this.children[octant] = child;
+    }
+    return child;
+  }
+
+  get empty(): boolean {
+    return this.entries.size === 0 && !this.children.some(Boolean);
+  }
+}
+
+const box = new Box3();
+const point = new Vector3();
+const projection = new Matrix4();
+const frustum = new Frustum();
+
+/**
+ * Expand `target` by the geometry of `object` and its descendants, stopping at
+ * descendants that are entities of their own.
+ */
+function expandByOwnGeometry(object: Object3D, target: Box3, root = true) {
+  if (!root) {
+    if (object.entityIdx !== undefined) {
+      return;
+    }
+    object.updateWorldMatrix(false, false);
+  }
+  const geometry = (object as Mesh).geometry;
+  if (geometry) {
+    if (!geometry.boundingBox) {
+      geometry.computeBoundingBox();
+    }
+    target.union(
+      box.copy(geometry.boundingBox!).applyMatrix4(object.matrixWorld),
+    );
+  }
+  for (const child of object.children) {
+    expandByOwnGeometry(child, target, false);
+  }
+}
+
+function isFiniteEntry(entry: SpatialEntry): boolean {
+  const { center, extent } = entry;
+  return (
+    Number.isFinite(center.x) &&
+    Number.isFinite(center.y) &&
+    Number.isFinite(center.z) &&
+    Number.isFinite(extent)
+  );
+}
+
+function matches(entity: Entity, filter?: SpatialFilter): boolean {
+  if (!entity.active) {
+    return false;
+  }
+  if (!filter) {
+    return true;
+  }
+  return Array.isArray(filter)
+    ? filter.every((component) => entity.hasComponent(component))
+    : entity.hasComponent(filter);
+}
+
+/**
+ * Loose octree over entity bounds, available as `world.spatial`.
+ *
+ * @remarks
+ * - Bounds are world‑space AABBs of an entity's own geometry, including non‑entity
+ *   descendants such as GLTF meshes; child entities are indexed separately. Entities
+ *   without geometry are indexed as points at their world position.
+ * - Maintained by the {@link SpatialIndexSystem} once per frame, starting with the
+ *   first query, so worlds that never query it pay nothing.
+ * - Entries are recomputed when the entity's world matrix changed or a child was
+ *   added to or removed from its Object3D. Call {@link invalidate} after other edits
+ *   to the subtree, such as moving a non-entity descendant.
+ * - Query results are entities whose bounds intersect the query shape, filtered by
+ *   an optional component or list of components.
+ *
+ * @example
+ * const nearby = world.spatial.queryRadius(player.position, 2, Interactable);
+ *
+ * @category Spatial
+ */
+export class SpatialIndex {
+  private root: OctreeNode;
+  private entries = new Map<Entity, SpatialEntry>();
+  private minCellSize: number;
+  private activated = false;
+
+  /**
+   * Brings the index up to date when the first query activates it; set by the
+   * {@link SpatialIndexSystem}.
+   */
+  onActivate?: () => void;
+
+  constructor(options: SpatialIndexOptions = {}) {
+    this.root = new OctreeNode(new Vector3(), options.rootSize ?? 64);
+    this.minCellSize = options.minCellSize ?? 0.5;
+  }
+
+  /** True once the index has been queried; until then nothing keeps it in sync. */
+  get active(): boolean {
+    return this.activated;
+  }
+
+  /** Number of indexed entities. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Insert the entity or refresh its bounds from `object3D.matrixWorld`, which must be
+   * up to date.
+   */
+  update(entity: Entity): void {
+    const object = entity.object3D;
+    if (!object) {
+      this.remove(entity);
+      return;
+    }
+    let entry = this.entries.get(entity);
+    if (entry && !entry.stale && entry.matrix.equals(object.matrixWorld)) {
+      return;
+    }
+    if (!entry) {
+      entry = {
+        entity,
+        box: new Box3(),
+        center: new Vector3(),
+        extent: 0,
+        matrix: new Matrix4(),
+        stale: false,
+      };
+      this.entries.set(entity, entry);
+    }
+    entry.matrix.copy(object.matrixWorld);
+    entry.stale = false;
+    entry.box.makeEmpty();
+    expandByOwnGeometry(object, entry.box);
+    if (entry.box.isEmpty()) {
+      entry.box.setFromCenterAndSize(
+        point.setFromMatrixPosition(object.matrixWorld),
+        box.min.set(0, 0, 0),
+      );
+    }
+    entry.box.getCenter(entry.center);
+    entry.box.getSize(point);
+    entry.extent = Math.max(point.x, point.y, point.z) / 2;
+    if (!isFiniteEntry(entry)) {
+      // The root could never grow to contain it
+      console.warn('[SpatialIndex] Ignoring entity with non-finite bounds');
+      this.remove(entity);
+      return;
+    }
+
+    const node = entry.node;
+    if (node && this.fits(node, entry) && !this.fitsDeeper(node, entry)) {
+      return;
+    }
+    this.detach(entry);
+    this.insert(entry);
+  }
+
+  /** Recompute the entity's bounds on its next {@link update}. */
+  invalidate(entity: Entity): void {
+    const entry = this.entries.get(entity);
+    if (entry) {
+      entry.stale = true;
+    }
+  }
+
+  /** Drop the entity from the index. */
+  remove(entity: Entity): void {
+    const entry = this.entries.get(entity);
+    if (entry) {
+      this.detach(entry);
+      this.entries.delete(entity);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.root = new OctreeNode(new Vector3(), this.root.halfSize);
+  }
+
+  /** Entities whose bounds are within `radius` of `center`. */
+  queryRadius(
+    center: Vector3,
+    radius: number,
+    filter?: SpatialFilter,
+  ): Entity[] {
+    const radiusSq = radius * radius;
+    return this.collect(
+      (bounds) => bounds.distanceToPoint(center) <= radius,
+      (entry) => entry.box.distanceToPoint(center) ** 2 <= radiusSq,
+      filter,
+    );
+  }
+
+  /** Entities whose bounds intersect `bounds`. */
+  queryBox(bounds: Box3, filter?: SpatialFilter): Entity[] {
+    return this.collect(
+      (node) => node.intersectsBox(bounds),
+      (entry) => entry.box.intersectsBox(bounds),
+      filter,
+    );
+  }
+
+  /** Entities whose bounds the ray hits within `far`, nearest first. */
+  queryRay(ray: Ray, filter?: SpatialFilter, far = Infinity): Entity[] {
+    const hits: Array<{ entity: Entity; distance: number }> = [];
+    this.collect(
+      (bounds) => ray.intersectsBox(bounds),
+      (entry) => {
+        const hit = ray.intersectBox(entry.box, point);
+        if (hit) {
+          const distance = ray.origin.distanceTo(hit);
+          if (distance <= far) {
+            hits.push({ entity: entry.entity, distance });
+          }
+        }
+        return false;
+      },
+      filter,
+    );
+    return hits
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ entity }) => entity);
+  }
+
+  /** Entities whose bounds intersect the frustum, or a camera's view frustum. */
+  queryFrustum(view: Frustum | Camera, filter?: SpatialFilter): Entity[] {
+    let shape: Frustum;
+    if (view instanceof Frustum) {
+      shape = view;
+    } else {
+      view.updateMatrixWorld();
+      shape = frustum.setFromProjectionMatrix(
+        projection.multiplyMatrices(
+          view.projectionMatrix,
+          view.matrixWorldInverse,
+        ),
+      );
+    }
+    return this.collect(
+      (bounds) => shape.intersectsBox(bounds),
+      (entry) => shape.intersectsBox(entry.box),
+      filter,
+    );
+  }
+
+  private collect(
+    testNode: (bounds: Box3) => boolean,
+    testEntry: (entry: SpatialEntry) => boolean,
+    filter?: SpatialFilter,
+  ): Entity[] {
+    if (!this.activated) {
+      this.activated = true;
+      this.onActivate?.();
+    }
+    const result: Entity[] = [];
+    const visit = (node: OctreeNode) => {
+      if (!testNode(node.loose)) {
+        return;
+      }
+      for (const entry of node.entries) {
+        if (matches(entry.entity, filter) && testEntry(entry)) {
+          result.push(entry.entity);
+        }
+      }
+      for (const child of node.children) {
+        if (child) {
+          visit(child);
+        }
+      }
+    };
+    visit(this.root);
+    return result;
+  }
+
+  private fits(node: OctreeNode, entry: SpatialEntry): boolean {
+    return entry.extent <= node.halfSize && node.contains(entry.center);
+  }
+
+  private fitsDeeper(node: OctreeNode, entry: SpatialEntry): boolean {
+    const childSize = node.halfSize / 2;
+    return childSize >= this.minCellSize && entry.extent <= childSize;
+  }
+
+  private insert(entry: SpatialEntry): void {
+    while (!this.fits(this.root, entry)) {
+      this.grow(entry.center);
+    }
+    let node = this.root;
+    while (this.fitsDeeper(node, entry)) {
+      node = node.child(node.octant(entry.center));
+    }
+    node.entries.add(entry);
+    entry.node = node;
+  }
+
+  /** Double the root toward `target`, keeping the old root as one of its children. */
+  private grow(target: Vector3): void {
+    const old = this.root;
+    const center = old.center
+      .clone()
+      .addScaledVector(
+        point.set(
+          target.x >= old.center.x ? 1 : -1,
+          target.y >= old.center.y ? 1 : -1,
+          target.z >= old.center.z ? 1 : -1,
+        ),
+        old.halfSize,
+      );
+    const root = new OctreeNode(center, old.halfSize * 2);
+    root.children[root.octant(old.center)] = old;
+    old.parent = root;
+    this.root = root;
+  }
+
+  private detach(entry: SpatialEntry): void {
+    let node = entry.node;
+    if (!node) {
+      return;
+    }
+    node.entries.delete(entry);
+    entry.node = undefined;
+    // Prune empty branches
+    while (node.parent && node.empty) {
+      const parent: OctreeNode = node.parent;
+      parent.children[parent.children.indexOf(node)] = undefined;
+      node = parent;
+    }
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { createSystem } from '../ecs/index.js';
+import type { Entity } from '../ecs/index.js';
+import { LevelRoot } from '../level/index.js';
+import type { Object3D } from '../runtime/index.js';
+import { Transform, updateEntityWorldMatrices } from '../transform/index.js';
+
+interface SubtreeWatch {
+  object: Object3D;
+  listener: () => void;
+}
+
+/**
+ * Keeps {@link World.spatial} in sync with every {@link Transform} entity.
+ *
+ * @remarks
+ * - Idle until the first spatial query; from then on it refreshes world matrices
+ *   parents first every frame and updates the index. Entities whose world matrix
+ *   did not change are skipped.
+ * - Adding or removing a child of an entity's Object3D (e.g. attaching a GLTF scene)
+ *   refreshes its bounds.
+ * - The scene and level roots are not indexed.
+ * - Runs with the built‑in scene systems, so movement applied later in the frame is
+ *   reflected in queries on the next frame.
+ *
+ * @category Spatial
+ */
+export class SpatialIndexSystem extends createSystem({
+  indexed: { required: [Transform], excluded: [LevelRoot] },
+}) {
+  private watches = new Map<Entity, SubtreeWatch>();
+
+  init(): void {
+    this.queries.indexed.subscribe('disqualify', (entity) => {
+      this.unwatch(entity);
+      this.world.spatial.remove(entity);
+    });
+    this.world.spatial.onActivate = () => this.sync();
+    this.cleanupFuncs.push(() => {
+      this.world.spatial.onActivate = undefined;
+      [...this.watches.keys()].forEach((entity) => this.unwatch(entity));
+    });
+  }
+
+  update(): void {
+    if (this.world.spatial.active) {
+      this.sync();
+    }
+  }
+
+  private sync(): void {
+    for (const entity of updateEntityWorldMatrices(
+      this.queries.indexed.entities,
+    )) {
+      if (entity.object3D !== this.world.scene) {
+        this.watch(entity);
+        this.world.spatial.update(entity);
+      }
+    }
+  }
+
+  /** Invalidate the entity's bounds whenever its Object3D gains or loses a child. */
+  private watch(entity: Entity): void {
+    const object = entity.object3D!;
+    if (this.watches.get(entity)?.object === object) {
+      return;
+    }
+    this.unwatch(entity);
+    const listener = () => this.world.spatial.invalidate(entity);
+    object.addEventListener('childadded', listener);
+    object.addEventListener('childremoved', listener);
+    this.watches.set(entity, { object, listener });
+  }
+
+  private unwatch(entity: Entity): void {
+    const watch = this.watches.get(entity);
+    if (watch) {
+      watch.object.removeEventListener('childadded', watch.listener);
+      watch.object.removeEventListener('childremoved', watch.listener);
+      this.watches.delete(entity);
+    }
+  }
+}
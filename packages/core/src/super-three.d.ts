@@ -0,0 +1,23 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+// super-three additions missing from @types/three
+
+declare module 'three/src/renderers/WebGLMultiviewRenderTarget.js' {
+  import { RenderTargetOptions, WebGLRenderTarget } from 'three';
+
+  export class WebGLMultiviewRenderTarget extends WebGLRenderTarget {
+    constructor(
+      width?: number,
+      height?: number,
+      numViews?: number,
+      options?: RenderTargetOptions,
+    );
+    readonly isWebGLMultiviewRenderTarget: true;
+    numViews: number;
+  }
+}
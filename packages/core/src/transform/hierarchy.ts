@@ -0,0 +1,142 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { createComponent, Entity } from '../ecs/index.js';
+import { Transform } from './transform.js';
+
+/** Options for `entity.destroy()`. @category Scene */
+export interface DestroyOptions {
+  /** Also destroy every descendant entity. @defaultValue false */
+  recursive?: boolean;
+  /**
+   * Re‑attach the remaining child entities to this entity's parent, keeping their world
+   * transform, instead of removing them from the scene with this entity's Object3D.
+   * @defaultValue false
+   */
+  reparentChildren?: boolean;
+}
+
+declare module 'elics' {
+  interface Entity {
+    /** Direct child entities (by `Transform.parent`), as indexed by the {@link TransformSystem}. */
+    getChildren(): Entity[];
+    /** All descendant entities, depth‑first, parents before their children. */
+    getDescendants(): Entity[];
+    /**
+     * Destroy the entity. Children tagged {@link DestroyWithParent} are destroyed too;
+     * `recursive` destroys every descendant and `reparentChildren` keeps the other
+     * children in the scene under this entity's parent.
+     */
+    destroy(options?: DestroyOptions): void;
+  }
+}
+
+/**
+ * Marks an entity as part of its parent's subtree (e.g. GLXF or prefab child nodes):
+ * it is destroyed whenever its parent entity is destroyed.
+ *
+ * @category Scene
+ * @hideineditor
+ */
+export const DestroyWithParent = createComponent(
+  'DestroyWithParent',
+  {},
+  'Destroy this entity together with its parent entity',
+);
+
+const childIndex = new WeakMap<Entity, Set<Entity>>();
+const parentIndex = new WeakMap<Entity, Entity>();
+
+/**
+ * Record the entity under its current `Transform.parent`. Called by the
+ * {@link TransformSystem} when the entity gains a Transform or its parent changes.
+ */
+export function indexParent(entity: Entity): void {
+  const parent = entity.getValue(Transform, 'parent') ?? undefined;
+  const previous = parentIndex.get(entity);
+  if (previous === parent) {
+    return;
+  }
+  if (previous) {
+    childIndex.get(previous)?.delete(entity);
+  }
+  if (parent) {
+    let children = childIndex.get(parent);
+    if (!children) {
+      children = new Set();
+      childIndex.set(parent, children);
+    }
+    children.add(entity);
+    parentIndex.set(entity, parent);
+  } else {
+    parentIndex.delete(entity);
+  }
+}
+
+/**
+ * Drop the entity from the index once it loses its Transform or is destroyed. Entity
+ * instances are pooled, so nothing may stay keyed by it for its next use.
+ */
+export function unindexEntity(entity: Entity): void {
+  const parent = parentIndex.get(entity);
+  if (parent) {
+    childIndex.get(parent)?.delete(entity);
+    parentIndex.delete(entity);
+  }
+  for (const child of childIndex.get(entity) ?? []) {
+    parentIndex.delete(child);
+  }
+  childIndex.delete(entity);
+}
+
+Entity.prototype.getChildren = function (this: Entity): Entity[] {
+  return [...(childIndex.get(this) ?? [])].filter((child) => child.active);
+};
+
+Entity.prototype.getDescendants = function (this: Entity): Entity[] {
+  const result: Entity[] = [];
+  const visit = (entity: Entity) => {
+    for (const child of entity.getChildren()) {
+      result.push(child);
+      visit(child);
+    }
+  };
+  visit(this);
+  return result;
+};
+
+const elicsDestroy = Entity.prototype.destroy;
+
+Entity.prototype.destroy = function (
+  this: Entity,
+  options: DestroyOptions = {},
+): void {
+  if (!this.active) {
+    return;
+  }
+  if (options.recursive) {
+    this.getChildren().forEach((child) => child.destroy(options));
+  } else {
+    this.getChildren()
+      .filter((child) => child.hasComponent(DestroyWithParent))
+      .forEach((child) => child.destroy());
+  }
+  if (options.reparentChildren) {
+    const parent = parentIndex.get(this);
+    for (const child of this.getChildren()) {
+      if (parent?.object3D && child.object3D) {
+        parent.object3D.attach(child.object3D);
+      } else {
+        child.object3D?.removeFromParent();
+      }
+      // Object3D reparenting updates the index; mirror it for entities without one
+      child.setValue(Transform, 'parent', parent ?? null);
+      indexParent(child);
+    }
+  }
+  elicsDestroy.call(this);
+};
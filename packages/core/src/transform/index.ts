@@ -6,6 +6,9 @@
  */
 
 export * from './transform.js';
+export * from './hierarchy.js';
 export * from './synced-vector3.js';
 export * from './synced-quaternion.js';
 export * from './synced-euler.js';
+export * from './transform-interpolation.js';
+export * from './world-transform.js';
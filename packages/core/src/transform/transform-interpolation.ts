@@ -0,0 +1,134 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { Types, createComponent, Entity } from '../ecs/index.js';
+import { Quaternion } from '../runtime/three.js';
+import { Transform } from './transform.js';
+
+/**
+ * Renders a {@link Transform} between its last two fixed-step states.
+ *
+ * @remarks
+ * - Position and orientation written during `fixedUpdate` are captured after every
+ *   fixed tick; each frame the World writes the blend of the previous and latest tick
+ *   (by {@link World.fixedAlpha}) into the Transform views before rendering.
+ * - Before the next tick the latest fixed state is restored, so fixed systems never
+ *   observe interpolated values.
+ * - A write from outside the fixed tick (e.g. grabbing or teleporting) wins: the entity
+ *   snaps to it instead of being interpolated back.
+ * - Added automatically to dynamic {@link PhysicsBody} entities.
+ *
+ * @category Scene
+ * @hideineditor
+ */
+export const TransformInterpolation = createComponent(
+  'TransformInterpolation',
+  {
+    _previousPosition: { type: Types.Vec3, default: [0, 0, 0] },
+    _previousOrientation: { type: Types.Vec4, default: [0, 0, 0, 1] },
+    _fixedPosition: { type: Types.Vec3, default: [0, 0, 0] },
+    _fixedOrientation: { type: Types.Vec4, default: [0, 0, 0, 1] },
+    _renderedPosition: { type: Types.Vec3, default: [NaN, NaN, NaN] },
+    _renderedOrientation: { type: Types.Vec4, default: [NaN, NaN, NaN, NaN] },
+  },
+  'Interpolates Transform between fixed-step states for rendering',
+);
+
+function view(entity: Entity, key: string): Float32Array {
+  return entity.getVectorView(
+    key.startsWith('_') ? TransformInterpolation : Transform,
+    key as never,
+  ) as Float32Array;
+}
+
+function equals(a: Float32Array, b: Float32Array): boolean {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Undo last frame's interpolation ahead of a fixed tick. Entities moved since
+ * they were rendered keep the new value and drop their history.
+ */
+export function restoreFixedTransforms(entities: Iterable<Entity>): void {
+  for (const entity of entities) {
+    const position = view(entity, 'position');
+    const orientation = view(entity, 'orientation');
+    const moved =
+      !equals(position, view(entity, '_renderedPosition')) ||
+      !equals(orientation, view(entity, '_renderedOrientation'));
+    if (moved) {
+      view(entity, '_fixedPosition').set(position);
+      view(entity, '_fixedOrientation').set(orientation);
+      view(entity, '_previousPosition').set(position);
+      view(entity, '_previousOrientation').set(orientation);
+    } else {
+      position.set(view(entity, '_fixedPosition'));
+      orientation.set(view(entity, '_fixedOrientation'));
+    }
+  }
+}
+
+/** Record the Transform state produced by one fixed tick. */
+export function captureFixedTransforms(entities: Iterable<Entity>): void {
+  for (const entity of entities) {
+    view(entity, '_previousPosition').set(view(entity, '_fixedPosition'));
+    view(entity, '_previousOrientation').set(view(entity, '_fixedOrientation'));
+    view(entity, '_fixedPosition').set(view(entity, 'position'));
+    view(entity, '_fixedOrientation').set(view(entity, 'orientation'));
+  }
+}
+
+/** Write the blend of the last two fixed states into the Transform views. */
+export function interpolateTransforms(
+  entities: Iterable<Entity>,
+  alpha: number,
+): void {
+  for (const entity of entities) {
+    const position = view(entity, 'position');
+    const orientation = view(entity, 'orientation');
+    const renderedPosition = view(entity, '_renderedPosition');
+    const renderedOrientation = view(entity, '_renderedOrientation');
+    if (
+      !equals(position, renderedPosition) ||
+      !equals(orientation, renderedOrientation)
+    ) {
+      // New entity, or moved outside the fixed tick since the last frame
+      if (
+        renderedPosition.some(Number.isNaN) ||
+        !equals(position, view(entity, '_fixedPosition')) ||
+        !equals(orientation, view(entity, '_fixedOrientation'))
+      ) {
+        view(entity, '_fixedPosition').set(position);
+        view(entity, '_fixedOrientation').set(orientation);
+        view(entity, '_previousPosition').set(position);
+        view(entity, '_previousOrientation').set(orientation);
+      }
+    }
+    const previous = view(entity, '_previousPosition');
+    const fixed = view(entity, '_fixedPosition');
+    for (let i = 0; i < 3; i++) {
+      position[i] = previous[i] + (fixed[i] - previous[i]) * alpha;
+    }
+    // three types slerpFlat for number[], but it only indexes its arguments
+    Quaternion.slerpFlat(
+      orientation as unknown as number[],
+      0,
+      view(entity, '_previousOrientation') as unknown as number[],
+      0,
+      view(entity, '_fixedOrientation') as unknown as number[],
+      0,
+      alpha,
+    );
+    renderedPosition.set(position);
+    renderedOrientation.set(orientation);
+  }
+}
@@ -14,9 +14,11 @@ import {
 } from '../ecs/index.js';
 import { LevelTag } from '../level/index.js';
 import { Quaternion, Vector3, Euler } from '../runtime/three.js';
+import { indexParent, unindexEntity } from './hierarchy.js';
 import { SyncedEuler } from './synced-euler.js';
 import { SyncedQuaternion } from './synced-quaternion.js';
 import { SyncedVector3 } from './synced-vector3.js';
+import { WorldTransform, updateWorldTransforms } from './world-transform.js';
 
 /**
  * 3D transform component that binds an entity to a Three.js Object3D.
@@ -116,6 +118,7 @@ function attachToEntity(entity: Entity): void {
     set: (value) => {
       object3D._parent = value;
       Transform.data.parent[entity.index] = value?.entityIdx ?? NullEntity;
+      indexParent(entity);
     },
     configurable: true,
     enumerable: true,
@@ -184,15 +187,28 @@ function detachFromEntity(entity: Entity): void {
  *   (or the scene for persistent objects).
  * - If an Object3D is manually reparented under another entity, the component
  *   `parent` value is updated to match.
+ * - Maintains the parent → children index behind `entity.getChildren()` and
+ *   `entity.getDescendants()`.
+ * - Refreshes {@link WorldTransform} on entities that opt in, after parenting.
  *
  * @category Scene
  */
 export class TransformSystem extends createSystem({
   transform: { required: [Transform] },
+  worldTransforms: { required: [Transform, WorldTransform] },
 }) {
   init(): void {
-    this.queries.transform.subscribe('qualify', attachToEntity);
-    this.queries.transform.subscribe('disqualify', detachFromEntity);
+    this.queries.transform.subscribe('qualify', (entity) => {
+      attachToEntity(entity);
+      indexParent(entity);
+    });
+    this.queries.transform.subscribe('disqualify', (entity) => {
+      unindexEntity(entity);
+      detachFromEntity(entity);
+    });
+    this.queries.worldTransforms.subscribe('qualify', (entity) => {
+      updateWorldTransforms([entity]);
+    });
   }
 
   update(): void {
@@ -209,6 +225,7 @@ export class TransformSystem extends createSystem({
         if (object.parent?.entityIdx !== undefined) {
           // check whether object is already parented under an entity, if so, update parent in Transform
           Transform.data.parent[entity.index] = object.parent.entityIdx;
+          indexParent(entity);
         } else {
           // Default parent: active level if entity has LevelTag; otherwise scene (persistent)
           const targetEntity = entity.hasComponent(LevelTag)
@@ -225,5 +242,6 @@ export class TransformSystem extends createSystem({
         parentObject.add(object);
       }
     });
+    updateWorldTransforms(this.queries.worldTransforms.entities);
   }
 }
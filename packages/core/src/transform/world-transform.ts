@@ -0,0 +1,108 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { Types, createComponent, Entity } from '../ecs/index.js';
+import { Matrix4, Object3D, Quaternion, Vector3 } from '../runtime/three.js';
+
+/**
+ * Opt‑in world‑space transform, written by the {@link TransformSystem} once per frame.
+ *
+ * @remarks
+ * - Add it to entities whose world pose other systems need; values are refreshed in
+ *   hierarchy order (parents first) at the end of the TransformSystem update.
+ * - `matrix` is a column‑major `Float32Array(16)` owned by the component.
+ * - `x`/`y`/`z` mirror `position` as scalars so queries can filter with `where`
+ *   predicates, e.g. `lt(WorldTransform, 'y', -10)`.
+ * - Values written by systems that run after the TransformSystem show up next frame.
+ *
+ * @category Scene
+ * @hideineditor
+ */
+export const WorldTransform = createComponent(
+  'WorldTransform',
+  {
+    position: { type: Types.Vec3, default: [0, 0, 0] },
+    orientation: { type: Types.Vec4, default: [0, 0, 0, 1] },
+    scale: { type: Types.Vec3, default: [1, 1, 1] },
+    matrix: { type: Types.Object, default: undefined }, // Float32Array(16), column-major
+    x: { type: Types.Float32, default: 0 },
+    y: { type: Types.Float32, default: 0 },
+    z: { type: Types.Float32, default: 0 },
+  },
+  'World-space position, orientation, scale and matrix',
+);
+
+const position = new Vector3();
+const quaternion = new Quaternion();
+const scale = new Vector3();
+
+function depthOf(object: Object3D): number {
+  let depth = 0;
+  for (let parent = object.parent; parent; parent = parent.parent) {
+    depth++;
+  }
+  return depth;
+}
+
+/**
+ * Refresh `matrixWorld` of the entities' Object3Ds, parents first, updating each
+ * ancestor chain at most once. Returns the entities in the order they were updated.
+ */
+export function updateEntityWorldMatrices(
+  entities: Iterable<Entity>,
+): Entity[] {
+  const ordered: Array<{ entity: Entity; depth: number }> = [];
+  for (const entity of entities) {
+    if (entity.object3D) {
+      ordered.push({ entity, depth: depthOf(entity.object3D) });
+    }
+  }
+  ordered.sort((a, b) => a.depth - b.depth);
+
+  const updated = new Set<Object3D>();
+  return ordered.map(({ entity }) => {
+    const object = entity.object3D!;
+    // Ancestors that were not refreshed above still need their matrices updated
+    object.updateWorldMatrix(
+      !!object.parent && !updated.has(object.parent),
+      false,
+    );
+    updated.add(object);
+    return entity;
+  });
+}
+
+/** Recompute world matrices for `entities` parents first and store them. */
+export function updateWorldTransforms(entities: Iterable<Entity>): void {
+  for (const entity of updateEntityWorldMatrices(entities)) {
+    writeWorldTransform(entity, entity.object3D!.matrixWorld);
+  }
+}
+
+function writeWorldTransform(entity: Entity, matrixWorld: Matrix4): void {
+  matrixWorld.decompose(position, quaternion, scale);
+  position.toArray(
+    entity.getVectorView(WorldTransform, 'position') as Float32Array,
+  );
+  quaternion.toArray(
+    entity.getVectorView(WorldTransform, 'orientation') as Float32Array,
+  );
+  scale.toArray(entity.getVectorView(WorldTransform, 'scale') as Float32Array);
+
+  let elements = entity.getValue(WorldTransform, 'matrix') as
+    | Float32Array
+    | undefined;
+  if (!elements) {
+    elements = new Float32Array(16);
+    entity.setValue(WorldTransform, 'matrix', elements);
+  }
+  elements.set(matrixWorld.elements);
+
+  entity.setValue(WorldTransform, 'x', position.x);
+  entity.setValue(WorldTransform, 'y', position.y);
+  entity.setValue(WorldTransform, 'z', position.z);
+}
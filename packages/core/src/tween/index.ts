@@ -0,0 +1,16 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+export {
+  Tween,
+  TweenCompleted,
+  TweenProperty,
+  Easing,
+  type TweenPropertyType,
+  type TweenStep,
+} from './tween.js';
+export { TweenSystem } from './tween-system.js';
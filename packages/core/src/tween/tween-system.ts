@@ -0,0 +1,248 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { Entity, createSystem } from '../ecs/index.js';
+import {
+  Color,
+  Material,
+  Mesh,
+  Object3D,
+  Quaternion,
+} from '../runtime/index.js';
+import { Visibility } from '../visibility/index.js';
+import {
+  StepState,
+  TweenState,
+  TweenValue,
+  advanceTweenState,
+  createTweenState,
+} from './tween-timeline.js';
+import {
+  Tween,
+  TweenCompleted,
+  TweenProperty,
+  TweenPropertyType,
+  TweenStep,
+} from './tween.js';
+
+/** Materials a tween cloned under one Object3D. */
+interface MaterialClones {
+  object3D: Object3D;
+  materials: Material[];
+}
+
+const qa = new Quaternion();
+const qb = new Quaternion();
+
+/**
+ * Advances {@link Tween} timelines and writes the animated values.
+ *
+ * @remarks
+ * - Steps write only once the timeline reaches them, so a step's implicit `from` is
+ *   the value left by earlier steps. When playback moves back before a step (yoyo or
+ *   a new play), the step restores its `from` value.
+ * - Completion callbacks run and {@link TweenCompleted} is emitted in the frame the
+ *   last play ends.
+ * - Cloned materials outlive the {@link Tween} so its end state stays visible; they
+ *   are disposed once the entity is destroyed or its Object3D replaced.
+ *
+ * @category Tween
+ */
+export class TweenSystem extends createSystem({
+  tweens: { required: [Tween] },
+}) {
+  private states = new Map<Entity, TweenState>();
+  private clones = new Map<Entity, MaterialClones>();
+
+  init(): void {
+    this.queries.tweens.subscribe('disqualify', (entity) => {
+      this.states.delete(entity);
+    });
+  }
+
+  update(delta: number): void {
+    this.disposeStaleClones();
+    for (const entity of this.queries.tweens.entities) {
+      const steps = entity.getValue(Tween, 'steps') as TweenStep[];
+      let state = this.states.get(entity);
+      if (!state || state.steps !== steps) {
+        state = createTweenState(steps);
+        this.states.set(entity, state);
+      }
+      const speed = entity.getValue(Tween, 'speed')!;
+      if (state.done || speed <= 0 || !entity.object3D) {
+        continue;
+      }
+      this.advance(entity, state, delta * speed);
+    }
+  }
+
+  private advance(entity: Entity, state: TweenState, time: number): void {
+    const finished = advanceTweenState(
+      state,
+      time,
+      entity.getValue(Tween, 'repeat')!,
+      entity.getValue(Tween, 'yoyo')!,
+      (t) => this.evaluate(entity, state, t),
+    );
+    if (finished) {
+      this.complete(entity);
+    }
+  }
+
+  private evaluate(entity: Entity, state: TweenState, t: number): void {
+    // Steps the timeline moved back before restore their start values, latest first
+    for (let i = state.stepStates.length - 1; i >= 0; i--) {
+      const step = state.stepStates[i];
+      if (step.reached && t < step.start) {
+        step.reached = false;
+        this.apply(entity, step, 0);
+      }
+    }
+    for (const step of state.stepStates) {
+      if (t < step.start) {
+        continue;
+      }
+      if (!step.reached) {
+        step.reached = true;
+        step.from ??= this.read(entity, step.property);
+      }
+      const progress =
+        step.end > step.start
+          ? Math.min((t - step.start) / (step.end - step.start), 1)
+          : 1;
+      this.apply(entity, step, progress);
+    }
+  }
+
+  private complete(entity: Entity): void {
+    const onComplete = entity.getValue(Tween, 'onComplete') as
+      | ((entity: Entity) => void)
+      | undefined;
+    this.world.events.emit(TweenCompleted, { entity });
+    if (!entity.getValue(Tween, 'keep')) {
+      entity.removeComponent(Tween);
+    }
+    onComplete?.(entity);
+  }
+
+  /** Materials under the entity, cloned once so tweens stay per entity. */
+  private getMaterials(entity: Entity): Material[] {
+    const object3D = entity.object3D!;
+    let record = this.clones.get(entity);
+    if (record?.object3D !== object3D) {
+      record = { object3D, materials: [] };
+      const materials = record.materials;
+      const copies = new Map<Material, Material>();
+      object3D.traverse((object) => {
+        const mesh = object as Mesh;
+        if (!mesh.isMesh) {
+          return;
+        }
+        const clone = (material: Material) => {
+          let copy = copies.get(material);
+          if (!copy) {
+            copy = material.clone();
+            copies.set(material, copy);
+            materials.push(copy);
+          }
+          return copy;
+        };
+        mesh.material = Array.isArray(mesh.material)
+          ? mesh.material.map(clone)
+          : clone(mesh.material);
+      });
+      this.disposeClones(entity);
+      this.clones.set(entity, record);
+    }
+    return record.materials;
+  }
+
+  /** Dispose clones of destroyed entities and of replaced Object3Ds. */
+  private disposeStaleClones(): void {
+    for (const [entity, record] of this.clones) {
+      if (!entity.active || entity.object3D !== record.object3D) {
+        this.disposeClones(entity);
+      }
+    }
+  }
+
+  private disposeClones(entity: Entity): void {
+    this.clones
+      .get(entity)
+      ?.materials.forEach((material) => material.dispose());
+    this.clones.delete(entity);
+  }
+
+  private read(entity: Entity, property: TweenPropertyType): TweenValue {
+    const object3D = entity.object3D!;
+    switch (property) {
+      case TweenProperty.Position:
+        return object3D.position.toArray();
+      case TweenProperty.Orientation:
+        return object3D.quaternion.toArray();
+      case TweenProperty.Scale:
+        return object3D.scale.toArray();
+      case TweenProperty.Visible:
+        return object3D.visible;
+      case TweenProperty.Opacity:
+        return [this.getMaterials(entity)[0]?.opacity ?? 1];
+      case TweenProperty.Color: {
+        const material = this.getMaterials(entity).find((m) => 'color' in m) as
+          | (Material & { color: Color })
+          | undefined;
+        return material ? material.color.toArray() : [1, 1, 1];
+      }
+    }
+  }
+
+  private apply(entity: Entity, step: StepState, progress: number): void {
+    const object3D = entity.object3D!;
+    if (step.property === TweenProperty.Visible) {
+      const visible = (step.to ? progress > 0 : progress >= 1)
+        ? step.to
+        : step.from;
+      if (entity.hasComponent(Visibility)) {
+        entity.setValue(Visibility, 'isVisible', !!visible);
+      } else {
+        object3D.visible = !!visible;
+      }
+      return;
+    }
+
+    const e = step.ease(progress);
+    const from = step.from as number[];
+    const to = step.to as number[];
+    const value = to.map((v, i) => from[i] + (v - from[i]) * e);
+    switch (step.property) {
+      case TweenProperty.Position:
+        object3D.position.fromArray(value);
+        break;
+      case TweenProperty.Scale:
+        object3D.scale.fromArray(value);
+        break;
+      case TweenProperty.Orientation:
+        object3D.quaternion.slerpQuaternions(
+          qa.fromArray(from),
+          qb.fromArray(to),
+          e,
+        );
+        break;
+      case TweenProperty.Opacity:
+        for (const material of this.getMaterials(entity)) {
+          material.opacity = value[0];
+          material.transparent = true;
+        }
+        break;
+      case TweenProperty.Color:
+        for (const material of this.getMaterials(entity)) {
+          (material as Material & { color?: Color }).color?.fromArray(value);
+        }
+        break;
+    }
+  }
+}
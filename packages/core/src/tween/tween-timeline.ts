@@ -0,0 +1,148 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { Color, Euler, Quaternion } from '../runtime/three.js';
+import {
+  Easing,
+  TweenProperty,
+  TweenPropertyType,
+  TweenStep,
+} from './tween.js';
+
+export type TweenValue = number[] | boolean;
+
+export interface StepState {
+  property: TweenPropertyType;
+  /** Timeline seconds, including the step delay. */
+  start: number;
+  end: number;
+  ease: (t: number) => number;
+  from?: TweenValue;
+  to: TweenValue;
+  reached: boolean;
+}
+
+/** Playback state of one {@link Tween} timeline. */
+export interface TweenState {
+  steps: TweenStep[];
+  stepStates: StepState[];
+  duration: number;
+  /** Seconds into the current play. */
+  elapsed: number;
+  /** Completed plays. */
+  play: number;
+  done: boolean;
+}
+
+const quaternion = new Quaternion();
+const euler = new Euler();
+const color = new Color();
+
+function toValue(
+  property: TweenPropertyType,
+  value: TweenStep['to'],
+): TweenValue {
+  switch (property) {
+    case TweenProperty.Visible:
+      return !!value;
+    case TweenProperty.Opacity:
+      return [Number(value)];
+    case TweenProperty.Scale:
+      return typeof value === 'number'
+        ? [value, value, value]
+        : [...(value as number[])];
+    case TweenProperty.Color:
+      return typeof value === 'number'
+        ? color.setHex(value).toArray()
+        : [...(value as number[])];
+    case TweenProperty.Orientation: {
+      const values = value as number[];
+      return values.length === 3
+        ? quaternion
+            .setFromEuler(euler.set(values[0], values[1], values[2]))
+            .toArray()
+        : [...values];
+    }
+    default:
+      return [...(value as number[])];
+  }
+}
+
+/**
+ * Lay out `steps` on a timeline: each step starts when the previous one ends, or
+ * with it when `parallel`, plus its own delay.
+ */
+export function createTweenState(steps: TweenStep[]): TweenState {
+  let previousStart = 0;
+  let cursor = 0;
+  let duration = 0;
+  const stepStates = steps.map((step) => {
+    const begin = step.parallel ? previousStart : cursor;
+    const start = begin + (step.delay ?? 0);
+    const end = start + (step.duration ?? 0);
+    previousStart = begin;
+    cursor = Math.max(cursor, end);
+    duration = Math.max(duration, end);
+    const easing = step.easing ?? 'QuadInOut';
+    return {
+      property: step.property,
+      start,
+      end,
+      ease: typeof easing === 'function' ? easing : Easing[easing],
+      from:
+        step.from !== undefined ? toValue(step.property, step.from) : undefined,
+      to: toValue(step.property, step.to),
+      reached: false,
+    };
+  });
+  return {
+    steps,
+    stepStates,
+    duration,
+    elapsed: 0,
+    play: 0,
+    done: false,
+  };
+}
+
+/**
+ * Move `state` forward by `time` seconds, calling `evaluate` with the timeline
+ * position of every play end crossed and of the final position.
+ *
+ * @param repeat Extra plays after the first; negative repeats forever.
+ * @param yoyo Play every other repetition backwards.
+ * @returns True in the call that finishes the last play.
+ */
+export function advanceTweenState(
+  state: TweenState,
+  time: number,
+  repeat: number,
+  yoyo: boolean,
+  evaluate: (t: number) => void,
+): boolean {
+  let remaining = time;
+  for (;;) {
+    const reversed = yoyo && state.play % 2 === 1;
+    if (state.elapsed + remaining < state.duration) {
+      state.elapsed += remaining;
+      evaluate(reversed ? state.duration - state.elapsed : state.elapsed);
+      return false;
+    }
+    remaining -= state.duration - state.elapsed;
+    evaluate(reversed ? 0 : state.duration);
+    state.play++;
+    state.elapsed = 0;
+    if (repeat >= 0 && state.play > repeat) {
+      state.done = true;
+      return true;
+    }
+    // Zero-length timelines repeat at most once per frame
+    if (state.duration === 0) {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { Types, createComponent, createEvent } from '../ecs/index.js';
+import type { Entity } from '../ecs/index.js';
+
+/**
+ * Easing curves for {@link TweenStep.easing}, mapping progress `[0..1]` to `[0..1]`.
+ *
+ * @category Tween
+ */
+export const Easing = {
+  Linear: (t: number) => t,
+  QuadIn: (t: number) => t * t,
+  QuadOut: (t: number) => t * (2 - t),
+  QuadInOut: (t: number) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t),
+  CubicIn: (t: number) => t * t * t,
+  CubicOut: (t: number) => --t * t * t + 1,
+  CubicInOut: (t: number) =>
+    t < 0.5 ? 4 * t * t * t : (t - 1) * (2 * t - 2) * (2 * t - 2) + 1,
+  SineInOut: (t: number) => 0.5 - Math.cos(Math.PI * t) / 2,
+  BackOut: (t: number) => 1 + 2.70158 * (t - 1) ** 3 + 1.70158 * (t - 1) ** 2,
+  ElasticOut: (t: number) =>
+    t === 0 || t === 1
+      ? t
+      : 2 ** (-10 * t) * Math.sin(((t * 10 - 0.75) * 2 * Math.PI) / 3) + 1,
+  BounceOut: (t: number) => {
+    const n = 7.5625;
+    const d = 2.75;
+    if (t < 1 / d) {
+      return n * t * t;
+    } else if (t < 2 / d) {
+      return n * (t -= 1.5 / d) * t + 0.75;
+    } else if (t < 2.5 / d) {
+      return n * (t -= 2.25 / d) * t + 0.9375;
+    }
+    return n * (t -= 2.625 / d) * t + 0.984375;
+  },
+} as const;
+
+/**
+ * Properties a {@link TweenStep} can animate.
+ *
+ * @category Tween
+ */
+export const TweenProperty = {
+  /** Local position `[x, y, z]`. */
+  Position: 'position',
+  /** Local rotation as quaternion `[x, y, z, w]` or Euler angles `[x, y, z]` (radians). */
+  Orientation: 'orientation',
+  /** Local scale `[x, y, z]`, or a number for uniform scale. */
+  Scale: 'scale',
+  /** Opacity of every material under the Object3D. */
+  Opacity: 'opacity',
+  /** Color of every material under the Object3D, as `[r, g, b]` or a hex number. */
+  Color: 'color',
+  /** Visibility; `true` applies when the step starts, `false` when it ends. */
+  Visible: 'visible',
+} as const;
+
+export type TweenPropertyType =
+  (typeof TweenProperty)[keyof typeof TweenProperty];
+
+/**
+ * One segment of a {@link Tween} timeline.
+ *
+ * @category Tween
+ */
+export interface TweenStep {
+  property: TweenPropertyType;
+  /** Target value, see {@link TweenProperty} for the shape per property. */
+  to: number | number[] | boolean;
+  /** Start value; defaults to the current value when the step starts. */
+  from?: number | number[] | boolean;
+  /** Seconds. @defaultValue 0 */
+  duration?: number;
+  /** Seconds to wait before the step starts. @defaultValue 0 */
+  delay?: number;
+  /** @defaultValue 'QuadInOut' */
+  easing?: keyof typeof Easing | ((t: number) => number);
+  /** Start together with the previous step instead of after it. @defaultValue false */
+  parallel?: boolean;
+}
+
+/**
+ * Timeline of property animations on an entity, driven by the {@link TweenSystem}.
+ *
+ * @remarks
+ * - `steps` run in sequence; a step with `parallel: true` starts with the one before it.
+ * - Transform steps write through the entity's synced `position`/`quaternion`/`scale`,
+ *   so values land in the {@link Transform} component.
+ * - Opacity and color steps clone the materials under the Object3D on first use, so
+ *   entities sharing a material are not affected. The clones are disposed with the
+ *   entity.
+ * - `repeat` counts extra plays (`-1` loops forever); with `yoyo`, every other play
+ *   runs backwards.
+ * - On completion the system calls `onComplete`, emits {@link TweenCompleted} and,
+ *   unless `keep` is set, removes the component. Assigning new `steps` restarts it.
+ *
+ * @example Slide a panel in, then pulse it
+ * ```ts
+ * entity.addComponent(Tween, {
+ *   steps: [
+ *     { property: 'scale', from: 0, to: 1, duration: 0.3, easing: 'BackOut' },
+ *     { property: 'opacity', from: 0, to: 1, duration: 0.3, parallel: true },
+ *     { property: 'color', to: 0xffcc00, duration: 0.2, delay: 0.5 },
+ *   ] satisfies TweenStep[],
+ *   onComplete: () => console.log('done'),
+ * });
+ * ```
+ *
+ * @category Tween
+ */
+export const Tween = createComponent(
+  'Tween',
+  {
+    steps: { type: Types.Object, default: [] }, // TweenStep[]
+    repeat: { type: Types.Int16, default: 0 }, // Extra plays after the first; -1 loops forever
+    yoyo: { type: Types.Boolean, default: false }, // Alternate direction on every play
+    speed: { type: Types.Float32, default: 1 }, // Time scale; 0 pauses
+    keep: { type: Types.Boolean, default: false }, // Keep the component after completion
+    onComplete: { type: Types.Object, default: undefined }, // (entity) => void
+  },
+  'Animates Transform, visibility and material properties over time',
+);
+
+/**
+ * Emitted when a {@link Tween} finishes its last play.
+ * @category Tween
+ */
+export const TweenCompleted = createEvent<{ entity: Entity }>('TweenCompleted');
@@ -6,3 +6,4 @@
  */
 
 export * from './visibility.js';
+export * from './render-layers.js';
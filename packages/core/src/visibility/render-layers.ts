@@ -0,0 +1,195 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import {
+  Types,
+  createComponent,
+  Entity,
+  createSystem,
+  VisibilityState,
+} from '../ecs/index.js';
+import type { Object3D, WebXRManager } from '../runtime/index.js';
+
+/**
+ * Eye an entity renders to in XR.
+ *
+ * @category Scene
+ */
+export const RenderEye = {
+  Both: 'both',
+  Left: 'left',
+  Right: 'right',
+} as const;
+
+/** Layers three.js reserves for the left and right XR eye cameras. */
+const LEFT_EYE_MASK = 1 << 1;
+const RIGHT_EYE_MASK = 1 << 2;
+
+/**
+ * Bitmask for {@link RenderLayers.layers} from layer numbers (0–31).
+ *
+ * @category Scene
+ */
+export function layerMask(...layers: number[]): number {
+  return layers.reduce((mask, layer) => mask | (1 << layer), 0);
+}
+
+/**
+ * Per‑layer, per‑mode and per‑eye rendering of an entity.
+ *
+ * @remarks
+ * - `layers` is a bitmask (see {@link layerMask}) written to `Object3D.layers` of the
+ *   entity's subtree. The main camera renders layer 0; enable further layers on
+ *   `world.camera.layers` and three.js carries them over to the XR eye cameras.
+ * - `desktop`, `vr` and `ar` choose the modes the entity renders in: desktop is the
+ *   non‑immersive page, `ar` any session with passthrough (non‑opaque blend mode).
+ *   Objects filtered out by mode get an empty layer mask, so raycasters skip them too.
+ * - `eye` limits rendering to one XR eye (layers 1 and 2); such objects do not render
+ *   outside XR. Multiview single‑pass rendering draws both eyes at once, so `eye` is
+ *   ignored with a warning while it is active; create the world with
+ *   `render: { multiview: false }` to use it.
+ * - Removing the component restores the layers the objects had before.
+ * - Descendant entities with their own `RenderLayers` keep their settings; objects
+ *   added to the subtree later are updated on the next change.
+ *
+ * @example Hide debug gizmos in XR and a virtual floor in AR
+ * ```ts
+ * gizmo.addComponent(RenderLayers, { vr: false, ar: false });
+ * floor.addComponent(RenderLayers, { ar: false });
+ * ```
+ *
+ * @category Scene
+ */
+export const RenderLayers = createComponent(
+  'RenderLayers',
+  {
+    layers: { type: Types.Float64, default: 1 }, // 32-bit layer bitmask, layer 0 by default
+    desktop: { type: Types.Boolean, default: true }, // Render outside XR sessions
+    vr: { type: Types.Boolean, default: true }, // Render in opaque XR sessions
+    ar: { type: Types.Boolean, default: true }, // Render in passthrough XR sessions
+    eye: { type: Types.Enum, enum: RenderEye, default: RenderEye.Both },
+  },
+  'Layer membership and per-mode / per-eye visibility',
+);
+
+type RenderMode = 'desktop' | 'vr' | 'ar';
+
+/**
+ * Applies {@link RenderLayers} to the Object3D layers of each entity subtree whenever
+ * the component values or the session mode change.
+ *
+ * @category Scene
+ */
+export class RenderLayersSystem extends createSystem({
+  layered: { required: [RenderLayers] },
+}) {
+  private applied = new Map<Entity, number>();
+  /** Layer masks objects had before this system first changed them. */
+  private originalMasks = new WeakMap<Object3D, number>();
+  private warnedEye = new Set<Entity>();
+
+  init(): void {
+    this.queries.layered.subscribe('disqualify', (entity) => {
+      this.applied.delete(entity);
+      this.warnedEye.delete(entity);
+      if (entity.object3D) {
+        this.restoreMasks(entity.object3D);
+      }
+    });
+  }
+
+  update(): void {
+    const mode = this.currentMode();
+    for (const entity of this.queries.layered.entities) {
+      const object = entity.object3D;
+      if (!object) {
+        continue;
+      }
+      const mask = this.resolveMask(entity, mode);
+      if (this.applied.get(entity) !== mask) {
+        this.applied.set(entity, mask);
+        this.applyMask(object, mask);
+      }
+    }
+  }
+
+  private currentMode(): RenderMode {
+    if (this.visibilityState.value === VisibilityState.NonImmersive) {
+      return 'desktop';
+    }
+    const blend = this.world.session?.environmentBlendMode;
+    return blend && blend !== 'opaque' ? 'ar' : 'vr';
+  }
+
+  private resolveMask(entity: Entity, mode: RenderMode): number {
+    if (!entity.getValue(RenderLayers, mode)) {
+      return 0;
+    }
+    const layers = entity.getValue(RenderLayers, 'layers')! | 0;
+    const eye = entity.getValue(RenderLayers, 'eye');
+    if (eye === RenderEye.Both) {
+      return layers;
+    }
+    if (this.isMultiview()) {
+      if (!this.warnedEye.has(entity)) {
+        this.warnedEye.add(entity);
+        console.warn(
+          `[RenderLayers] Entity ${entity.index} renders to both eyes: per-eye rendering needs render.multiview disabled in WorldOptions`,
+        );
+      }
+      return layers;
+    }
+    return eye === RenderEye.Left ? LEFT_EYE_MASK : RIGHT_EYE_MASK;
+  }
+
+  /** Whether the XR session renders both eyes in one multiview pass. */
+  private isMultiview(): boolean {
+    // Registered before the renderer exists, so read it from the world
+    return !!(
+      this.world.renderer.xr as WebXRManager & { isMultiview?: boolean }
+    ).isMultiview;
+  }
+
+  private applyMask(root: Object3D, mask: number): void {
+    this.visitOwnObjects(root, (object) => {
+      if (!this.originalMasks.has(object)) {
+        this.originalMasks.set(object, object.layers.mask);
+      }
+      object.layers.mask = mask;
+    });
+  }
+
+  private restoreMasks(root: Object3D): void {
+    this.visitOwnObjects(root, (object) => {
+      const mask = this.originalMasks.get(object);
+      if (mask !== undefined) {
+        object.layers.mask = mask;
+        this.originalMasks.delete(object);
+      }
+    });
+  }
+
+  /** Visit the subtree, skipping descendant entities with their own settings. */
+  private visitOwnObjects(
+    root: Object3D,
+    callback: (object: Object3D) => void,
+  ) {
+    const visit = (object: Object3D) => {
+      if (object !== root && object.entityIdx !== undefined) {
+        const child = this.world.entityManager.getEntityByIndex(
+          object.entityIdx,
+        );
+        if (child?.hasComponent(RenderLayers)) {
+          return;
+        }
+      }
+      callback(object);
+      object.children.forEach(visit);
+    };
+    visit(root);
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { CacheManager } from '../../src/asset/cache-manager.js';
+import {
+  AnimationClip,
+  AnimationMarker,
+  AnimationPlayer,
+  AssetManager,
+  Object3D,
+  VectorKeyframeTrack,
+  World,
+  addAnimationMarker,
+} from '../../src/index.js';
+
+/** GLTF-like asset whose `Walk` clip holds the object at `x`. */
+function cacheAnimatedAsset(url: string, x: number) {
+  const track = new VectorKeyframeTrack(
+    '.position',
+    [0, 1],
+    [x, 0, 0, x, 0, 0],
+  );
+  CacheManager.setAsset(url, {
+    animations: [new AnimationClip('Walk', 1, [track])],
+  });
+}
+
+/** Clip holding `property` (a Vector3 of the object) at `value` for one second. */
+function constantClip(name: string, property: string, value: number[]) {
+  const track = new VectorKeyframeTrack(
+    `.${property}`,
+    [0, 1],
+    [...value, ...value],
+  );
+  return new AnimationClip(name, 1, [track]);
+}
+
+describe('AnimationSystem', () => {
+  afterEach(() => {
+    CacheManager.clear();
+    vi.restoreAllMocks();
+  });
+
+  it('re-resolves clips and stops old actions when src changes', async () => {
+    const world = await World.createHeadless();
+    cacheAnimatedAsset('a.glb', 1);
+    cacheAnimatedAsset('b.glb', 5);
+    const object = new Object3D();
+    const entity = world
+      .createTransformEntity(object)
+      .addComponent(AnimationPlayer, { src: 'a.glb', clip: 'Walk' });
+
+    world.update(0.1, 0.1);
+    expect(object.position.x).toBeCloseTo(1);
+
+    entity.setValue(AnimationPlayer, 'src', 'b.glb');
+    world.update(0.1, 0.2);
+    expect(object.position.x).toBeCloseTo(5);
+    world.update(0.1, 0.3);
+    expect(object.position.x).toBeCloseTo(5);
+  });
+
+  it('does not retry a src that failed to load until src changes', async () => {
+    const world = await World.createHeadless();
+    const load = vi
+      .spyOn(AssetManager, 'loadGLTF')
+      .mockRejectedValue(new Error('404'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const entity = world
+      .createTransformEntity(new Object3D())
+      .addComponent(AnimationPlayer, { src: 'missing.glb', clip: 'Walk' });
+
+    for (let frame = 1; frame <= 3; frame++) {
+      world.update(0.1, frame * 0.1);
+      await Promise.resolve();
+      await Promise.resolve();
+    }
+    expect(load).toHaveBeenCalledTimes(1);
+
+    entity.setValue(AnimationPlayer, 'src', 'other.glb');
+    world.update(0.1, 0.4);
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(load).toHaveBeenLastCalledWith('other.glb');
+  });
+
+  it('crossfades between base clips, or switches instantly without crossfade', async () => {
+    const world = await World.createHeadless();
+    const object = new Object3D();
+    object.animations = [
+      constantClip('A', 'position', [1, 0, 0]),
+      constantClip('B', 'position', [5, 0, 0]),
+    ];
+    const entity = world
+      .createTransformEntity(object)
+      .addComponent(AnimationPlayer, { clip: 'A', crossfade: 0.5 });
+    world.update(0.1, 0.1);
+    expect(object.position.x).toBeCloseTo(1);
+
+    entity.setValue(AnimationPlayer, 'clip', 'B');
+    world.update(0.25, 0.35);
+    expect(object.position.x).toBeGreaterThan(1.5);
+    expect(object.position.x).toBeLessThan(4.5);
+    world.update(0.5, 0.85);
+    expect(object.position.x).toBeCloseTo(5);
+
+    entity.setValue(AnimationPlayer, 'crossfade', 0);
+    entity.setValue(AnimationPlayer, 'clip', 'A');
+    world.update(0.01, 0.86);
+    expect(object.position.x).toBeCloseTo(1);
+  });
+
+  it('blends weighted layers over the base clip and removes them', async () => {
+    const world = await World.createHeadless();
+    const object = new Object3D();
+    object.animations = [
+      constantClip('Walk', 'position', [1, 0, 0]),
+      constantClip('Grow', 'scale', [3, 3, 3]),
+    ];
+    const entity = world
+      .createTransformEntity(object)
+      .addComponent(AnimationPlayer, {
+        clip: 'Walk',
+        layers: 'Grow:0.5',
+        crossfade: 0,
+      });
+
+    world.update(0.1, 0.1);
+    expect(object.position.x).toBeCloseTo(1);
+    // Half weight blends with the original scale of 1
+    expect(object.scale.x).toBeCloseTo(2);
+
+    entity.setValue(AnimationPlayer, 'layers', 'Grow');
+    world.update(0.1, 0.2);
+    expect(object.scale.x).toBeCloseTo(3);
+
+    entity.setValue(AnimationPlayer, 'layers', '');
+    world.update(0.1, 0.3);
+    expect(object.scale.x).toBeCloseTo(1);
+    expect(object.position.x).toBeCloseTo(1);
+  });
+
+  it('reports markers crossed by playback, including across a loop', async () => {
+    const world = await World.createHeadless();
+    const object = new Object3D();
+    const clip = constantClip('Walk', 'position', [1, 0, 0]);
+    addAnimationMarker(clip, 0.5, 'step');
+    object.animations = [clip];
+    world
+      .createTransformEntity(object)
+      .addComponent(AnimationPlayer, { clip: 'Walk' });
+
+    // Events emitted during one update are read after the next
+    const markersAfter = (delta: number, time: number) => {
+      world.update(delta, time);
+      return world.events.read(AnimationMarker).length;
+    };
+    markersAfter(0.3, 0.3); // 0 -> 0.3
+    expect(markersAfter(0.3, 0.6)).toBe(0); // 0.3 -> 0.6 crosses 0.5
+    expect(markersAfter(0.3, 0.9)).toBe(1); // 0.6 -> 0.9
+    expect(markersAfter(0.3, 1.2)).toBe(0); // 0.9 -> 0.2 wraps
+    expect(markersAfter(0.4, 1.6)).toBe(0); // 0.2 -> 0.6 crosses 0.5
+    expect(markersAfter(0, 1.6)).toBe(1);
+    expect(
+      world.events.read(AnimationMarker).map(({ clip, name }) => [clip, name]),
+    ).toEqual([['Walk', 'step']]);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AssetType,
+  resolveAssetOptions,
+} from '../../src/asset/asset-manager.js';
+
+describe('resolveAssetOptions', () => {
+  it('treats a bare manifest as the manifest, even with an option-like key', () => {
+    const manifest = {
+      manifest: { url: '/data/manifest.json', type: AssetType.JSON },
+      robot: { url: '/gltf/robot.glb', type: AssetType.GLTF },
+    };
+    expect(resolveAssetOptions(manifest)).toEqual({
+      manifest,
+      loaderOptions: {},
+    });
+  });
+
+  it('splits decoder paths from the manifest', () => {
+    const manifest = {
+      robot: { url: '/gltf/robot.glb', type: AssetType.GLTF },
+    };
+    expect(
+      resolveAssetOptions({ manifest, dracoDecoderPath: '/draco/' }),
+    ).toEqual({ manifest, loaderOptions: { dracoDecoderPath: '/draco/' } });
+  });
+});
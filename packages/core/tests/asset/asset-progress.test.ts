@@ -0,0 +1,58 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AssetProgressTracker } from '../../src/asset/asset-progress.js';
+
+describe('AssetProgressTracker', () => {
+  it('aggregates bytes and items per phase', () => {
+    AssetProgressTracker.setPhase('b.glb', 'background');
+    AssetProgressTracker.start('a.glb');
+    AssetProgressTracker.start('b.glb');
+    AssetProgressTracker.update('a.glb', { loaded: 50, total: 100 });
+
+    let progress = AssetProgressTracker.progress.value;
+    expect(progress.loading).toBe(true);
+    expect(progress.itemsTotal).toBe(2);
+    expect(progress.bytesLoaded).toBe(50);
+    expect(progress.critical.progress).toBeCloseTo(0.5);
+    expect(progress.background.itemsTotal).toBe(1);
+    expect(progress.background.progress).toBe(0);
+
+    AssetProgressTracker.finish('a.glb');
+    AssetProgressTracker.finish('b.glb', true);
+    progress = AssetProgressTracker.progress.value;
+    expect(progress.loading).toBe(false);
+    expect(progress.critical.itemsLoaded).toBe(1);
+    expect(progress.critical.bytesLoaded).toBe(100);
+    expect(progress.background.itemsFailed).toBe(1);
+    expect(progress.progress).toBe(1);
+  });
+
+  it('starts a new batch once everything has settled', () => {
+    AssetProgressTracker.start('first.png');
+    AssetProgressTracker.finish('first.png');
+    AssetProgressTracker.start('second.png');
+
+    const progress = AssetProgressTracker.progress.value;
+    expect(progress.assets.map((asset) => asset.url)).toEqual(['second.png']);
+    expect(progress.progress).toBe(0);
+    AssetProgressTracker.finish('second.png');
+  });
+
+  it('keeps progress when a download is read back locally', () => {
+    AssetProgressTracker.start('robot.glb');
+    AssetProgressTracker.update('robot.glb', { loaded: 100, total: 100 });
+    // The loader starts again on the stored copy
+    AssetProgressTracker.start('robot.glb');
+    AssetProgressTracker.update('robot.glb', { loaded: 10, total: 100 });
+
+    const [asset] = AssetProgressTracker.progress.value.assets;
+    expect(asset.bytesLoaded).toBe(100);
+    AssetProgressTracker.finish('robot.glb');
+  });
+});
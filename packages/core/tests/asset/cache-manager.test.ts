@@ -0,0 +1,96 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { afterEach, describe, it, expect } from 'vitest';
+import { estimateAssetBytes } from '../../src/asset/asset-memory.js';
+import { CacheManager } from '../../src/asset/cache-manager.js';
+import {
+  BoxGeometry,
+  DataTexture,
+  Group,
+  Mesh,
+  MeshBasicMaterial,
+} from '../../src/runtime/three.js';
+
+function texture(bytes: number) {
+  const result = new DataTexture(new Uint8Array(bytes), bytes / 4, 1);
+  let disposed = false;
+  result.addEventListener('dispose', () => (disposed = true));
+  return { texture: result, isDisposed: () => disposed };
+}
+
+describe('CacheManager', () => {
+  afterEach(() => {
+    CacheManager.clear();
+    CacheManager.setMemoryBudget(256 * 1024 * 1024);
+  });
+
+  it('evicts released assets least recently used first', () => {
+    CacheManager.setMemoryBudget(2048);
+    const a = texture(1024);
+    const b = texture(1024);
+    CacheManager.setKeyToUrl('a', 'a.png');
+    CacheManager.retain('a');
+    CacheManager.retain('b.png');
+    CacheManager.setAsset('a.png', a.texture);
+    CacheManager.setAsset('b.png', b.texture);
+    CacheManager.release('a');
+    CacheManager.release('b.png');
+    expect(CacheManager.getMemoryUsage()).toBe(2048);
+
+    // `a` was used more recently, so `b` goes first
+    CacheManager.getAssetByKey('a');
+    CacheManager.setAsset('c.png', texture(1024).texture);
+    expect(b.isDisposed()).toBe(true);
+    expect(CacheManager.hasAsset('b.png')).toBe(false);
+    expect(a.isDisposed()).toBe(false);
+    expect(CacheManager.getMemoryUsage()).toBe(2048);
+  });
+
+  it('keeps retained and never retained assets over budget', () => {
+    CacheManager.setMemoryBudget(0);
+    const pinned = texture(1024);
+    const used = texture(1024);
+    CacheManager.setAsset('pinned.png', pinned.texture);
+    CacheManager.retain('used.png');
+    CacheManager.setAsset('used.png', used.texture);
+    expect(CacheManager.getRefCount('used.png')).toBe(1);
+    expect(CacheManager.hasAsset('pinned.png')).toBe(true);
+    expect(CacheManager.hasAsset('used.png')).toBe(true);
+
+    CacheManager.release('used.png');
+    expect(used.isDisposed()).toBe(true);
+    expect(CacheManager.getMemoryUsage()).toBe(1024);
+  });
+
+  it('unloads unreferenced assets on request', () => {
+    const asset = texture(1024);
+    CacheManager.setAsset('a.png', asset.texture);
+    CacheManager.retain('a.png');
+    expect(CacheManager.unload('a.png')).toBe(false);
+    CacheManager.release('a.png');
+    expect(CacheManager.unload('a.png')).toBe(true);
+    expect(asset.isDisposed()).toBe(true);
+    expect(CacheManager.getMemoryUsage()).toBe(0);
+  });
+});
+
+describe('estimateAssetBytes', () => {
+  it('counts shared geometry and textures of a scene once', () => {
+    const geometry = new BoxGeometry();
+    const material = new MeshBasicMaterial({ map: texture(4096).texture });
+    const scene = new Group();
+    scene.add(new Mesh(geometry, material), new Mesh(geometry, material));
+    const geometryBytes =
+      geometry.index!.array.byteLength +
+      Object.values(geometry.attributes).reduce(
+        (sum, attribute) => sum + attribute.array.byteLength,
+        0,
+      );
+    expect(estimateAssetBytes({ scene })).toBe(geometryBytes + 4096);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { CacheManager } from '../../src/asset/cache-manager.js';
+import { FileAssetLoader } from '../../src/asset/loaders/file-loader.js';
+import { FontAssetLoader } from '../../src/asset/loaders/font-loader.js';
+import { LoadingManager } from '../../src/runtime/three.js';
+
+const BASE = 'https://cdn.example.com/assets';
+
+/** three's FileLoader reports streamed progress with the DOM ProgressEvent. */
+class NodeProgressEvent extends Event {
+  lengthComputable: boolean;
+  loaded: number;
+  total: number;
+  constructor(type: string, init: ProgressEventInit = {}) {
+    super(type);
+    this.lengthComputable = init.lengthComputable ?? false;
+    this.loaded = init.loaded ?? 0;
+    this.total = init.total ?? 0;
+  }
+}
+
+describe('File and font loaders', () => {
+  let files: Record<string, string | Uint8Array>;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    files = {};
+    fetchMock = vi.fn(async (request: Request) => {
+      const body = files[request.url];
+      return body === undefined
+        ? new Response(null, { status: 404, statusText: 'Not Found' })
+        : new Response(body);
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubGlobal('ProgressEvent', NodeProgressEvent);
+    const manager = new LoadingManager();
+    FileAssetLoader.init(manager);
+    FontAssetLoader.init(manager);
+  });
+
+  afterEach(() => {
+    CacheManager.clear();
+    vi.unstubAllGlobals();
+  });
+
+  it('loads JSON once for concurrent calls and serves it by key', async () => {
+    const url = `${BASE}/config.json`;
+    files[url] = JSON.stringify({ gravity: -9.81 });
+    CacheManager.setKeyToUrl('config', url);
+
+    const [a, b] = await Promise.all([
+      FileAssetLoader.loadJSON<{ gravity: number }>('config'),
+      FileAssetLoader.loadJSON<{ gravity: number }>(url),
+    ]);
+    expect(a.gravity).toBe(-9.81);
+    expect(a === b).toBe(true);
+    expect(FileAssetLoader.getJSON('config') === a).toBe(true);
+
+    await FileAssetLoader.loadJSON(url);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('loads binary files as cached ArrayBuffers', async () => {
+    const url = `${BASE}/navmesh.bin`;
+    files[url] = new Uint8Array([1, 2, 3, 4]);
+    CacheManager.setKeyToUrl('navmesh', url);
+
+    const buffer = await FileAssetLoader.loadBinary('navmesh');
+    expect(buffer).toBeInstanceOf(ArrayBuffer);
+    expect(Array.from(new Uint8Array(buffer))).toEqual([1, 2, 3, 4]);
+    expect((await FileAssetLoader.loadBinary(url)) === buffer).toBe(true);
+    expect(FileAssetLoader.getBinary('navmesh') === buffer).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects failed requests and retries them on the next call', async () => {
+    const url = `${BASE}/missing.json`;
+    await expect(FileAssetLoader.loadJSON(url)).rejects.toBeTruthy();
+    expect(CacheManager.hasPromise(url)).toBe(false);
+
+    files[url] = '{}';
+    await expect(FileAssetLoader.loadJSON(url)).resolves.toEqual({});
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('makes font page URLs absolute and caches the font', async () => {
+    const url = `${BASE}/fonts/roboto.json`;
+    files[url] = JSON.stringify({
+      pages: ['roboto.png', '../shared/roboto-1.png'],
+      chars: [],
+    });
+    CacheManager.setKeyToUrl('roboto', url);
+
+    const [font, again] = await Promise.all([
+      FontAssetLoader.loadFont('roboto'),
+      FontAssetLoader.loadFont(url),
+    ]);
+    expect(font.pages).toEqual([
+      `${BASE}/fonts/roboto.png`,
+      `${BASE}/shared/roboto-1.png`,
+    ]);
+    expect(again === font).toBe(true);
+    expect(FontAssetLoader.getFont('roboto') === font).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
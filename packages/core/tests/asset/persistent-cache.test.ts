@@ -0,0 +1,159 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { PersistentCache } from '../../src/asset/persistent-cache.js';
+
+/** Minimal in-memory Cache Storage. */
+class FakeCache {
+  entries = new Map<string, Response>();
+  async match(url: string) {
+    return this.entries.get(url)?.clone();
+  }
+  async put(url: string, response: Response) {
+    this.entries.set(url, response);
+  }
+  async keys() {
+    return [...this.entries.keys()];
+  }
+  async delete(url: string) {
+    return this.entries.delete(url);
+  }
+}
+
+class FakeCacheStorage {
+  stores = new Map<string, FakeCache>();
+  async keys() {
+    return [...this.stores.keys()];
+  }
+  async open(name: string) {
+    let store = this.stores.get(name);
+    if (!store) {
+      store = new FakeCache();
+      this.stores.set(name, store);
+    }
+    return store;
+  }
+  async delete(name: string) {
+    return this.stores.delete(name);
+  }
+}
+
+describe('PersistentCache', () => {
+  let storage: FakeCacheStorage;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let objectUrls: number;
+  let revoked: string[];
+
+  const stored = (url: string) =>
+    [...storage.stores.values()][0].entries.get(url);
+
+  beforeEach(() => {
+    storage = new FakeCacheStorage();
+    fetchMock = vi.fn(
+      async (url: string) =>
+        new Response(`body of ${url}`, {
+          headers: { 'Content-Type': 'model/gltf-binary' },
+        }),
+    );
+    objectUrls = 0;
+    revoked = [];
+    vi.stubGlobal('caches', storage);
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubGlobal('navigator', {});
+    vi.spyOn(URL, 'createObjectURL').mockImplementation(
+      () => `blob:test/${++objectUrls}`,
+    );
+    vi.spyOn(URL, 'revokeObjectURL').mockImplementation((url: string) => {
+      revoked.push(url);
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    PersistentCache.disable();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('downloads and stores a missing entry, then serves later visits from the store', async () => {
+    await PersistentCache.enable();
+    await PersistentCache.prepare('/robot.glb', 'v1');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(PersistentCache.resolveURL('/robot.glb')).toBe('blob:test/1');
+    expect(stored('/robot.glb')?.headers.get('X-IWSDK-Asset-Hash')).toBe('v1');
+    PersistentCache.release('/robot.glb');
+    expect(revoked).toEqual(['blob:test/1']);
+    expect(PersistentCache.resolveURL('/robot.glb')).toBe('/robot.glb');
+
+    await PersistentCache.prepare('/robot.glb', 'v1');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(PersistentCache.resolveURL('/robot.glb')).toBe('blob:test/2');
+    PersistentCache.release('/robot.glb');
+  });
+
+  it('refetches an entry whose hash changed', async () => {
+    await PersistentCache.enable();
+    await PersistentCache.prepare('/robot.glb', 'v1');
+    PersistentCache.release('/robot.glb');
+
+    await PersistentCache.prepare('/robot.glb', 'v2');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(stored('/robot.glb')?.headers.get('X-IWSDK-Asset-Hash')).toBe('v2');
+    PersistentCache.release('/robot.glb');
+  });
+
+  it('deletes the stores of other versions when enabled', async () => {
+    await PersistentCache.enable({ version: 'old' });
+    await PersistentCache.prepare('/robot.glb');
+    PersistentCache.release('/robot.glb');
+    await storage.open('unrelated@1');
+
+    await PersistentCache.enable({ version: 'new' });
+    expect(await storage.keys()).toEqual(['unrelated@1', 'iwsdk-assets@new']);
+    await PersistentCache.prepare('/robot.glb');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    PersistentCache.release('/robot.glb');
+  });
+
+  it('falls back to the network URL when the download fails', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(null, { status: 404, statusText: 'Not Found' }),
+    );
+    await PersistentCache.enable();
+    await PersistentCache.prepare('/missing.glb');
+    expect(PersistentCache.resolveURL('/missing.glb')).toBe('/missing.glb');
+    expect(stored('/missing.glb')).toBeUndefined();
+    PersistentCache.release('/missing.glb');
+    expect(revoked).toEqual([]);
+  });
+
+  it('shares one download between concurrent callers and revokes after the last release', async () => {
+    await PersistentCache.enable();
+    await Promise.all([
+      PersistentCache.prepare('/robot.glb'),
+      PersistentCache.prepare('/robot.glb'),
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(objectUrls).toBe(1);
+
+    PersistentCache.release('/robot.glb');
+    expect(revoked).toEqual([]);
+    expect(PersistentCache.resolveURL('/robot.glb')).toBe('blob:test/1');
+    PersistentCache.release('/robot.glb');
+    expect(revoked).toEqual(['blob:test/1']);
+  });
+
+  it('is a no-op without Cache Storage', async () => {
+    vi.stubGlobal('caches', undefined);
+    expect(PersistentCache.isSupported()).toBe(false);
+    await PersistentCache.enable();
+    await PersistentCache.prepare('/robot.glb');
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(PersistentCache.resolveURL('/robot.glb')).toBe('/robot.glb');
+  });
+});
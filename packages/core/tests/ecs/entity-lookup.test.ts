@@ -0,0 +1,96 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { World } from 'elics';
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  EntityId,
+  EntityLookup,
+  EntityName,
+} from '../../src/ecs/entity-lookup.js';
+import { onValueChange } from '../../src/ecs/entity.js';
+
+describe('EntityLookup', () => {
+  let world: World;
+  let lookup: EntityLookup;
+
+  beforeEach(() => {
+    world = new World({ checksOn: false });
+    world.registerComponent(EntityName);
+    lookup = new EntityLookup(
+      world,
+      EntityName,
+      (entity) => entity.getValue(EntityName, 'name') ?? '',
+    );
+  });
+
+  it('indexes entities when the component is added', () => {
+    const door = world
+      .createEntity()
+      .addComponent(EntityName, { name: 'Door' });
+    world.createEntity().addComponent(EntityName, { name: 'Lamp' });
+    expect(lookup.find('Door')).toEqual([door]);
+    expect(lookup.find('Missing')).toEqual([]);
+  });
+
+  it('returns every entity sharing a name', () => {
+    const a = world.createEntity().addComponent(EntityName, { name: 'Chair' });
+    const b = world.createEntity().addComponent(EntityName, { name: 'Chair' });
+    expect(lookup.find('Chair')).toEqual([a, b]);
+  });
+
+  it('drops destroyed entities and follows renames', () => {
+    const lamp = world
+      .createEntity()
+      .addComponent(EntityName, { name: 'Lamp' });
+    const door = world
+      .createEntity()
+      .addComponent(EntityName, { name: 'Door' });
+    lamp.destroy();
+    expect(lookup.find('Lamp')).toEqual([]);
+
+    door.setValue(EntityName, 'name', 'FrontDoor');
+    expect(lookup.find('Door')).toEqual([]);
+    expect(lookup.find('FrontDoor')).toEqual([door]);
+  });
+
+  it('finds entities named after the first lookup missed', () => {
+    expect(lookup.find('Lamp')).toEqual([]);
+    const lamp = world
+      .createEntity()
+      .addComponent(EntityName, { name: 'Pending' });
+    expect(lookup.find('Lamp')).toEqual([]);
+    lamp.setValue(EntityName, 'name', 'Lamp');
+    expect(lookup.find('Lamp')).toEqual([lamp]);
+  });
+
+  it('notifies setValue listeners of their own world and component', () => {
+    world.registerComponent(EntityId);
+    const other = new World({ checksOn: false });
+    other.registerComponent(EntityName);
+    const changed: number[] = [];
+    const stop = onValueChange(world, EntityName, (entity) =>
+      changed.push(entity.index),
+    );
+    const door = world
+      .createEntity()
+      .addComponent(EntityName, { name: 'Door' })
+      .addComponent(EntityId, { id: '1' });
+    const stranger = other
+      .createEntity()
+      .addComponent(EntityName, { name: 'Door' });
+
+    door.setValue(EntityName, 'name', 'Gate');
+    door.setValue(EntityId, 'id', '2');
+    stranger.setValue(EntityName, 'name', 'Gate');
+    expect(changed).toEqual([door.index]);
+
+    stop();
+    door.setValue(EntityName, 'name', 'Door');
+    expect(changed).toEqual([door.index]);
+  });
+});
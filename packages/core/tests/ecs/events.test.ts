@@ -0,0 +1,61 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventBus, createEvent } from '../../src/ecs/events.js';
+
+const Scored = createEvent<{ points: number }>('Scored');
+const Reset = createEvent('Reset');
+
+describe('EventBus', () => {
+  let bus: EventBus;
+
+  beforeEach(() => {
+    bus = new EventBus();
+  });
+
+  it('delivers events on the next frame only', () => {
+    bus.emit(Scored, { points: 1 });
+    expect(bus.read(Scored)).toEqual([]);
+
+    bus.beginFrame();
+    expect(bus.read(Scored)).toEqual([{ points: 1 }]);
+
+    bus.beginFrame();
+    expect(bus.read(Scored)).toEqual([]);
+  });
+
+  it('runs handlers with their owner and in emit order', () => {
+    const owner = {};
+    const calls: string[] = [];
+    bus.on(Scored, ({ points }) => calls.push(`owned ${points}`), owner);
+    bus.on(Scored, ({ points }) => calls.push(`unowned ${points}`));
+    bus.on(Reset, () => calls.push('reset'));
+
+    bus.emit(Scored, { points: 1 });
+    bus.emit(Scored, { points: 2 });
+    bus.emit(Reset);
+    bus.beginFrame();
+
+    bus.dispatch(null);
+    expect(calls).toEqual(['unowned 1', 'unowned 2', 'reset']);
+
+    calls.length = 0;
+    bus.dispatch(owner);
+    expect(calls).toEqual(['owned 1', 'owned 2']);
+  });
+
+  it('stops delivering after unsubscribe', () => {
+    const calls: number[] = [];
+    const off = bus.on(Scored, ({ points }) => calls.push(points));
+    off();
+    bus.emit(Scored, { points: 1 });
+    bus.beginFrame();
+    bus.dispatch(null);
+    expect(calls).toEqual([]);
+  });
+});
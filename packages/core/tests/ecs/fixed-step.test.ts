@@ -0,0 +1,143 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  TransformInterpolation,
+  World,
+  createSystem,
+} from '../../src/index.js';
+
+/** Records every fixed tick and moves interpolated entities 1 m along x per tick. */
+class Mover extends createSystem(
+  { items: { required: [TransformInterpolation] } },
+  {},
+  { fixed: true },
+) {
+  ticks: Array<[number, number]> = [];
+  observed: number[] = [];
+
+  fixedUpdate(delta: number, time: number): void {
+    this.ticks.push([delta, time]);
+    this.queries.items.entities.forEach((entity) => {
+      this.observed.push(entity.object3D!.position.x);
+      entity.object3D!.position.x += 1;
+    });
+  }
+}
+
+async function createWorld() {
+  const world = await World.createHeadless();
+  world.fixedTimestep = 0.25;
+  world.registerSystem(Mover);
+  return { world, mover: world.getSystem(Mover)! };
+}
+
+describe('World fixed-step update', () => {
+  it('carries leftover time across uneven frames', async () => {
+    const { world, mover } = await createWorld();
+    const frames = [0.1, 0.3, 0.05, 0.6];
+    const ticks: number[] = [];
+    const alphas: number[] = [];
+    let time = 0;
+    for (const delta of frames) {
+      const before = mover.ticks.length;
+      time += delta;
+      world.update(delta, time);
+      ticks.push(mover.ticks.length - before);
+      alphas.push(world.fixedAlpha);
+    }
+
+    expect(ticks).toEqual([0, 1, 0, 3]);
+    expect(alphas.map((alpha) => Number(alpha.toFixed(6)))).toEqual([
+      0.4, 0.6, 0.8, 0.2,
+    ]);
+    expect(mover.ticks.map(([delta]) => delta)).toEqual([
+      0.25, 0.25, 0.25, 0.25,
+    ]);
+    expect(mover.ticks.map(([, t]) => t)).toEqual([0.25, 0.5, 0.75, 1]);
+    expect(world.fixedTime).toBe(1);
+  });
+
+  it('runs at most maxFixedSteps ticks and drops the excess whole steps', async () => {
+    const { world, mover } = await createWorld();
+    world.maxFixedSteps = 2;
+    world.update(2.125, 2.125);
+    expect(mover.ticks.length).toBe(2);
+    expect(world.fixedTime).toBe(0.5);
+    // Only the fraction of a step is kept
+    expect(world.fixedAlpha).toBe(0.5);
+
+    world.update(0.125, 2.25);
+    expect(mover.ticks.length).toBe(3);
+    expect(world.fixedAlpha).toBe(0);
+  });
+
+  it('renders between the last two ticks while fixed systems see tick values', async () => {
+    const { world, mover } = await createWorld();
+    const entity = world
+      .createTransformEntity()
+      .addComponent(TransformInterpolation);
+    const object = entity.object3D!;
+
+    world.update(0.125, 0.125);
+    expect(object.position.x).toBe(0);
+
+    world.update(0.25, 0.375);
+    expect(object.position.x).toBe(0.5);
+
+    world.update(0.25, 0.625);
+    expect(object.position.x).toBe(1.5);
+    expect(mover.observed).toEqual([0, 1]);
+
+    // A write outside the fixed tick snaps instead of being blended back
+    object.position.x = 10;
+    world.update(0.125, 0.75);
+    expect(mover.observed.at(-1)).toBe(10);
+    expect(object.position.x).toBe(10);
+    world.update(0.125, 0.875);
+    expect(object.position.x).toBe(10.5);
+  });
+
+  it('runs fixed ticks in the slot of the first fixed system', async () => {
+    const world = await World.createHeadless();
+    world.fixedTimestep = 0.25;
+    const log: string[] = [];
+    let input = 0;
+    class Early extends createSystem() {
+      update(): void {
+        input++;
+        log.push('early update');
+      }
+    }
+    class Simulation extends createSystem({}, {}, { fixed: true }) {
+      fixedUpdate(): void {
+        log.push(`simulation tick sees input ${input}`);
+      }
+      update(): void {
+        log.push('simulation update');
+      }
+    }
+    class Late extends createSystem() {
+      update(): void {
+        log.push('late update');
+      }
+    }
+    world
+      .registerSystem(Late, { priority: 10 })
+      .registerSystem(Simulation, { priority: 5 })
+      .registerSystem(Early, { priority: 1 });
+
+    world.update(0.25, 0.25);
+    expect(log).toEqual([
+      'early update',
+      'simulation tick sees input 1',
+      'simulation update',
+      'late update',
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  Entity,
+  Transform,
+  Types,
+  World,
+  WorldSnapshot,
+  createComponent,
+} from '../../src/index.js';
+
+const Mode = { Idle: 'idle', Patrol: 'patrol' } as const;
+
+const Guard = createComponent('SnapshotTestGuard', {
+  mode: { type: Types.Enum, enum: Mode, default: Mode.Idle },
+  speed: { type: Types.Float32, default: 1 },
+  range: { type: Types.Float64, default: 10 },
+  label: { type: Types.String, default: '' },
+  alert: { type: Types.Boolean, default: false },
+  waypoint: { type: Types.Vec3, default: [0, 0, 0] },
+  tint: { type: Types.Color, default: [1, 1, 1, 1] },
+  target: { type: Types.Entity, default: null },
+  handle: { type: Types.Object, default: undefined },
+  _elapsed: { type: Types.Float32, default: 0 },
+});
+
+/** Only runtime fields, so the whole component is left out. */
+const GuardRuntime = createComponent('SnapshotTestGuardRuntime', {
+  _cache: { type: Types.Object, default: undefined },
+});
+
+async function createLevel() {
+  const world = await World.createHeadless();
+  world.registerComponent(Guard).registerComponent(GuardRuntime);
+  const post = world.createTransformEntity();
+  post.object3D!.name = 'Post';
+  post.object3D!.position.set(1, 2, 3);
+  const guard = world.createTransformEntity(undefined, post);
+  guard.object3D!.name = 'Guard';
+  guard
+    .addComponent(Guard, {
+      mode: Mode.Patrol,
+      speed: 2.5,
+      range: Infinity,
+      label: 'north gate',
+      alert: true,
+      target: post,
+      handle: { live: true },
+      _elapsed: 7,
+    })
+    .addComponent(GuardRuntime, { _cache: {} });
+  guard.getVectorView(Guard, 'waypoint').set([4, NaN, -Infinity]);
+  guard.getVectorView(Guard, 'tint').set([0.5, 0.25, 0, 1]);
+  return { world, post, guard };
+}
+
+const named = (entities: Entity[], name: string) =>
+  entities.find((entity) => entity.object3D?.name === name)!;
+
+describe('World snapshots', () => {
+  it('stores JSON-safe values and skips runtime fields', async () => {
+    const { world, post, guard } = await createLevel();
+    const snapshot = world.serialize();
+    const record = snapshot.entities.find((e) => e.name === 'Guard')!;
+
+    expect(record.components[Guard.id]).toEqual({
+      mode: 'patrol',
+      speed: 2.5,
+      range: 'Infinity',
+      label: 'north gate',
+      alert: true,
+      waypoint: [4, 'NaN', '-Infinity'],
+      tint: [0.5, 0.25, 0, 1],
+      target: post.index,
+    });
+    expect(GuardRuntime.id in record.components).toBe(false);
+    expect(record.components[Transform.id].parent).toBe(post.index);
+    // Parents are listed before their children
+    const order = snapshot.entities.map((e) => e.id);
+    expect(order.indexOf(post.index)).toBeLessThan(order.indexOf(guard.index));
+  });
+
+  it('restores vectors, enums and entity references from JSON', async () => {
+    const { world } = await createLevel();
+    const json = JSON.stringify(world.serialize());
+    const restored = world.deserialize(JSON.parse(json) as WorldSnapshot);
+    // TransformSystem attaches Object3Ds to their parents on update
+    world.update(0, 0);
+
+    const post = named(restored, 'Post');
+    const guard = named(restored, 'Guard');
+    expect(post.object3D!.position.toArray()).toEqual([1, 2, 3]);
+    expect(guard.getValue(Transform, 'parent') === post).toBe(true);
+    expect(guard.object3D!.parent === post.object3D).toBe(true);
+
+    expect(guard.getValue(Guard, 'mode')).toBe(Mode.Patrol);
+    expect(guard.getValue(Guard, 'speed')).toBe(2.5);
+    expect(guard.getValue(Guard, 'range')).toBe(Infinity);
+    expect(guard.getValue(Guard, 'label')).toBe('north gate');
+    expect(guard.getValue(Guard, 'alert')).toBe(true);
+    expect(Array.from(guard.getVectorView(Guard, 'waypoint'))).toEqual([
+      4,
+      NaN,
+      -Infinity,
+    ]);
+    expect(Array.from(guard.getVectorView(Guard, 'tint'))).toEqual([
+      0.5, 0.25, 0, 1,
+    ]);
+    expect(guard.getValue(Guard, 'target') === post).toBe(true);
+
+    // Runtime fields come back at their defaults
+    expect(guard.getValue(Guard, 'handle')).toBeUndefined();
+    expect(guard.getValue(Guard, '_elapsed')).toBe(0);
+    expect(guard.hasComponent(GuardRuntime)).toBe(false);
+  });
+
+  it('rejects snapshots of another version', async () => {
+    const { world } = await createLevel();
+    expect(() =>
+      world.deserialize({ ...world.serialize(), version: 99 }),
+    ).toThrow('Unsupported world snapshot version 99');
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AnySystemClass,
+  SystemOrderOptions,
+  resolveSystemOrder,
+} from '../../src/ecs/system-order.js';
+
+class InputSystem {}
+class GrabSystem {}
+class PhysicsSystem {}
+class AimSystem {}
+
+type Entry = { type: AnySystemClass; priority: number };
+
+const entry = (type: unknown, priority = 0): Entry => ({
+  type: type as AnySystemClass,
+  priority,
+});
+const names = (entries: Entry[]) => entries.map((e) => e.type.name);
+const order = (
+  ...pairs: Array<[unknown, SystemOrderOptions]>
+): Map<AnySystemClass, SystemOrderOptions> =>
+  new Map(pairs.map(([type, options]) => [type as AnySystemClass, options]));
+
+describe('resolveSystemOrder', () => {
+  const builtIns = () => [
+    entry(InputSystem, -4),
+    entry(GrabSystem, -3),
+    entry(PhysicsSystem, -2),
+  ];
+
+  it('keeps priority order when there are no constraints', () => {
+    const sorted = resolveSystemOrder(
+      [...builtIns(), entry(AimSystem)],
+      (e) => e.type,
+      new Map(),
+    );
+    expect(names(sorted)).toEqual([
+      'InputSystem',
+      'GrabSystem',
+      'PhysicsSystem',
+      'AimSystem',
+    ]);
+  });
+
+  it('places a system between its before/after constraints', () => {
+    const sorted = resolveSystemOrder(
+      [...builtIns(), entry(AimSystem)],
+      (e) => e.type,
+      order([AimSystem, { after: [InputSystem], before: [PhysicsSystem] }]),
+    );
+    expect(names(sorted)).toEqual([
+      'InputSystem',
+      'GrabSystem',
+      'AimSystem',
+      'PhysicsSystem',
+    ]);
+  });
+
+  it('ignores constraints on systems that are not registered', () => {
+    const sorted = resolveSystemOrder(
+      [entry(AimSystem), entry(InputSystem, -4)],
+      (e) => e.type,
+      order([AimSystem, { before: [PhysicsSystem] }]),
+    );
+    expect(names(sorted)).toEqual(['InputSystem', 'AimSystem']);
+  });
+
+  it('throws with the cycle when constraints contradict', () => {
+    expect(() =>
+      resolveSystemOrder(
+        [...builtIns(), entry(AimSystem)],
+        (e) => e.type,
+        order(
+          [AimSystem, { after: [PhysicsSystem], before: [GrabSystem] }],
+          [PhysicsSystem, { after: [GrabSystem] }],
+        ),
+      ),
+    ).toThrow(
+      'System ordering cycle: PhysicsSystem -> AimSystem -> GrabSystem -> PhysicsSystem',
+    );
+  });
+});
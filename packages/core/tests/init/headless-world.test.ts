@@ -0,0 +1,56 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  GrabSystem,
+  Types,
+  World,
+  createComponent,
+  createSystem,
+} from '../../src/index.js';
+
+const Spin = createComponent('Spin', {
+  speed: { type: Types.Float32, default: 1 },
+});
+
+class SpinSystem extends createSystem({ spinning: { required: [Spin] } }) {
+  frames = 0;
+
+  update(delta: number): void {
+    this.frames++;
+    this.queries.spinning.entities.forEach((entity) => {
+      entity.object3D!.rotation.y += entity.getValue(Spin, 'speed')! * delta;
+    });
+  }
+}
+
+describe('World.createHeadless', () => {
+  it('runs registered systems when stepped manually', async () => {
+    const world = await World.createHeadless();
+    world.registerComponent(Spin).registerSystem(SpinSystem);
+    const entity = world
+      .createTransformEntity()
+      .addComponent(Spin, { speed: 2 });
+
+    for (let i = 0; i < 10; i++) {
+      world.update(0.1, (i + 1) * 0.1);
+    }
+
+    expect(world.getSystem(SpinSystem)!.frames).toBe(10);
+    expect(entity.object3D!.rotation.y).toBeCloseTo(2);
+    expect(world.activeLevel.value.object3D!.children).toContain(
+      entity.object3D,
+    );
+  });
+
+  it('registers the feature systems requested in options', async () => {
+    const world = await World.createHeadless({ features: { grabbing: true } });
+    expect(world.getSystem(GrabSystem)).toBeDefined();
+    world.update(1 / 60, 1 / 60);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  XRInputRecording,
+  decodeInputRecording,
+  encodeInputRecording,
+} from '../../src/index.js';
+
+// Values exactly representable as float32 so they survive encoding unchanged
+const pose = (x: number) => [x, 1.5, -0.25, 0, 0, 0, 1];
+
+const recording: XRInputRecording = {
+  frames: [
+    {
+      time: 1234.5678901,
+      delta: 0.015625,
+      head: pose(0),
+      sources: [
+        {
+          handedness: 'right',
+          isPrimary: true,
+          profiles: ['meta-quest-touch-plus', 'generic-trigger'],
+          ray: pose(0.5),
+          grip: pose(0.25),
+          gamepad: {
+            buttons: [
+              { pressed: true, touched: true, value: 1 },
+              { pressed: false, touched: true, value: 0.5 },
+            ],
+            axes: [0, 0, -0.75, 0.125],
+          },
+        },
+        {
+          handedness: 'left',
+          isPrimary: false,
+          profiles: ['generic-trigger'],
+          ray: pose(-0.5),
+        },
+      ],
+    },
+    {
+      time: 1234.5835151,
+      delta: 0.015625,
+      head: pose(0.125),
+      sources: [
+        {
+          handedness: 'right',
+          isPrimary: true,
+          profiles: ['meta-quest-touch-plus', 'generic-trigger'],
+          ray: pose(0.75),
+          gamepad: { buttons: [], axes: [] },
+        },
+      ],
+    },
+  ],
+};
+
+describe('Input recording', () => {
+  it('round-trips frames through the binary format', () => {
+    const encoded = encodeInputRecording(recording);
+    expect(decodeInputRecording(encoded)).toEqual(recording);
+    // Also accepts the ArrayBuffer read from a file
+    expect(decodeInputRecording(encoded.slice().buffer)).toEqual(recording);
+  });
+
+  it('round-trips an empty recording', () => {
+    expect(decodeInputRecording(encodeInputRecording({ frames: [] }))).toEqual({
+      frames: [],
+    });
+  });
+
+  it('rejects other data and unsupported versions', () => {
+    expect(() => decodeInputRecording(new Uint8Array(8))).toThrow(
+      'Not an XR input recording',
+    );
+    const encoded = encodeInputRecording(recording);
+    new DataView(encoded.buffer).setUint16(4, 99, true);
+    expect(() => decodeInputRecording(encoded)).toThrow(
+      'Unsupported XR input recording version 99',
+    );
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  InspectorSystem,
+  Types,
+  World,
+  createComponent,
+  createSystem,
+  readFields,
+} from '../../src/index.js';
+
+const Mode = { Walk: 'walk', Fly: 'fly' } as const;
+
+const Tuning = createComponent('InspectorTestTuning', {
+  speed: { type: Types.Float32, default: 1 },
+  offset: { type: Types.Vec3, default: [0, 0, 0] },
+  mode: { type: Types.Enum, enum: Mode, default: Mode.Walk },
+});
+
+class CounterSystem extends createSystem() {
+  ticks = 0;
+  update(): void {
+    this.ticks++;
+  }
+}
+
+const createWorld = () =>
+  World.createHeadless({ features: { inspector: true } });
+
+describe('InspectorSystem', () => {
+  it('profiles systems while visible', async () => {
+    const world = await createWorld();
+    const inspector = world.getSystem(InspectorSystem)!;
+
+    inspector.config.visible.value = true;
+    expect(world.profileSystems).toBe(true);
+    inspector.config.visible.value = false;
+    expect(world.profileSystems).toBe(false);
+  });
+
+  it('stops following its config once unregistered', async () => {
+    const world = await createWorld();
+    const inspector = world.getSystem(InspectorSystem)!;
+    inspector.config.visible.value = true;
+
+    world.unregisterSystem(InspectorSystem);
+    expect(world.profileSystems).toBe(false);
+    inspector.config.visible.value = false;
+    inspector.config.visible.value = true;
+    expect(world.profileSystems).toBe(false);
+  });
+
+  it('reads and writes component fields of the selected entity', async () => {
+    const world = await createWorld();
+    world.registerComponent(Tuning);
+    const actions = world.getSystem(InspectorSystem)!['actions'];
+    const entity = world.createEntity();
+    entity.addComponent(Tuning);
+
+    expect(actions.edit(Tuning, 'speed', '2')).toBe('No entity selected');
+    actions.select(entity);
+    expect(actions.edit(Tuning, 'speed', '2.5')).toBeUndefined();
+    expect(actions.edit(Tuning, 'offset', '1, 2, 3')).toBeUndefined();
+    expect(actions.edit(Tuning, 'mode', 'fly')).toBeUndefined();
+
+    expect(entity.getValue(Tuning, 'speed')).toBe(2.5);
+    expect(Array.from(entity.getVectorView(Tuning, 'offset'))).toEqual([
+      1, 2, 3,
+    ]);
+    expect(
+      readFields(entity, Tuning).map(({ key, value }) => [key, value]),
+    ).toEqual([
+      ['speed', '2.500'],
+      ['offset', '1, 2, 3'],
+      ['mode', 'fly'],
+    ]);
+  });
+
+  it('reports rejected field values without writing them', async () => {
+    const world = await createWorld();
+    world.registerComponent(Tuning);
+    const actions = world.getSystem(InspectorSystem)!['actions'];
+    const entity = world.createEntity();
+    entity.addComponent(Tuning);
+    actions.select(entity);
+
+    expect(actions.edit(Tuning, 'speed', 'fast')).toMatch('not a number');
+    expect(actions.edit(Tuning, 'offset', '1, 2')).toMatch(
+      'expects 3 comma separated numbers',
+    );
+    expect(actions.edit(Tuning, 'mode', 'swim')).toBeTypeOf('string');
+    expect(entity.getValue(Tuning, 'speed')).toBe(1);
+    expect(entity.getValue(Tuning, 'mode')).toBe(Mode.Walk);
+  });
+
+  it('pauses and resumes systems', async () => {
+    const world = await createWorld();
+    world.registerSystem(CounterSystem);
+    const actions = world.getSystem(InspectorSystem)!['actions'];
+    const counter = world.getSystem(CounterSystem)!;
+
+    actions.togglePaused(counter);
+    world.update(1 / 60, 1 / 60);
+    expect(counter.isPaused).toBe(true);
+    expect(counter.ticks).toBe(0);
+
+    actions.togglePaused(counter);
+    world.update(1 / 60, 2 / 60);
+    expect(counter.isPaused).toBe(false);
+    expect(counter.ticks).toBe(1);
+  });
+});
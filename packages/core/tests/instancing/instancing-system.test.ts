@@ -0,0 +1,126 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  BoxGeometry,
+  GLXFImporter,
+  InstancedMesh,
+  Instanced,
+  Mesh,
+  MeshBasicMaterial,
+  Object3D,
+  Skeleton,
+  SkinnedMesh,
+  Tween,
+  World,
+} from '../../src/index.js';
+
+const geometry = new BoxGeometry();
+const material = new MeshBasicMaterial();
+
+describe('InstancingSystem', () => {
+  let world: World;
+
+  const batches = () =>
+    world.scene.children.filter(
+      (child): child is InstancedMesh =>
+        (child as InstancedMesh).isInstancedMesh,
+    );
+
+  const spawn = (object: Object3D, x: number) => {
+    object.position.set(x, 0, 0);
+    return world.createTransformEntity(object).addComponent(Instanced);
+  };
+
+  beforeEach(async () => {
+    world = await World.createHeadless();
+  });
+
+  it('batches meshes sharing geometry and material', () => {
+    const a = new Mesh(geometry, material);
+    const b = new Mesh(geometry, material);
+    spawn(a, 1);
+    spawn(b, 2);
+    world.update(1 / 60, 1 / 60);
+
+    const [batch] = batches();
+    expect(batches()).toHaveLength(1);
+    expect(batch.count).toBe(2);
+    expect(batch.material).toBe(material);
+    expect(a.material).not.toBe(material);
+    expect((a.material as MeshBasicMaterial).visible).toBe(false);
+    expect(batch.instanceMatrix.array[16 + 12]).toBe(2);
+  });
+
+  it('restores materials and drops empty batches when removed', () => {
+    const mesh = new Mesh(geometry, material);
+    const entity = spawn(mesh, 0);
+    world.update(1 / 60, 1 / 60);
+
+    entity.removeComponent(Instanced);
+    world.update(1 / 60, 2 / 60);
+    expect(mesh.material).toBe(material);
+    expect(batches()).toHaveLength(0);
+  });
+
+  it('skips skinned meshes', () => {
+    const skinned = new SkinnedMesh(geometry, material);
+    skinned.bind(new Skeleton([]));
+    spawn(skinned, 0);
+    world.update(1 / 60, 1 / 60);
+    expect(batches()).toHaveLength(0);
+    expect(skinned.material).toBe(material);
+  });
+
+  it('is opt-in for GLXF levels', () => {
+    expect(GLXFImporter.instancingThreshold).toBe(0);
+  });
+
+  it('batches meshes with different shadow or render order settings apart', () => {
+    const plain = new Mesh(geometry, material);
+    const shadowed = new Mesh(geometry, material);
+    shadowed.castShadow = true;
+    const ordered = new Mesh(geometry, material);
+    ordered.renderOrder = 2;
+    spawn(plain, 0);
+    spawn(shadowed, 1);
+    spawn(ordered, 2);
+    world.update(1 / 60, 1 / 60);
+
+    expect(batches()).toHaveLength(3);
+    expect(batches().map((batch) => batch.castShadow)).toContain(true);
+    expect(batches().map((batch) => batch.renderOrder)).toContain(2);
+  });
+
+  it('collapses instances on layers the camera does not render', () => {
+    const mesh = new Mesh(geometry, material);
+    spawn(mesh, 3);
+    mesh.layers.set(5);
+    world.update(1 / 60, 1 / 60);
+    const [batch] = batches();
+    expect(batch.instanceMatrix.array[0]).toBe(0);
+
+    mesh.layers.enable(0);
+    world.update(1 / 60, 2 / 60);
+    expect(batch.instanceMatrix.array[0]).toBe(1);
+    expect(batch.instanceMatrix.array[12]).toBe(3);
+  });
+
+  it('warns that material tweens do not affect instances', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    spawn(new Mesh(geometry, material), 0).addComponent(Tween, {
+      steps: [{ property: 'opacity', to: 0, duration: 1 }],
+    });
+    spawn(new Mesh(geometry, material), 1).addComponent(Tween, {
+      steps: [{ property: 'position', to: [0, 1, 0], duration: 1 }],
+    });
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toMatch('Tween opacity and color steps');
+    warn.mockRestore();
+  });
+});
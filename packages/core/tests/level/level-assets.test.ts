@@ -0,0 +1,58 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { CacheManager } from '../../src/asset/cache-manager.js';
+import { GLXFImporter, World } from '../../src/index.js';
+
+/** Level whose GLXF requests `urls`; records ref counts while they load. */
+function stubLevel(urls: string[], seen: Map<string, number>) {
+  return async (
+    _world: World,
+    _url: string,
+    _root: unknown,
+    onAssets?: (urls: string[]) => void,
+  ) => {
+    onAssets?.(urls);
+    for (const url of ['a.glb', 'b.glb', 'shared.glb']) {
+      seen.set(url, CacheManager.getRefCount(url));
+    }
+    return urls;
+  };
+}
+
+describe('LevelSystem asset retention', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    CacheManager.clear();
+  });
+
+  it("releases the previous level's assets before the next level loads", async () => {
+    const world = await World.createHeadless();
+    const load = vi.spyOn(GLXFImporter, 'load');
+    const step = async (url: string) => {
+      const loaded = world.loadLevel(url);
+      world.update(0, 0);
+      await loaded;
+    };
+
+    const first = new Map<string, number>();
+    load.mockImplementation(stubLevel(['a.glb', 'shared.glb'], first));
+    await step('first.glxf');
+    expect(first.get('a.glb')).toBe(1);
+
+    const second = new Map<string, number>();
+    load.mockImplementation(stubLevel(['b.glb', 'shared.glb'], second));
+    await step('second.glxf');
+    expect(second.get('a.glb')).toBe(0);
+    expect(second.get('shared.glb')).toBe(1);
+    expect(second.get('b.glb')).toBe(1);
+
+    await step('');
+    expect(CacheManager.getRefCount('shared.glb')).toBe(0);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { CacheManager } from '../../src/asset/cache-manager.js';
+import {
+  AssetManager,
+  DomeTexture,
+  FadePass,
+  GLXFImporter,
+  LevelTag,
+  LevelTransition,
+  Object3D,
+  World,
+} from '../../src/index.js';
+import type { Entity } from '../../src/index.js';
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const fadePass = (world: World) =>
+  world.renderPipeline
+    .getPasses()
+    .find((pass): pass is FadePass => pass instanceof FadePass);
+
+describe('LevelSystem transitions', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    CacheManager.clear();
+  });
+
+  it('fades out, swaps the level, loads its environment and fades in before resolving', async () => {
+    const world = await World.createHeadless();
+    const previous = new Object3D();
+    world.createTransformEntity(previous).addComponent(LevelTag, { id: 'old' });
+    const steps: string[] = [];
+    vi.spyOn(GLXFImporter, 'load').mockImplementation(
+      async (_world, _url, root) => {
+        steps.push(`load (previous in scene: ${!!previous.parent})`);
+        (root as Entity).addComponent(DomeTexture, { src: 'sky.hdr' });
+        return [];
+      },
+    );
+    const loadHDR = vi
+      .spyOn(AssetManager, 'loadHDRTexture')
+      .mockImplementation(async () => {
+        steps.push(`environment (opacity: ${fadePass(world)?.opacity})`);
+        return undefined as never;
+      });
+    let resolved = false;
+    void world
+      .loadLevel('next.glxf', { transition: { fadeOut: 0.2, fadeIn: 0.4 } })
+      .then(() => (resolved = true));
+
+    world.update(0, 0);
+    expect(fadePass(world)?.opacity).toBe(0);
+    world.update(0.1, 0.1);
+    expect(fadePass(world)?.opacity).toBeCloseTo(0.5);
+    expect(previous.parent).not.toBeNull();
+
+    world.update(0.1, 0.2);
+    await flush();
+    // The loading environment replaces the fade while loading
+    expect(steps).toEqual([
+      'load (previous in scene: false)',
+      'environment (opacity: 0)',
+    ]);
+    expect(loadHDR).toHaveBeenCalledWith(CacheManager.resolveUrl('sky.hdr'));
+    expect(fadePass(world)?.opacity).toBe(1);
+
+    world.update(0.2, 0.4);
+    expect(fadePass(world)?.opacity).toBeCloseTo(0.5);
+    await flush();
+    expect(resolved).toBe(false);
+
+    world.update(0.2, 0.6);
+    await flush();
+    expect(resolved).toBe(true);
+    expect(fadePass(world)).toBeUndefined();
+  });
+
+  it('cleans up and resolves when the transition fails', async () => {
+    const world = await World.createHeadless();
+    vi.spyOn(GLXFImporter, 'load').mockResolvedValue([]);
+    vi.spyOn(LevelTransition.prototype, 'fadeIn').mockRejectedValue(
+      new Error('lost context'),
+    );
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const first = world.loadLevel('a.glxf', {
+      transition: { fadeOut: 0, fadeIn: 0 },
+    });
+    world.update(0, 0);
+    world.update(0, 0);
+    await first;
+    expect(error).toHaveBeenCalledWith(
+      '[LevelSystem] Level change failed',
+      expect.any(Error),
+    );
+    expect(fadePass(world)).toBeUndefined();
+
+    // Further level requests are still accepted
+    const second = world.loadLevel('b.glxf');
+    world.update(0, 0);
+    await second;
+    expect(GLXFImporter.load).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ComfortVignetteSystem,
+  SlideSystem,
+  VignettePass,
+  World,
+} from '../../src/index.js';
+
+async function createWorld() {
+  const world = await World.createHeadless();
+  world.registerSystem(ComfortVignetteSystem);
+  const pass = world.renderPipeline
+    .getPasses()
+    .find((p) => p instanceof VignettePass) as VignettePass;
+  let time = 0;
+  const step = (dx = 0, frames = 1) => {
+    for (let i = 0; i < frames; i++) {
+      world.player.position.x += dx;
+      time += 1 / 60;
+      world.update(1 / 60, time);
+    }
+  };
+  return { world, pass, step };
+}
+
+describe('ComfortVignetteSystem', () => {
+  it('narrows the view while the origin moves', async () => {
+    const { pass, step } = await createWorld();
+    step(0, 2);
+    expect(pass.intensity).toBe(0);
+
+    // 3 m/s reaches the default maxLinearSpeed
+    step(0.05, 60);
+    expect(pass.intensity).toBe(1);
+    expect(pass.radius).toBeLessThan(1);
+
+    step(0, 120);
+    expect(pass.intensity).toBe(0);
+  });
+
+  it('ignores discontinuous jumps such as teleports', async () => {
+    const { pass, step } = await createWorld();
+    step(0, 2);
+    step(5);
+    step(0, 2);
+    expect(pass.intensity).toBe(0);
+  });
+
+  it('forwards the deprecated SlideSystem.comfortAssist as strength', async () => {
+    const { world } = await createWorld();
+    world.registerSystem(SlideSystem, {
+      configData: { comfortAssist: 0.2, locomotor: {} },
+    });
+    const vignette = world.getSystem(ComfortVignetteSystem)!;
+    expect(vignette.config.strength.value).toBeCloseTo(0.2);
+
+    world.getSystem(SlideSystem)!.config.comfortAssist.value = 0;
+    expect(vignette.config.strength.value).toBe(0);
+  });
+});
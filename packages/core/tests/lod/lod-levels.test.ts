@@ -0,0 +1,47 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findLODLevels, hideLODLevels } from '../../src/lod/lod-levels.js';
+import { Group, Object3D } from '../../src/runtime/three.js';
+
+function named(name: string): Object3D {
+  const object = new Object3D();
+  object.name = name;
+  return object;
+}
+
+describe('LOD levels', () => {
+  it('groups _LOD<n> children in level order, ignoring other children', () => {
+    const root = new Group();
+    const rock = named('Rock');
+    const lod2 = named('Rock_LOD2');
+    const lod0 = named('Rock_LOD0');
+    const lod1 = named('Rock_LOD1_1'); // GLTFLoader duplicate suffix
+    rock.add(lod2, named('Moss'), lod0, lod1);
+    root.add(rock);
+
+    expect(findLODLevels(root)).toEqual([
+      { anchor: rock, levels: [lod0, lod1, lod2] },
+    ]);
+  });
+
+  it('ignores names that only contain _LOD<n> mid-name', () => {
+    const wall = named('Wall');
+    const lod0 = named('Wall_LOD0');
+    wall.add(lod0, named('Wall_LOD1Trim'), named('Wall_LOD1_backup'));
+    expect(findLODLevels(wall)).toEqual([{ anchor: wall, levels: [lod0] }]);
+  });
+
+  it('shows only the finest level after loading', () => {
+    const tree = named('Tree');
+    const levels = ['Tree_LOD0', 'Tree_LOD1', 'Tree_LOD3'].map(named);
+    tree.add(...levels);
+    hideLODLevels(tree);
+    expect(levels.map((level) => level.visible)).toEqual([true, false, false]);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BoxGeometry,
+  Group,
+  LevelOfDetail,
+  Material,
+  Mesh,
+  MeshBasicMaterial,
+  Vector3,
+  World,
+} from '../../src/index.js';
+
+function level(name: string, material: Material): Mesh {
+  const mesh = new Mesh(new BoxGeometry(), material);
+  mesh.name = name;
+  return mesh;
+}
+
+describe('LODSystem', () => {
+  it('restores original materials and disposes crossfade clones on removal', async () => {
+    const world = await World.createHeadless();
+    const shared = new MeshBasicMaterial();
+    const rock = new Group();
+    const lod0 = level('Rock_LOD0', shared);
+    const lod1 = level('Rock_LOD1', new MeshBasicMaterial());
+    rock.add(lod0, lod1);
+    rock.position.set(20, 0, 0);
+    const entity = world
+      .createTransformEntity(rock)
+      .addComponent(LevelOfDetail, { crossfade: 1 });
+
+    world.update(0.1, 0.1);
+    expect(entity.getValue(LevelOfDetail, 'level')).toBe(1);
+    const clone = lod0.material as Material;
+    expect(clone === shared).toBe(false);
+    expect(clone.opacity).toBeLessThan(1);
+    let disposed = false;
+    clone.addEventListener('dispose', () => (disposed = true));
+
+    entity.removeComponent(LevelOfDetail);
+    expect(lod0.material === shared).toBe(true);
+    expect(shared.opacity).toBe(1);
+    expect(disposed).toBe(true);
+  });
+
+  describe('level selection', () => {
+    /** Rock with two levels and one 10m threshold, `x` meters from the head. */
+    async function setup() {
+      const world = await World.createHeadless();
+      const rock = new Group();
+      const lod0 = level('Rock_LOD0', new MeshBasicMaterial());
+      const lod1 = level('Rock_LOD1', new MeshBasicMaterial());
+      rock.add(lod0, lod1);
+      const entity = world
+        .createTransformEntity(rock)
+        .addComponent(LevelOfDetail, {
+          distances: [10],
+          hysteresis: 0.1,
+          crossfade: 0,
+        });
+      const head = world.player.head.getWorldPosition(new Vector3());
+      const at = (x: number) => {
+        rock.position.set(head.x + x, head.y, head.z);
+        world.update(0.1, 0);
+        return entity.getValue(LevelOfDetail, 'level');
+      };
+      return { at, lod0, lod1 };
+    }
+
+    it('stays on a level inside the hysteresis band and switches past it', async () => {
+      const { at } = await setup();
+      expect(at(5)).toBe(0);
+      expect(at(10.5)).toBe(0);
+      expect(at(11.5)).toBe(1);
+      expect(at(9.5)).toBe(1);
+      expect(at(8.5)).toBe(0);
+    });
+
+    it('switches instantly without crossfade', async () => {
+      const { at, lod0, lod1 } = await setup();
+      const material = lod0.material;
+      at(5);
+      expect([lod0.visible, lod1.visible]).toEqual([true, false]);
+      at(20);
+      expect([lod0.visible, lod1.visible]).toEqual([false, true]);
+      expect(lod0.material === material).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  Bone,
+  BoxGeometry,
+  DestroyWithParent,
+  MeshBasicMaterial,
+  Object3D,
+  Prefab,
+  Skeleton,
+  SkinnedMesh,
+  Transform,
+  Types,
+  Vector3,
+  World,
+  createComponent,
+} from '../../src/index.js';
+
+const Marker = createComponent('PrefabTestMarker', {
+  label: { type: Types.String, default: '' },
+});
+
+const withExtras = (label: string) => {
+  const object = new Object3D();
+  object.userData.meta_spatial = {
+    components: {
+      'com.iwsdk.components.PrefabTestMarker': { label: { value: label } },
+    },
+  };
+  return object;
+};
+
+describe('Prefab', () => {
+  it('keeps transformed intermediate nodes above nested entities', async () => {
+    const world = await World.createHeadless();
+    const root = new Object3D();
+    const middle = new Object3D();
+    middle.position.set(1, 0, 0);
+    middle.rotation.set(0, Math.PI / 2, 0);
+    middle.scale.setScalar(2);
+    const leaf = withExtras('leaf');
+    leaf.position.set(0, 0, 1);
+    root.add(middle.add(leaf));
+
+    const instance = world.instantiate(new Prefab({ object3D: root }));
+    world.update(1 / 60, 1 / 60);
+
+    const [middleEntity] = instance.getChildren();
+    expect(middleEntity.object3D!.parent).toBe(instance.object3D);
+    expect(middleEntity.hasComponent(DestroyWithParent)).toBe(true);
+    const [leafEntity] = middleEntity.getChildren();
+    expect(leafEntity.getValue(Marker, 'label')).toBe('leaf');
+    expect(leafEntity.getValue(Transform, 'parent')).toBe(middleEntity);
+
+    const position = leafEntity.object3D!.getWorldPosition(new Vector3());
+    expect(position.x).toBeCloseTo(3);
+    expect(position.z).toBeCloseTo(0);
+  });
+
+  it('leaves subtrees without extras as plain objects', async () => {
+    const world = await World.createHeadless();
+    const root = new Object3D();
+    const mesh = new Object3D();
+    root.add(mesh);
+
+    const instance = world.instantiate(new Prefab({ object3D: root }));
+    world.update(1 / 60, 1 / 60);
+
+    expect(instance.getChildren()).toEqual([]);
+    expect(instance.object3D!.children).toHaveLength(1);
+    expect(instance.object3D!.children[0].entityIdx).toBeUndefined();
+  });
+
+  it('binds skinned meshes of an instance to its own bones', async () => {
+    const world = await World.createHeadless();
+    const root = new Object3D();
+    const bone = new Bone();
+    const mesh = new SkinnedMesh(new BoxGeometry(), new MeshBasicMaterial());
+    root.add(bone, mesh);
+    mesh.bind(new Skeleton([bone]));
+
+    const instance = world.instantiate(new Prefab({ object3D: root }));
+    const clonedMesh = instance.object3D!.children.find(
+      (child) => child instanceof SkinnedMesh,
+    ) as SkinnedMesh;
+
+    expect(clonedMesh).not.toBe(mesh);
+    expect(clonedMesh.skeleton).not.toBe(mesh.skeleton);
+    for (const clonedBone of clonedMesh.skeleton.bones) {
+      expect(clonedBone).not.toBe(bone);
+      expect(clonedBone.parent === instance.object3D).toBe(true);
+    }
+  });
+});
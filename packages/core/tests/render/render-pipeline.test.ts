@@ -0,0 +1,128 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { WebGLMultiviewRenderTarget } from 'three/src/renderers/WebGLMultiviewRenderTarget.js';
+import { describe, it, expect } from 'vitest';
+import { FadePass } from '../../src/render/fade-pass.js';
+import { RenderPass, RenderPassContext } from '../../src/render/render-pass.js';
+import { RenderPipeline } from '../../src/render/render-pipeline.js';
+import {
+  PerspectiveCamera,
+  Scene,
+  Texture,
+  Vector2,
+  WebGLRenderer,
+  WebGLRenderTarget,
+} from '../../src/runtime/three.js';
+
+class NoopPass extends RenderPass {
+  readonly readsInput = true;
+  render(): void {}
+}
+
+describe('RenderPipeline', () => {
+  it('keeps passes sorted by order, stable among equal orders', () => {
+    const pipeline = new RenderPipeline(
+      {} as WebGLRenderer,
+      new Scene(),
+      new PerspectiveCamera(),
+    );
+    const late = pipeline.addPass(new NoopPass(10));
+    const first = pipeline.addPass(new NoopPass(0));
+    const second = pipeline.addPass(new NoopPass(0));
+    const early = pipeline.addPass(new NoopPass(-5));
+    expect(pipeline.getPasses()).toEqual([early, first, second, late]);
+
+    pipeline.removePass(first);
+    expect(pipeline.getPasses()).toEqual([early, second, late]);
+  });
+});
+
+/** Effect pass keeping one pipeline target, like BloomPass. */
+class TargetPass extends RenderPass {
+  readonly readsInput = true;
+  target?: WebGLRenderTarget;
+  render(
+    _input: Texture | null,
+    _target: WebGLRenderTarget | null,
+    context: RenderPassContext,
+  ): void {
+    this.target ??= context.createTarget(0.5);
+  }
+  resetTargets(): void {
+    this.target = undefined;
+  }
+}
+
+/** Renderer stub whose current output is `output`. */
+function fakeRenderer(state: { output: WebGLRenderTarget | null }) {
+  return {
+    xr: { isPresenting: true, enabled: true },
+    autoClear: true,
+    setRenderTarget: () => {},
+    getRenderTarget: () => state.output,
+    getDrawingBufferSize: (size: Vector2) => size.set(200, 100),
+    render: () => {},
+  } as unknown as WebGLRenderer;
+}
+
+describe('RenderPipeline targets', () => {
+  const isMultiview = (target?: WebGLRenderTarget) =>
+    (target as WebGLMultiviewRenderTarget).isWebGLMultiviewRenderTarget ===
+    true;
+
+  it('switches intermediate targets to multiview with the output and back', () => {
+    const state: { output: WebGLRenderTarget | null } = { output: null };
+    const pipeline = new RenderPipeline(
+      fakeRenderer(state),
+      new Scene(),
+      new PerspectiveCamera(),
+    );
+    const pass = pipeline.addPass(new TargetPass());
+
+    pipeline.render(0);
+    const flat = pass.target!;
+    expect(isMultiview(flat)).toBe(false);
+    expect([flat.width, flat.height]).toEqual([100, 50]);
+
+    state.output = new WebGLMultiviewRenderTarget(64, 32, 2);
+    pipeline.render(0);
+    const layered = pass.target as WebGLMultiviewRenderTarget;
+    expect(layered === flat).toBe(false);
+    expect(isMultiview(layered)).toBe(true);
+    expect(layered.numViews).toBe(2);
+    expect([layered.width, layered.height]).toEqual([32, 16]);
+
+    state.output = null;
+    pipeline.render(0);
+    expect(isMultiview(pass.target)).toBe(false);
+  });
+});
+
+describe('FadePass', () => {
+  it('animates opacity and resolves when the fade completes', async () => {
+    const fade = new FadePass();
+    let done = false;
+    const promise = fade.fadeOut(1).then(() => (done = true));
+
+    fade.update(0.25);
+    expect(fade.opacity).toBeCloseTo(0.25);
+    fade.update(1);
+    expect(fade.opacity).toBe(1);
+    await promise;
+    expect(done).toBe(true);
+  });
+
+  it('settles a running fade when a new one starts', async () => {
+    const fade = new FadePass();
+    const out = fade.fadeOut(1);
+    fade.update(0.5);
+    const back = fade.fadeIn(0);
+    await Promise.all([out, back]);
+    expect(fade.opacity).toBe(0);
+  });
+});
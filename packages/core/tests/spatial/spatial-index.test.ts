@@ -0,0 +1,99 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { World } from 'elics';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EntityName } from '../../src/ecs/entity-lookup.js';
+import type { Entity } from '../../src/ecs/index.js';
+import {
+  Box3,
+  BoxGeometry,
+  Mesh,
+  Object3D,
+  PerspectiveCamera,
+  Ray,
+  Vector3,
+} from '../../src/runtime/three.js';
+import { SpatialIndex } from '../../src/spatial/spatial-index.js';
+
+describe('SpatialIndex', () => {
+  let world: World;
+  let index: SpatialIndex;
+
+  const place = (object: Object3D, x: number, y: number, z: number) => {
+    const entity = world.createEntity() as Entity;
+    object.position.set(x, y, z);
+    object.updateMatrixWorld();
+    entity.object3D = object as Entity['object3D'];
+    index.update(entity);
+    return entity;
+  };
+
+  beforeEach(() => {
+    world = new World({ checksOn: false });
+    world.registerComponent(EntityName);
+    index = new SpatialIndex({ rootSize: 4 });
+  });
+
+  it('finds entities within a radius, optionally filtered by component', () => {
+    const near = place(new Object3D(), 1, 0, 0);
+    const far = place(new Object3D(), 10, 0, 0);
+    const named = place(new Object3D(), 0, 1, 0).addComponent(EntityName, {
+      name: 'Lamp',
+    });
+    expect(index.queryRadius(new Vector3(), 2)).toHaveLength(2);
+    expect(index.queryRadius(new Vector3(), 2)).not.toContain(far);
+    expect(index.queryRadius(new Vector3(), 2, EntityName)).toEqual([named]);
+    expect(index.queryRadius(new Vector3(10, 0, 0), 0.5)).toEqual([far]);
+    expect(index.queryRadius(new Vector3(1, 0, 0), 0.1)).toEqual([near]);
+  });
+
+  it('uses mesh bounds and follows moved entities', () => {
+    const box = place(new Mesh(new BoxGeometry(2, 2, 2)), 0, 0, 0);
+    expect(
+      index.queryBox(
+        new Box3(new Vector3(0.9, 0.9, 0.9), new Vector3(2, 2, 2)),
+      ),
+    ).toEqual([box]);
+
+    box.object3D!.position.set(100, 0, 0);
+    box.object3D!.updateMatrixWorld();
+    index.update(box);
+    expect(index.queryRadius(new Vector3(), 5)).toEqual([]);
+    expect(index.queryRadius(new Vector3(100, 0, 0), 0)).toEqual([box]);
+
+    index.remove(box);
+    expect(index.size).toBe(0);
+    expect(index.queryRadius(new Vector3(100, 0, 0), 5)).toEqual([]);
+  });
+
+  it('returns ray hits nearest first and frustum contents', () => {
+    const a = place(new Mesh(new BoxGeometry()), 0, 0, -5);
+    const b = place(new Mesh(new BoxGeometry()), 0, 0, -2);
+    place(new Mesh(new BoxGeometry()), 5, 0, 0);
+    const ray = new Ray(new Vector3(), new Vector3(0, 0, -1));
+    expect(index.queryRay(ray)).toEqual([b, a]);
+    expect(index.queryRay(ray, undefined, 3)).toEqual([b]);
+
+    const camera = new PerspectiveCamera(60, 1, 0.1, 3);
+    expect(index.queryFrustum(camera)).toEqual([b]);
+  });
+
+  it('skips entries in crossed cells that the ray misses', () => {
+    place(new Mesh(new BoxGeometry(0.2, 0.2, 0.2)), 0.3, 0.9, -5);
+    const ray = new Ray(new Vector3(), new Vector3(0, 0, -1));
+    expect(index.queryRay(ray)).toEqual([]);
+  });
+
+  it('ignores entities with non-finite bounds', () => {
+    const broken = place(new Object3D(), NaN, 0, 0);
+    const infinite = place(new Object3D(), Infinity, 0, 0);
+    expect(index.size).toBe(0);
+    expect(index.queryRadius(new Vector3(), 1000)).not.toContain(broken);
+    expect(index.queryRadius(new Vector3(), 1000)).not.toContain(infinite);
+  });
+});
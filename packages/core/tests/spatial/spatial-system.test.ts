@@ -0,0 +1,57 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  Box3,
+  BoxGeometry,
+  Mesh,
+  Object3D,
+  Vector3,
+  World,
+} from '../../src/index.js';
+
+const probe = new Box3(new Vector3(1.5, -0.5, -0.5), new Vector3(2, 0.5, 0.5));
+
+describe('SpatialIndexSystem', () => {
+  it('stays idle until the first query, which sees the current scene', async () => {
+    const world = await World.createHeadless();
+    const entity = world.createTransformEntity(new Object3D());
+    entity.object3D!.position.set(3, 0, 0);
+    world.update(1 / 60, 1 / 60);
+    expect(world.spatial.active).toBe(false);
+    expect(world.spatial.size).toBe(0);
+
+    const found = world.spatial.queryRadius(new Vector3(3, 0, 0), 0.1);
+    expect(world.spatial.active).toBe(true);
+    expect(found.map((e) => e.index)).toEqual([entity.index]);
+
+    entity.object3D!.position.set(-3, 0, 0);
+    world.update(1 / 60, 2 / 60);
+    expect(world.spatial.queryRadius(new Vector3(3, 0, 0), 0.1)).toEqual([]);
+  });
+
+  it('refreshes bounds when a subtree is attached to a placed entity', async () => {
+    const world = await World.createHeadless();
+    const entity = world.createTransformEntity(new Object3D());
+    world.update(1 / 60, 1 / 60);
+    expect(world.spatial.queryBox(probe)).toEqual([]);
+
+    // e.g. a loaded GLTF scene added without moving the entity
+    const scene = new Object3D();
+    scene.add(new Mesh(new BoxGeometry(4, 1, 1)));
+    entity.object3D!.add(scene);
+    world.update(1 / 60, 2 / 60);
+    expect(world.spatial.queryBox(probe).map((e) => e.index)).toEqual([
+      entity.index,
+    ]);
+
+    entity.object3D!.remove(scene);
+    world.update(1 / 60, 3 / 60);
+    expect(world.spatial.queryBox(probe)).toEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  DestroyWithParent,
+  Entity,
+  Transform,
+  Vector3,
+  World,
+} from '../../src/index.js';
+
+/** Compare by index: diffs of whole entities reach into the world. */
+const ids = (entities: Entity[]) => entities.map((entity) => entity.index);
+
+describe('Entity hierarchy', () => {
+  let world: World;
+  let root: Entity;
+  let child: Entity;
+  let grandchild: Entity;
+
+  beforeEach(async () => {
+    world = await World.createHeadless();
+    root = world.createTransformEntity();
+    child = world.createTransformEntity(undefined, root);
+    grandchild = world.createTransformEntity(undefined, child);
+    world.update(1 / 60, 1 / 60);
+  });
+
+  it('lists children and descendants parents first', () => {
+    const sibling = world.createTransformEntity(undefined, root);
+    expect(ids(root.getChildren())).toEqual(ids([child, sibling]));
+    expect(ids(root.getDescendants())).toEqual(
+      ids([child, grandchild, sibling]),
+    );
+    expect(ids(grandchild.getChildren())).toEqual(ids([]));
+  });
+
+  it('follows reparenting through Transform.parent', () => {
+    grandchild.setValue(Transform, 'parent', root);
+    world.update(1 / 60, 2 / 60);
+    expect(ids(root.getChildren())).toEqual(ids([child, grandchild]));
+    expect(ids(child.getChildren())).toEqual(ids([]));
+    expect(grandchild.object3D!.parent).toBe(root.object3D);
+  });
+
+  it('removes children with the destroyed Object3D by default', () => {
+    const tagged = world
+      .createTransformEntity(undefined, root)
+      .addComponent(DestroyWithParent);
+    root.destroy();
+    expect(tagged.active).toBe(false);
+    expect(child.active).toBe(true);
+    expect(child.object3D!.parent).not.toBe(world.activeLevel.value.object3D);
+  });
+
+  it('re-attaches children to the grandparent when asked', () => {
+    child.object3D!.position.set(0, 1, 0);
+    grandchild.object3D!.position.set(2, 0, 0);
+    child.destroy({ reparentChildren: true });
+    expect(ids(root.getChildren())).toEqual(ids([grandchild]));
+    expect(grandchild.object3D!.parent).toBe(root.object3D);
+    expect(grandchild.object3D!.getWorldPosition(new Vector3())).toEqual(
+      new Vector3(2, 1, 0),
+    );
+  });
+
+  it('destroys every descendant when recursive', () => {
+    root.destroy({ recursive: true });
+    expect(child.active).toBe(false);
+    expect(grandchild.active).toBe(false);
+  });
+
+  it('does not leak hierarchy into recycled entities', () => {
+    child.destroy();
+    const reused = world.createTransformEntity(undefined, root);
+    // Entity instances are pooled: the new entity is the destroyed one
+    expect(reused === child).toBe(true);
+    expect(ids(reused.getChildren())).toEqual([]);
+    expect(ids(root.getChildren())).toEqual(ids([reused]));
+  });
+});
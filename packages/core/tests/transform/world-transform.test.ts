@@ -0,0 +1,59 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { World, WorldTransform } from '../../src/index.js';
+import type { Entity } from '../../src/index.js';
+
+const read = (entity: Entity, key: 'position' | 'orientation' | 'scale') =>
+  Array.from(entity.getVectorView(WorldTransform, key));
+
+const expectClose = (actual: number[], expected: number[]) => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 5));
+};
+
+describe('WorldTransform', () => {
+  it('follows a nested entity when its rotated, non-uniformly scaled parent moves', async () => {
+    const world = await World.createHeadless();
+    const parent = world.createTransformEntity();
+    parent.object3D!.position.set(1, 0, 0);
+    parent.object3D!.rotation.set(0, Math.PI / 2, 0);
+    parent.object3D!.scale.set(2, 1, 3);
+    const child = world
+      .createTransformEntity(undefined, parent)
+      .addComponent(WorldTransform);
+    child.object3D!.position.set(1, 0, 0);
+    const grandchild = world
+      .createTransformEntity(undefined, child)
+      .addComponent(WorldTransform);
+    grandchild.object3D!.position.set(0, 0, 1);
+    world.update(1 / 60, 1 / 60);
+
+    const half = Math.SQRT1_2;
+    // Local x is scaled by 2 and rotated onto -z
+    expectClose(read(child, 'position'), [1, 0, -2]);
+    expectClose(read(child, 'orientation'), [0, half, 0, half]);
+    expectClose(read(child, 'scale'), [2, 1, 3]);
+    // Local z is scaled by 3 and rotated onto +x
+    expectClose(read(grandchild, 'position'), [4, 0, -2]);
+    expectClose(read(grandchild, 'scale'), [2, 1, 3]);
+
+    parent.object3D!.position.set(5, 1, 0);
+    world.update(1 / 60, 2 / 60);
+    expectClose(read(child, 'position'), [5, 1, -2]);
+    expectClose(read(grandchild, 'position'), [8, 1, -2]);
+    expectClose(read(grandchild, 'orientation'), [0, half, 0, half]);
+    expect(grandchild.getValue(WorldTransform, 'x')).toBeCloseTo(8);
+    expect(grandchild.getValue(WorldTransform, 'y')).toBeCloseTo(1);
+    expect(grandchild.getValue(WorldTransform, 'z')).toBeCloseTo(-2);
+    expectClose(
+      Array.from(grandchild.getValue(WorldTransform, 'matrix') as Float32Array),
+      grandchild.object3D!.matrixWorld.elements,
+    );
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BoxGeometry,
+  Material,
+  Mesh,
+  MeshBasicMaterial,
+  Tween,
+  World,
+} from '../../src/index.js';
+
+function fadingMesh(world: World, shared: Material, keep = false) {
+  const mesh = new Mesh(new BoxGeometry(), shared);
+  const entity = world.createTransformEntity(mesh).addComponent(Tween, {
+    steps: [{ property: 'opacity', to: 0.5, duration: 1, easing: 'Linear' }],
+    keep,
+  });
+  return { mesh, entity };
+}
+
+function trackDispose(material: Material) {
+  let disposed = false;
+  material.addEventListener('dispose', () => (disposed = true));
+  return () => disposed;
+}
+
+describe('TweenSystem', () => {
+  it('clones shared materials and disposes the clones with the entity', async () => {
+    const world = await World.createHeadless();
+    const shared = new MeshBasicMaterial();
+    const sharedDisposed = trackDispose(shared);
+    const { mesh, entity } = fadingMesh(world, shared);
+
+    world.update(0.5, 0.5);
+    const clone = mesh.material as Material;
+    expect(clone === shared).toBe(false);
+    expect(clone.opacity).toBeCloseTo(0.75);
+    expect(shared.opacity).toBe(1);
+    const cloneDisposed = trackDispose(clone);
+
+    // The finished tween leaves its end state in place
+    world.update(1, 1.5);
+    expect(entity.hasComponent(Tween)).toBe(false);
+    expect(clone.opacity).toBeCloseTo(0.5);
+    world.update(0.1, 1.6);
+    expect(cloneDisposed()).toBe(false);
+
+    entity.destroy();
+    world.update(0.1, 1.7);
+    expect(cloneDisposed()).toBe(true);
+    expect(sharedDisposed()).toBe(false);
+  });
+
+  it('disposes the clones when the entity is destroyed mid-tween', async () => {
+    const world = await World.createHeadless();
+    const { mesh, entity } = fadingMesh(world, new MeshBasicMaterial(), true);
+
+    world.update(0.5, 0.5);
+    const cloneDisposed = trackDispose(mesh.material as Material);
+    entity.destroy();
+    world.update(0.1, 0.6);
+    expect(cloneDisposed()).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  advanceTweenState,
+  createTweenState,
+} from '../../src/tween/tween-timeline.js';
+
+describe('Tween timeline', () => {
+  it('lays out sequential, parallel and delayed steps', () => {
+    const state = createTweenState([
+      { property: 'position', to: [1, 0, 0], duration: 1 },
+      { property: 'scale', to: 2, duration: 0.5, parallel: true },
+      { property: 'opacity', to: 0, duration: 1, delay: 0.5 },
+    ]);
+    const spans = state.stepStates.map((step) => [step.start, step.end]);
+    expect(spans).toEqual([
+      [0, 1],
+      [0, 0.5],
+      [1.5, 2.5],
+    ]);
+    expect(state.duration).toBe(2.5);
+    expect(state.stepStates[1].to).toEqual([2, 2, 2]);
+    expect(state.stepStates[2].to).toEqual([0]);
+    expect(state.stepStates[0].from).toBeUndefined();
+  });
+
+  it('converts Euler orientations and hex colors', () => {
+    const state = createTweenState([
+      { property: 'orientation', to: [0, Math.PI, 0] },
+      { property: 'color', from: 0xff0000, to: [0, 1, 0] },
+    ]);
+    const [x, y, z, w] = state.stepStates[0].to as number[];
+    expect([x, y, z, w].map((v) => Math.abs(v))).toEqual([
+      0,
+      expect.closeTo(1),
+      0,
+      expect.closeTo(0),
+    ]);
+    expect(state.stepStates[1].from).toEqual([1, 0, 0]);
+  });
+
+  it('carries leftover time into the next play and finishes after the repeats', () => {
+    const state = createTweenState([
+      { property: 'position', to: [1, 0, 0], duration: 1 },
+    ]);
+    const positions: number[] = [];
+    const evaluate = (t: number) => positions.push(t);
+
+    expect(advanceTweenState(state, 0.75, 1, false, evaluate)).toBe(false);
+    expect(advanceTweenState(state, 0.5, 1, false, evaluate)).toBe(false);
+    expect(positions).toEqual([0.75, 1, 0.25]);
+    expect(state.play).toBe(1);
+
+    expect(advanceTweenState(state, 5, 1, false, evaluate)).toBe(true);
+    expect(positions.at(-1)).toBe(1);
+    expect(state.done).toBe(true);
+  });
+
+  it('plays every other repetition backwards with yoyo', () => {
+    const state = createTweenState([
+      { property: 'position', to: [1, 0, 0], duration: 1 },
+    ]);
+    const positions: number[] = [];
+    advanceTweenState(state, 1.25, -1, true, (t) => positions.push(t));
+    advanceTweenState(state, 1, -1, true, (t) => positions.push(t));
+    expect(positions).toEqual([1, 0.75, 0, 0.25]);
+    expect(state.done).toBe(false);
+  });
+
+  it('ends a zero-length looping timeline once per call', () => {
+    const state = createTweenState([{ property: 'visible', to: true }]);
+    const positions: number[] = [];
+    expect(
+      advanceTweenState(state, 1, -1, false, (t) => positions.push(t)),
+    ).toBe(false);
+    expect(positions).toEqual([0]);
+    expect(state.play).toBe(1);
+  });
+});
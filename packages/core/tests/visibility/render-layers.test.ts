@@ -0,0 +1,51 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  Object3D,
+  RenderEye,
+  RenderLayers,
+  VisibilityState,
+  World,
+} from '../../src/index.js';
+
+describe('RenderLayersSystem', () => {
+  let world: World;
+
+  beforeEach(async () => {
+    world = await World.createHeadless();
+  });
+
+  it('restores the original layers when the component is removed', () => {
+    const object = new Object3D();
+    object.layers.mask = 0b101;
+    const entity = world
+      .createTransformEntity(object)
+      .addComponent(RenderLayers, { desktop: false });
+    world.update(1 / 60, 1 / 60);
+    expect(object.layers.mask).toBe(0);
+
+    entity.removeComponent(RenderLayers);
+    expect(object.layers.mask).toBe(0b101);
+  });
+
+  it('limits rendering to one eye unless multiview is active', () => {
+    const object = new Object3D();
+    world
+      .createTransformEntity(object)
+      .addComponent(RenderLayers, { eye: RenderEye.Left });
+    world.visibilityState.value = VisibilityState.Visible;
+    world.update(1 / 60, 1 / 60);
+    expect(object.layers.mask).toBe(1 << 1);
+
+    (world.renderer.xr as unknown as { isMultiview: boolean }).isMultiview =
+      true;
+    world.update(1 / 60, 2 / 60);
+    expect(object.layers.mask).toBe(1);
+  });
+});
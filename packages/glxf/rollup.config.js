@@ -11,7 +11,11 @@ import typescript from '@rollup/plugin-typescript';
 
 export default {
   input: 'src/index.ts',
-  external: ['three', 'three/examples/jsm/loaders/GLTFLoader.js'],
+  external: [
+    'three',
+    'three/examples/jsm/loaders/GLTFLoader.js',
+    'three/examples/jsm/utils/SkeletonUtils.js',
+  ],
   plugins: [
     typescript({
       tsconfig: './tsconfig.json',
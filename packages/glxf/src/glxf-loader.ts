@@ -14,6 +14,7 @@ import {
   Object3D,
 } from 'three';
 import { GLTF, GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { clone as cloneSkinned } from 'three/examples/jsm/utils/SkeletonUtils.js';
 
 // Interface for any loader with loadAsync method
 interface GLTFLoaderLike {
@@ -214,7 +215,10 @@ export class GLXFLoader extends Loader<GLXF> {
 
       // If node has an asset, clone it as the base object
       if (node.asset !== undefined && loadedAssets[node.asset]) {
-        nodeObject = loadedAssets[node.asset].scene.clone();
+        // SkeletonUtils rebinds skinned meshes to the cloned bones
+        nodeObject = cloneSkinned(loadedAssets[node.asset].scene);
+        // Keep the asset's clips with the node so they can be played per instance
+        nodeObject.animations = loadedAssets[node.asset].animations ?? [];
       } else {
         nodeObject = new Group();
       }
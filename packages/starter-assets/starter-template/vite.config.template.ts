@@ -5,7 +5,7 @@
  * LICENSE file in the root directory of this source tree.
  */
 
-import { optimizeGLTF } from '@iwsdk/vite-plugin-gltf-optimizer';
+import { copyDecoders, optimizeGLTF } from '@iwsdk/vite-plugin-gltf-optimizer';
 import { injectIWER } from '@iwsdk/vite-plugin-iwer';
 /* @template:if kind='metaspatial' */
 import {
@@ -46,6 +46,7 @@ export default defineConfig({
     optimizeGLTF({
       level: 'medium',
     }),
+    copyDecoders(),
   ],
   server: { host: '0.0.0.0', port: 8081, open: true },
   build: {
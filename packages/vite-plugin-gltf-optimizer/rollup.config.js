@@ -25,6 +25,7 @@ export default {
     'fs-extra',
     'glob',
     'child_process',
+    'module',
     'util',
     '@gltf-transform/core',
     '@gltf-transform/functions',
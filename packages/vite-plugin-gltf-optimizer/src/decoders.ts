@@ -0,0 +1,155 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import * as fs from 'fs/promises';
+import { createRequire } from 'module';
+import * as path from 'path';
+import type { Plugin, ResolvedConfig } from 'vite';
+import type { DecoderOptions } from './types.js';
+
+/**
+ * Decoder files shipped with three.js, matching the CDN defaults of the IWSDK
+ * GLTF loader
+ */
+const DECODERS = {
+  draco: {
+    dir: 'draco',
+    source: 'three/examples/jsm/libs/draco/gltf',
+    files: ['draco_decoder.js', 'draco_decoder.wasm', 'draco_wasm_wrapper.js'],
+    option: 'dracoDecoderPath',
+  },
+  ktx2: {
+    dir: 'basis',
+    source: 'three/examples/jsm/libs/basis',
+    files: ['basis_transcoder.js', 'basis_transcoder.wasm'],
+    option: 'ktx2TranscoderPath',
+  },
+} as const;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.js': 'text/javascript',
+  '.wasm': 'application/wasm',
+};
+
+interface HostedFile {
+  /** Path below the decoder output directory, e.g. `draco/draco_decoder.wasm` */
+  name: string;
+  /** Absolute path of the source file */
+  file: string;
+}
+
+/**
+ * Vite plugin that self-hosts the Draco and KTX2 decoders used by IWSDK
+ * Copies the decoders of the project's three.js into the build output, serves
+ * them in dev, and injects their paths into the page, so no CDN is needed
+ */
+export function copyDecoders(options: DecoderOptions = {}): Plugin {
+  const outDir = (options.outDir ?? 'decoders').replace(/^\/+|\/+$/g, '');
+  const enabled = (['draco', 'ktx2'] as const).filter(
+    (name) => options[name] ?? true,
+  );
+
+  let config: ResolvedConfig;
+  let files: HostedFile[] = [];
+
+  /**
+   * Resolve decoder files from the project's three.js installation
+   */
+  function resolveFiles(root: string): HostedFile[] {
+    const require = createRequire(path.join(root, 'package.json'));
+    const resolved: HostedFile[] = [];
+    for (const name of enabled) {
+      const decoder = DECODERS[name];
+      for (const file of decoder.files) {
+        try {
+          resolved.push({
+            name: `${decoder.dir}/${file}`,
+            file: require.resolve(`${decoder.source}/${file}`),
+          });
+        } catch {
+          console.warn(
+            `⚠️  Decoder file not found: ${decoder.source}/${file}. IWSDK will fall back to the CDN.`,
+          );
+        }
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Decoder paths as seen from the page, keyed by IWSDK asset option
+   */
+  function decoderPaths(): Record<string, string> {
+    const paths: Record<string, string> = {};
+    for (const name of enabled) {
+      const decoder = DECODERS[name];
+      if (files.some((file) => file.name.startsWith(`${decoder.dir}/`))) {
+        paths[decoder.option] = `${config.base}${outDir}/${decoder.dir}/`;
+      }
+    }
+    return paths;
+  }
+
+  return {
+    name: 'copy-decoders',
+
+    configResolved(resolvedConfig) {
+      config = resolvedConfig;
+      files = resolveFiles(config.root);
+    },
+
+    configureServer(server) {
+      server.middlewares.use(
+        path.posix.join(config.base, outDir),
+        async (req, res, next) => {
+          const name = (req.url ?? '').split('?')[0].replace(/^\/+/, '');
+          const hosted = files.find((file) => file.name === name);
+          if (!hosted) {
+            return next();
+          }
+          try {
+            const source = await fs.readFile(hosted.file);
+            res.setHeader(
+              'Content-Type',
+              CONTENT_TYPES[path.extname(name)] ?? 'application/octet-stream',
+            );
+            res.end(source);
+          } catch (error) {
+            next(error);
+          }
+        },
+      );
+    },
+
+    async generateBundle() {
+      for (const hosted of files) {
+        this.emitFile({
+          type: 'asset',
+          fileName: `${outDir}/${hosted.name}`,
+          source: await fs.readFile(hosted.file),
+        });
+      }
+      if (options.verbose) {
+        console.log(`📦 Copied ${files.length} decoder file(s) to ${outDir}/`);
+      }
+    },
+
+    transformIndexHtml() {
+      const paths = decoderPaths();
+      if (Object.keys(paths).length === 0) {
+        return [];
+      }
+      return [
+        {
+          tag: 'script',
+          children: `window.__IWSDK_DECODER_PATHS__ = ${JSON.stringify(paths)};`,
+          injectTo: 'head-prepend',
+        },
+      ];
+    },
+  };
+}
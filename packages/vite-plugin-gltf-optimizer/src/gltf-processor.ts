@@ -8,7 +8,13 @@
 import * as fs from 'fs/promises';
 import path from 'path';
 import { Mode, toktx } from '@gltf-transform/cli';
-import { Logger, NodeIO } from '@gltf-transform/core';
+import {
+  Document,
+  Logger,
+  Mesh,
+  NodeIO,
+  Primitive,
+} from '@gltf-transform/core';
 import { ALL_EXTENSIONS } from '@gltf-transform/extensions';
 import {
   dedup,
@@ -16,8 +22,10 @@ import {
   quantize,
   textureCompress,
   prune,
+  simplifyPrimitive,
 } from '@gltf-transform/functions';
 import draco3d from 'draco3dgltf';
+import { MeshoptSimplifier } from 'meshoptimizer';
 import sharp from 'sharp';
 import { CompressionMapper } from './compression-mapper.js';
 import type { ProcessedOptions } from './types.js';
@@ -52,6 +60,10 @@ export class GLTFProcessor {
           'draco3d.encoder': await draco3d.createEncoderModule(),
         });
       }
+
+      if (this.options.lod.ratios.length > 0) {
+        await MeshoptSimplifier.ready;
+      }
     } catch (error) {
       throw new Error(`Failed to initialize GLTF processor: ${error}`);
     }
@@ -261,6 +273,9 @@ export class GLTFProcessor {
       dedup(), // Remove duplicate data
     );
 
+    // Simplified levels are generated from full-precision geometry
+    await this.generateLODs(document);
+
     // Apply quantization (used by all compression modes)
     if (compress !== false) {
       const quantizationBits = CompressionMapper.toQuantizationBits(precision);
@@ -333,6 +348,91 @@ export class GLTFProcessor {
     }
   }
 
+  /**
+   * Emit simplified LOD levels for every static triangle mesh node.
+   *
+   * The node keeps its name and transform; its mesh moves to a `<name>_LOD0`
+   * child and each ratio adds a `<name>_LOD<n>` sibling of that child. The
+   * IWSDK runtime treats such children as levels of one LOD group.
+   */
+  private async generateLODs(document: Document): Promise<void> {
+    const { ratios, error } = this.options.lod;
+    if (ratios.length === 0) {
+      return;
+    }
+
+    // Meshes shared by several nodes are simplified once
+    const levelsByMesh = new Map<Mesh, Mesh[]>();
+    let generated = 0;
+
+    for (const node of document.getRoot().listNodes()) {
+      const mesh = node.getMesh();
+      if (
+        !mesh ||
+        node.getSkin() ||
+        node.listExtensions().length > 0 ||
+        mesh
+          .listPrimitives()
+          .some(
+            (prim) =>
+              prim.getMode() !== Primitive.Mode.TRIANGLES ||
+              prim.listTargets().length > 0,
+          )
+      ) {
+        continue;
+      }
+
+      let levels = levelsByMesh.get(mesh);
+      if (!levels) {
+        levels = ratios.map((ratio, i) => {
+          const level = document.createMesh(
+            `${mesh.getName() || 'Mesh'}_LOD${i + 1}`,
+          );
+          for (const prim of mesh.listPrimitives()) {
+            // Copy accessors so simplification leaves the full-detail mesh intact
+            const copy = prim.clone();
+            for (const semantic of copy.listSemantics()) {
+              copy.setAttribute(semantic, copy.getAttribute(semantic)!.clone());
+            }
+            const indices = copy.getIndices();
+            if (indices) {
+              copy.setIndices(indices.clone());
+            }
+            level.addPrimitive(
+              simplifyPrimitive(copy, {
+                simplifier: MeshoptSimplifier,
+                ratio,
+                error,
+              }),
+            );
+          }
+          return level;
+        });
+        levelsByMesh.set(mesh, levels);
+      }
+
+      const name = node.getName() || mesh.getName() || 'Mesh';
+      node
+        .setMesh(null)
+        .addChild(document.createNode(`${name}_LOD0`).setMesh(mesh));
+      levels.forEach((level, i) => {
+        node.addChild(
+          document.createNode(`${name}_LOD${i + 1}`).setMesh(level),
+        );
+      });
+      generated++;
+    }
+
+    // Drop accessors replaced during simplification
+    await document.transform(prune());
+
+    if (this.options.verbose) {
+      console.log(
+        `   Generated LOD levels (${ratios.join(', ')}) for ${generated} node(s)`,
+      );
+    }
+  }
+
   /**
    * Load external resources referenced by a GLTF file
    */
@@ -23,8 +23,11 @@ export type {
   GeometryCompression,
   TextureCompressionMode,
   OptimizationLevel,
+  DecoderOptions,
 } from './types.js';
 
+export { copyDecoders } from './decoders.js';
+
 /**
  * Vite plugin for GLTF/GLB optimization during build
  * Intercepts GLTF/GLB files and applies compression using gltf-transform
@@ -93,6 +93,10 @@ export class PresetManager {
         etc1sPatterns: [],
         uastcPatterns: [],
       },
+      lod: {
+        ratios: [],
+        error: 0.01,
+      },
     };
 
     // Apply preset if specified
@@ -208,6 +212,19 @@ export class PresetManager {
       options.textures.maxSize = 1024; // Reset to default
     }
 
+    // Validate LOD options
+    const invalidRatios = options.lod.ratios.filter(
+      (ratio) => !(ratio > 0 && ratio < 1),
+    );
+    if (invalidRatios.length > 0) {
+      warnings.push(
+        `Invalid lod.ratios: ${invalidRatios.join(', ')} (should be between 0 and 1)`,
+      );
+      options.lod.ratios = options.lod.ratios.filter(
+        (ratio) => ratio > 0 && ratio < 1,
+      );
+    }
+
     // Log warnings if verbose mode is enabled
     if (verbose && warnings.length > 0) {
       console.warn('⚠️  GLTF Optimizer configuration warnings:');
@@ -230,6 +247,7 @@ export class PresetManager {
       `   Level: ${options.level}`,
       `   Geometry: ${geometryCompression} (quality: ${(options.geometry.quality * 100).toFixed(0)}%, precision: ${(options.geometry.precision * 100).toFixed(0)}%)`,
       `   Textures: ${textureMode} mode (quality: ${(options.textures.quality * 100).toFixed(0)}%, max size: ${options.textures.maxSize}px)`,
+      `   LOD: ${options.lod.ratios.length > 0 ? options.lod.ratios.join(', ') : 'none'}`,
     ].join('\n');
   }
 }
@@ -92,6 +92,24 @@ export interface TextureOptions {
   uastcPatterns?: RegExp[];
 }
 
+/**
+ * Level-of-detail generation options
+ */
+export interface LODOptions {
+  /**
+   * Target vertex ratios (0-1) of the generated levels, one level per entry,
+   * e.g. `[0.5, 0.2]`. Empty disables LOD generation.
+   * @default []
+   */
+  ratios?: number[];
+
+  /**
+   * Limit on simplification error, as a fraction of the mesh radius
+   * @default 0.01
+   */
+  error?: number;
+}
+
 /**
  * Main plugin options interface
  */
@@ -129,6 +147,41 @@ export interface GLTFOptimizerOptions {
    * Texture optimization options
    */
   textures?: TextureOptions;
+
+  /**
+   * Level-of-detail generation options. Generated levels are stored in the
+   * same asset as `<name>_LOD<n>` child nodes, which the IWSDK runtime picks up.
+   */
+  lod?: LODOptions;
+}
+
+/**
+ * Options for the decoder hosting plugin
+ */
+export interface DecoderOptions {
+  /**
+   * Output directory for decoders, relative to the build output and base URL
+   * @default 'decoders'
+   */
+  outDir?: string;
+
+  /**
+   * Host the Draco geometry decoder
+   * @default true
+   */
+  draco?: boolean;
+
+  /**
+   * Host the Basis Universal (KTX2) texture transcoder
+   * @default true
+   */
+  ktx2?: boolean;
+
+  /**
+   * Enable verbose logging
+   * @default false
+   */
+  verbose?: boolean;
 }
 
 /**
@@ -137,6 +190,7 @@ export interface GLTFOptimizerOptions {
 export interface ProcessedOptions extends Required<GLTFOptimizerOptions> {
   geometry: Required<GeometryOptions>;
   textures: Required<TextureOptions>;
+  lod: Required<LODOptions>;
 }
 
 /**
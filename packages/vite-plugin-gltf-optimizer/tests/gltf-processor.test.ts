@@ -0,0 +1,154 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { Document, Node } from '@gltf-transform/core';
+import { EXTMeshGPUInstancing } from '@gltf-transform/extensions';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { GLTFProcessor } from '../src/gltf-processor.js';
+import { PresetManager } from '../src/preset-manager.js';
+
+/** Flat `size` x `size` quad grid, easily simplified. */
+function createGrid(document: Document, name: string, size = 8) {
+  const positions: number[] = [];
+  const indices: number[] = [];
+  for (let y = 0; y <= size; y++) {
+    for (let x = 0; x <= size; x++) {
+      positions.push(x / size, y / size, 0);
+    }
+  }
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = y * (size + 1) + x;
+      indices.push(i, i + 1, i + size + 1, i + 1, i + size + 2, i + size + 1);
+    }
+  }
+  const buffer = document.getRoot().listBuffers()[0];
+  const position = document
+    .createAccessor()
+    .setType('VEC3')
+    .setArray(new Float32Array(positions))
+    .setBuffer(buffer);
+  const index = document
+    .createAccessor()
+    .setType('SCALAR')
+    .setArray(new Uint32Array(indices))
+    .setBuffer(buffer);
+  const primitive = document
+    .createPrimitive()
+    .setAttribute('POSITION', position)
+    .setIndices(index);
+  return document.createMesh(name).addPrimitive(primitive);
+}
+
+const childNames = (node: Node) => node.listChildren().map((c) => c.getName());
+
+describe('GLTFProcessor LOD generation', () => {
+  let processor: GLTFProcessor;
+
+  beforeAll(async () => {
+    processor = new GLTFProcessor(
+      PresetManager.processOptions({
+        geometry: { compress: false },
+        lod: { ratios: [0.5, 0.25] },
+      }),
+    );
+    await processor.initialize();
+  });
+
+  const generateLODs = (document: Document): Promise<void> =>
+    processor['generateLODs'](document);
+
+  it('moves a static mesh to <name>_LOD0 and adds simplified siblings', async () => {
+    const document = new Document();
+    document.createBuffer();
+    const rock = document
+      .createNode('Rock')
+      .setMesh(createGrid(document, 'RockMesh'))
+      .setTranslation([1, 2, 3]);
+    document.createScene().addChild(rock);
+
+    await generateLODs(document);
+
+    expect(rock.getMesh()).toBeNull();
+    expect(rock.getTranslation()).toEqual([1, 2, 3]);
+    expect(childNames(rock)).toEqual(['Rock_LOD0', 'Rock_LOD1', 'Rock_LOD2']);
+    const counts = rock
+      .listChildren()
+      .map((child) =>
+        child.getMesh()!.listPrimitives()[0].getIndices()!.getCount(),
+      );
+    expect(counts[1]).toBeLessThan(counts[0]);
+    expect(counts[2]).toBeLessThanOrEqual(counts[1]);
+  });
+
+  it('skips skinned, morphed and instanced meshes', async () => {
+    const document = new Document();
+    document.createBuffer();
+    const skinned = document
+      .createNode('Skinned')
+      .setMesh(createGrid(document, 'SkinnedMesh'))
+      .setSkin(document.createSkin());
+    const morphedMesh = createGrid(document, 'MorphedMesh');
+    const morphedPrimitive = morphedMesh.listPrimitives()[0];
+    morphedPrimitive.addTarget(
+      document
+        .createPrimitiveTarget()
+        .setAttribute(
+          'POSITION',
+          morphedPrimitive.getAttribute('POSITION')!.clone(),
+        ),
+    );
+    const morphed = document.createNode('Morphed').setMesh(morphedMesh);
+    const instancing = document.createExtension(EXTMeshGPUInstancing);
+    const instanced = document
+      .createNode('Instanced')
+      .setMesh(createGrid(document, 'InstancedMesh'))
+      .setExtension(
+        'EXT_mesh_gpu_instancing',
+        instancing.createInstancedMesh(),
+      );
+    document
+      .createScene()
+      .addChild(skinned)
+      .addChild(morphed)
+      .addChild(instanced);
+
+    await generateLODs(document);
+
+    for (const node of [skinned, morphed, instanced]) {
+      expect(node.getMesh()).not.toBeNull();
+      expect(node.listChildren()).toHaveLength(0);
+    }
+    expect(document.getRoot().listMeshes()).toHaveLength(3);
+  });
+
+  it('simplifies a mesh shared by several nodes once', async () => {
+    const document = new Document();
+    document.createBuffer();
+    const mesh = createGrid(document, 'CrateMesh');
+    const left = document.createNode('CrateLeft').setMesh(mesh);
+    const right = document.createNode('CrateRight').setMesh(mesh);
+    document.createScene().addChild(left).addChild(right);
+
+    await generateLODs(document);
+
+    expect(childNames(left)).toEqual([
+      'CrateLeft_LOD0',
+      'CrateLeft_LOD1',
+      'CrateLeft_LOD2',
+    ]);
+    expect(childNames(right)).toEqual([
+      'CrateRight_LOD0',
+      'CrateRight_LOD1',
+      'CrateRight_LOD2',
+    ]);
+    left.listChildren().forEach((child, i) => {
+      expect(child.getMesh() === right.listChildren()[i].getMesh()).toBe(true);
+    });
+    expect(document.getRoot().listMeshes()).toHaveLength(3);
+  });
+});
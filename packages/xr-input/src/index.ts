@@ -29,3 +29,6 @@ export * from './rig/xr-origin.js';
 export * from './xr-input-manager.js';
 export * from './pointer/grab-pointer.js';
 export * from './pointer/multi-pointer.js';
+
+// Recording / replay
+export * from './recording/input-recording.js';
@@ -43,23 +43,32 @@ const fragmentShader = `
     gl_FragColor = vec4(color, alpha * opacity);
   }
 `;
-// create cursor texture
 const cursorRes = 512;
-const canvas = document.createElement('canvas');
-canvas.width = cursorRes;
-canvas.height = cursorRes;
-const ctx = canvas.getContext('2d')!;
-ctx.clearRect(0, 0, canvas.width, canvas.height);
-ctx.fillStyle = 'white';
-ctx.beginPath();
-ctx.arc(cursorRes / 2, cursorRes / 2, (cursorRes / 16) * 7, 0, Math.PI * 2);
-ctx.fill();
-ctx.strokeStyle = 'gray';
-ctx.lineWidth = 3;
-ctx.beginPath();
-ctx.arc(cursorRes / 2, cursorRes / 2, (cursorRes / 16) * 7, 0, Math.PI * 2);
-ctx.stroke();
-const cursorTexture = new CanvasTexture(canvas);
+let cursorTexture: CanvasTexture | undefined;
+
+// create cursor texture on first use; without a DOM (headless worlds in Node)
+// the cursor is drawn untextured
+function getCursorTexture(): CanvasTexture | null {
+  if (cursorTexture || typeof document === 'undefined') {
+    return cursorTexture ?? null;
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = cursorRes;
+  canvas.height = cursorRes;
+  const ctx = canvas.getContext('2d')!;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = 'white';
+  ctx.beginPath();
+  ctx.arc(cursorRes / 2, cursorRes / 2, (cursorRes / 16) * 7, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.strokeStyle = 'gray';
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  ctx.arc(cursorRes / 2, cursorRes / 2, (cursorRes / 16) * 7, 0, Math.PI * 2);
+  ctx.stroke();
+  cursorTexture = new CanvasTexture(canvas);
+  return cursorTexture;
+}
 
 const ZAxis = new Vector3(0, 0, 1);
 const offsetHelper = new Vector3();
@@ -125,7 +134,7 @@ export class RayPointer {
     this.cursor = new Mesh(
       new CircleGeometry(0.008),
       new MeshBasicMaterial({
-        map: cursorTexture,
+        map: getCursorTexture(),
         transparent: true,
       }),
     );
@@ -0,0 +1,287 @@
+/**
+ * Copyright (c) Meta Platforms, Inc. and affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/** Position xyz followed by quaternion xyzw. */
+export type XRRecordedPose = number[];
+
+export interface XRRecordedGamepad {
+  buttons: Array<{ pressed: boolean; touched: boolean; value: number }>;
+  axes: number[];
+}
+
+/**
+ * One tracked controller in a recorded frame. Hand-tracking sources are not
+ * recorded: replay has no joint poses to drive them with.
+ */
+export interface XRRecordedInputSource {
+  handedness: 'left' | 'right';
+  isPrimary: boolean;
+  profiles: string[];
+  ray: XRRecordedPose;
+  /** Only present when the source exposes a grip space. */
+  grip?: XRRecordedPose;
+  gamepad?: XRRecordedGamepad;
+}
+
+export interface XRRecordedFrame {
+  time: number;
+  delta: number;
+  head: XRRecordedPose;
+  sources: XRRecordedInputSource[];
+}
+
+export interface XRInputRecording {
+  frames: XRRecordedFrame[];
+}
+
+const MAGIC = 0x52495749; // "IWIR"
+const VERSION = 1;
+
+const FLAG_RIGHT = 1;
+const FLAG_PRIMARY = 2;
+const FLAG_GRIP = 4;
+const FLAG_GAMEPAD = 8;
+
+class ByteWriter {
+  private bytes = new Uint8Array(1024);
+  private view = new DataView(this.bytes.buffer);
+  offset = 0;
+
+  private reserve(size: number) {
+    if (this.offset + size <= this.bytes.length) {
+      return;
+    }
+    let length = this.bytes.length * 2;
+    while (length < this.offset + size) {
+      length *= 2;
+    }
+    const bytes = new Uint8Array(length);
+    bytes.set(this.bytes);
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer);
+  }
+
+  u8(value: number) {
+    this.reserve(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  u16(value: number) {
+    this.reserve(2);
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  u32(value: number) {
+    this.reserve(4);
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  f32(value: number) {
+    this.reserve(4);
+    this.view.setFloat32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  f64(value: number) {
+    this.reserve(8);
+    this.view.setFloat64(this.offset, value, true);
+    this.offset += 8;
+  }
+
+  raw(bytes: Uint8Array) {
+    this.reserve(bytes.length);
+    this.bytes.set(bytes, this.offset);
+    this.offset += bytes.length;
+  }
+
+  finish(): Uint8Array {
+    return this.bytes.slice(0, this.offset);
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  offset = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  u8() {
+    return this.view.getUint8(this.offset++);
+  }
+
+  u16() {
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  u32() {
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f32() {
+    const value = this.view.getFloat32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f64() {
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  raw(length: number) {
+    const bytes = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+}
+
+/**
+ * Serialize a recording to a compact little‑endian binary file.
+ *
+ * Poses, button values and axes are stored as float32, frame time as float64,
+ * and the (repeating) profile lists once in a string table.
+ */
+export function encodeInputRecording(recording: XRInputRecording): Uint8Array {
+  const profileIndex = new Map<string, number>();
+  for (const frame of recording.frames) {
+    for (const source of frame.sources) {
+      const key = JSON.stringify(source.profiles);
+      if (!profileIndex.has(key)) {
+        profileIndex.set(key, profileIndex.size);
+      }
+    }
+  }
+
+  const writer = new ByteWriter();
+  writer.u32(MAGIC);
+  writer.u16(VERSION);
+  const table = new TextEncoder().encode(
+    `[${[...profileIndex.keys()].join(',')}]`,
+  );
+  writer.u32(table.length);
+  writer.raw(table);
+  writer.u32(recording.frames.length);
+
+  const pose = (values: XRRecordedPose) => {
+    for (let i = 0; i < 7; i++) {
+      writer.f32(values[i]);
+    }
+  };
+
+  for (const frame of recording.frames) {
+    writer.f64(frame.time);
+    writer.f32(frame.delta);
+    pose(frame.head);
+    writer.u8(frame.sources.length);
+    for (const source of frame.sources) {
+      writer.u8(
+        (source.handedness === 'right' ? FLAG_RIGHT : 0) |
+          (source.isPrimary ? FLAG_PRIMARY : 0) |
+          (source.grip ? FLAG_GRIP : 0) |
+          (source.gamepad ? FLAG_GAMEPAD : 0),
+      );
+      writer.u16(profileIndex.get(JSON.stringify(source.profiles))!);
+      pose(source.ray);
+      if (source.grip) {
+        pose(source.grip);
+      }
+      if (source.gamepad) {
+        writer.u8(source.gamepad.buttons.length);
+        for (const button of source.gamepad.buttons) {
+          writer.u8((button.pressed ? 1 : 0) | (button.touched ? 2 : 0));
+          writer.f32(button.value);
+        }
+        writer.u8(source.gamepad.axes.length);
+        source.gamepad.axes.forEach((axis) => writer.f32(axis));
+      }
+    }
+  }
+  return writer.finish();
+}
+
+/**
+ * Parse a file written by {@link encodeInputRecording}.
+ * @throws Error when the data is not an input recording of a supported version.
+ */
+export function decodeInputRecording(
+  data: ArrayBuffer | Uint8Array,
+): XRInputRecording {
+  const reader = new ByteReader(
+    data instanceof Uint8Array ? data : new Uint8Array(data),
+  );
+  if (reader.u32() !== MAGIC) {
+    throw new Error('Not an XR input recording');
+  }
+  const version = reader.u16();
+  if (version !== VERSION) {
+    throw new Error(`Unsupported XR input recording version ${version}`);
+  }
+  const profiles = JSON.parse(
+    new TextDecoder().decode(reader.raw(reader.u32())),
+  ) as string[][];
+
+  const pose = () => {
+    const values: XRRecordedPose = [];
+    for (let i = 0; i < 7; i++) {
+      values.push(reader.f32());
+    }
+    return values;
+  };
+
+  const frames: XRRecordedFrame[] = [];
+  const frameCount = reader.u32();
+  for (let f = 0; f < frameCount; f++) {
+    const time = reader.f64();
+    const delta = reader.f32();
+    const head = pose();
+    const sources: XRRecordedInputSource[] = [];
+    const sourceCount = reader.u8();
+    for (let s = 0; s < sourceCount; s++) {
+      const flags = reader.u8();
+      const source: XRRecordedInputSource = {
+        handedness: flags & FLAG_RIGHT ? 'right' : 'left',
+        isPrimary: !!(flags & FLAG_PRIMARY),
+        profiles: profiles[reader.u16()],
+        ray: pose(),
+      };
+      if (flags & FLAG_GRIP) {
+        source.grip = pose();
+      }
+      if (flags & FLAG_GAMEPAD) {
+        const buttons: XRRecordedGamepad['buttons'] = [];
+        const buttonCount = reader.u8();
+        for (let b = 0; b < buttonCount; b++) {
+          const state = reader.u8();
+          buttons.push({
+            pressed: !!(state & 1),
+            touched: !!(state & 2),
+            value: reader.f32(),
+          });
+        }
+        const axes: number[] = [];
+        const axisCount = reader.u8();
+        for (let a = 0; a < axisCount; a++) {
+          axes.push(reader.f32());
+        }
+        source.gamepad = { buttons, axes };
+      }
+      sources.push(source);
+    }
+    frames.push({ time, delta, head, sources });
+  }
+  return { frames };
+}
@@ -11,6 +11,12 @@ import { GLTF, GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import { loadInputProfile } from './gamepad/input-profiles.js';
 import { StatefulGamepad } from './gamepad/stateful-gamepad.js';
 import { MultiPointer } from './pointer/multi-pointer.js';
+import {
+  XRInputRecording,
+  XRRecordedFrame,
+  XRRecordedInputSource,
+  XRRecordedPose,
+} from './recording/input-recording.js';
 import { XROrigin } from './rig/xr-origin.js';
 import { XRInputVisualAdapter } from './visual/adapter/base-visual-adapter.js';
 import { XRControllerVisualAdapter } from './visual/adapter/controller-visual-adapter.js';
@@ -26,6 +32,19 @@ interface InputSourceData {
   inputSource: XRInputSource;
   isPrimary: boolean;
 }
+
+interface ReplayInputSource {
+  inputSource: XRInputSource;
+  buttons: Array<{ pressed: boolean; touched: boolean; value: number }>;
+  axes: number[];
+}
+
+export interface XRInputReplayOptions {
+  /** Restart from the first frame instead of ending. */
+  loop?: boolean;
+  /** Called once the last frame has been replayed (not when looping). */
+  onEnd?: () => void;
+}
 export enum XRInputDeviceType {
   Controller = 'controller',
   Hand = 'hand',
@@ -102,6 +121,14 @@ export class XRInputManager {
 
   private processedInputSourceKeys = new Set<string>();
 
+  private recordedFrames?: XRRecordedFrame[];
+  private warnedRecordingHands = false;
+  private replay?: XRInputReplayOptions & {
+    frames: XRRecordedFrame[];
+    index: number;
+  };
+  private replaySources = new Map<string, ReplayInputSource>();
+
   constructor(options: XRInputOptions) {
     const { scene, camera, assetLoader } = options;
     this.xrOrigin = new XROrigin();
@@ -158,6 +185,11 @@ export class XRInputManager {
   }
 
   update(xrManager: WebXRManager, delta: number, time: number): void {
+    if (this.replay) {
+      this.updateFromReplay();
+      return;
+    }
+
     const session = xrManager.getSession();
     if (!session) {
       if (this.hadSession) {
@@ -189,6 +221,171 @@ export class XRInputManager {
     // Force matrix update for xrOrigin, and then update pointers
     this.xrOrigin.updateMatrixWorld(true);
     this.updatePointers(delta, time);
+
+    this.recordedFrames?.push(this.captureFrame(delta, time));
+  }
+
+  get isRecording(): boolean {
+    return !!this.recordedFrames;
+  }
+
+  get isReplaying(): boolean {
+    return !!this.replay;
+  }
+
+  /**
+   * Start capturing head, ray and grip poses and raw gamepad state once per
+   * live XR frame. Restarts any recording in progress.
+   *
+   * Only controllers are captured: hand-tracking sources are skipped (with a
+   * warning), since replay has no joint poses to drive hands with.
+   */
+  startRecording(): void {
+    this.recordedFrames = [];
+    this.warnedRecordingHands = false;
+  }
+
+  /** Stop capturing; save the result with `encodeInputRecording`. */
+  stopRecording(): XRInputRecording {
+    const frames = this.recordedFrames ?? [];
+    this.recordedFrames = undefined;
+    return { frames };
+  }
+
+  /**
+   * Feed a recording back one frame per {@link update} in place of live `XRFrame`
+   * data; no XR session is required, so it also runs in headless worlds.
+   *
+   * Poses, gamepads and pointers are driven exactly as recorded (pointers with the
+   * recorded delta/time). Controller and hand visuals are not shown during replay.
+   */
+  startReplay(
+    recording: XRInputRecording,
+    options: XRInputReplayOptions = {},
+  ): void {
+    this.onSessionEnded();
+    this.hadSession = false;
+    this.replaySources.clear();
+    this.replay = { ...options, frames: recording.frames, index: 0 };
+  }
+
+  stopReplay(): void {
+    if (!this.replay) {
+      return;
+    }
+    this.replay = undefined;
+    this.replaySources.clear();
+    this.onSessionEnded();
+    this.gamepads.left = undefined;
+    this.gamepads.right = undefined;
+  }
+
+  private captureFrame(delta: number, time: number): XRRecordedFrame {
+    const sources: XRRecordedInputSource[] = [];
+    (['left', 'right'] as const).forEach((handedness) => {
+      if (
+        this.activeInputSources.hand[handedness] &&
+        !this.warnedRecordingHands
+      ) {
+        this.warnedRecordingHands = true;
+        console.warn(
+          '[XRInputManager] Hand-tracking input is not recorded; only controllers are captured',
+        );
+      }
+      const inputSourceData = this.activeInputSources.controller[handedness];
+      if (!inputSourceData) {
+        return;
+      }
+      const { inputSource, isPrimary } = inputSourceData;
+      const raySpace = isPrimary
+        ? this.xrOrigin.raySpaces[handedness]
+        : this.xrOrigin.secondaryRaySpaces[handedness];
+      const gripSpace = isPrimary
+        ? this.xrOrigin.gripSpaces[handedness]
+        : this.xrOrigin.secondaryGripSpaces[handedness];
+      const gamepad = inputSource.gamepad;
+      sources.push({
+        handedness,
+        isPrimary,
+        profiles: [...inputSource.profiles],
+        ray: readPose(raySpace),
+        ...(inputSource.gripSpace ? { grip: readPose(gripSpace) } : {}),
+        ...(gamepad
+          ? {
+              gamepad: {
+                buttons: gamepad.buttons.map(({ pressed, touched, value }) => ({
+                  pressed,
+                  touched,
+                  value,
+                })),
+                axes: [...gamepad.axes],
+              },
+            }
+          : {}),
+      });
+    });
+    return { time, delta, head: readPose(this.xrOrigin.head), sources };
+  }
+
+  private updateFromReplay(): void {
+    const replay = this.replay!;
+    if (replay.index >= replay.frames.length) {
+      if (replay.loop && replay.frames.length > 0) {
+        replay.index = 0;
+      } else {
+        this.stopReplay();
+        replay.onEnd?.();
+        return;
+      }
+    }
+    const frame = replay.frames[replay.index++];
+
+    this.resetActiveInputSources();
+    for (const recorded of frame.sources) {
+      const { handedness, isPrimary } = recorded;
+      const inputSource = this.getReplayInputSource(recorded);
+      this.assignInputSource(inputSource, isPrimary);
+      const raySpace = isPrimary
+        ? this.xrOrigin.raySpaces[handedness]
+        : this.xrOrigin.secondaryRaySpaces[handedness];
+      const gripSpace = isPrimary
+        ? this.xrOrigin.gripSpaces[handedness]
+        : this.xrOrigin.secondaryGripSpaces[handedness];
+      writePose(recorded.ray, raySpace);
+      writePose(recorded.grip ?? recorded.ray, gripSpace);
+    }
+    this.updateGamepads();
+
+    writePose(frame.head, this.xrOrigin.head);
+    this.xrOrigin.updateMatrixWorld(true);
+    this.updatePointers(frame.delta, frame.time);
+  }
+
+  /**
+   * Stand-in `XRInputSource` whose gamepad carries the recorded button and axis
+   * state. Kept across frames so {@link StatefulGamepad} sees continuous input.
+   */
+  private getReplayInputSource(recorded: XRRecordedInputSource): XRInputSource {
+    const key = `${recorded.handedness}-${recorded.isPrimary}`;
+    let replaySource = this.replaySources.get(key);
+    if (
+      !replaySource ||
+      replaySource.inputSource.profiles.join() !== recorded.profiles.join() ||
+      !!replaySource.inputSource.gripSpace !== !!recorded.grip ||
+      !!replaySource.inputSource.gamepad !== !!recorded.gamepad ||
+      replaySource.buttons.length !== (recorded.gamepad?.buttons.length ?? 0) ||
+      replaySource.axes.length !== (recorded.gamepad?.axes.length ?? 0)
+    ) {
+      replaySource = createReplayInputSource(recorded);
+      this.replaySources.set(key, replaySource);
+    }
+    recorded.gamepad?.buttons.forEach((button, idx) =>
+      Object.assign(replaySource!.buttons[idx], button),
+    );
+    recorded.gamepad?.axes.forEach((axis, idx) => {
+      replaySource!.axes[idx] = axis;
+    });
+    return replaySource.inputSource;
   }
 
   private onSessionEnded(): void {
@@ -328,6 +525,10 @@ export class XRInputManager {
         }
       });
     });
+    this.updateGamepads();
+  }
+
+  private updateGamepads(): void {
     (['left', 'right'] as const).forEach((handedness) => {
       const inputSource = this.primaryInputSources[handedness];
 
@@ -385,6 +586,45 @@ export class XRInputManager {
   }
 }
 
+function readPose(group: Group): XRRecordedPose {
+  return [...group.position.toArray(), ...group.quaternion.toArray()];
+}
+
+function writePose(pose: XRRecordedPose, group: Group) {
+  group.position.fromArray(pose, 0);
+  group.quaternion.fromArray(pose, 3);
+}
+
+function createReplayInputSource(
+  recorded: XRRecordedInputSource,
+): ReplayInputSource {
+  const buttons =
+    recorded.gamepad?.buttons.map(() => ({
+      pressed: false,
+      touched: false,
+      value: 0,
+    })) ?? [];
+  const axes = recorded.gamepad?.axes.map(() => 0) ?? [];
+  const inputSource = {
+    handedness: recorded.handedness,
+    profiles: recorded.profiles,
+    targetRayMode: 'tracked-pointer',
+    targetRaySpace: {},
+    gripSpace: recorded.grip ? {} : undefined,
+    gamepad: recorded.gamepad
+      ? {
+          id: '',
+          index: -1,
+          connected: true,
+          mapping: 'xr-standard',
+          buttons,
+          axes,
+        }
+      : undefined,
+  } as unknown as XRInputSource;
+  return { inputSource, buttons, axes };
+}
+
 function updatePose(
   frame: XRFrame,
   xrSpace: XRSpace,